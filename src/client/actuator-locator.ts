@@ -0,0 +1,160 @@
+/**
+ * Actuator Locator
+ * Resolves the gateway URIs of actuator functionalities from the domain objects
+ */
+
+import { PlugwiseError } from '../types/plugwise-types.js';
+import { ensureArray, getXmlValue } from '../utils/xml-helpers.js';
+
+/**
+ * Appliance types that control the zone they are in; setpoints written to
+ * them go to the zone's thermostat
+ */
+const ZONE_THERMOSTAT_TYPES = ['thermostat', 'zone_thermostat', 'thermostatic_radiator_valve'];
+
+export class ActuatorLocator {
+    private appliances: any[];
+    private locations: any[];
+
+    /**
+     * @param legacy Legacy firmware addresses actuators by appliance and tag only
+     */
+    constructor(domainObjects: any, private legacy: boolean = false) {
+        this.appliances = ensureArray(getXmlValue(domainObjects, 'domain_objects.appliance'));
+        this.locations = ensureArray(getXmlValue(domainObjects, 'domain_objects.location'));
+    }
+
+    /**
+     * Find an appliance by ID
+     */
+    findAppliance(applianceId: string): any | undefined {
+        return this.appliances.find(appliance => appliance.id === applianceId);
+    }
+
+    /**
+     * Find a location by ID
+     */
+    findLocation(locationId: string): any | undefined {
+        return this.locations.find(location => location.id === locationId);
+    }
+
+    /**
+     * Find the functionalities of a given tag, optionally filtered by their type
+     */
+    findFunctionalities(source: any, tag: string, type?: string): any[] {
+        const functionalities = ensureArray(source?.actuator_functionalities?.[tag]);
+        if (!type) return functionalities;
+        return functionalities.filter(func => func.type === undefined || func.type === type);
+    }
+
+    /**
+     * Resolve the thermostat URI for a location (zone) or an appliance.
+     * Thermostats that belong to a zone with a thermostat are controlled through
+     * that zone; other appliances need a thermostat of their own.
+     */
+    resolveThermostatUri(targetId: string): string {
+        if (this.legacy) {
+            return this.resolveLegacyThermostatUri(targetId);
+        }
+
+        const location = this.findLocation(targetId);
+        if (location) {
+            const [thermostat] = this.findFunctionalities(location, 'thermostat_functionality', 'thermostat');
+            if (!thermostat) {
+                throw new PlugwiseError(`Location ${location.name || targetId} has no thermostat actuator`);
+            }
+            return `/core/locations;id=${location.id}/thermostat;id=${thermostat.id}`;
+        }
+
+        const appliance = this.findAppliance(targetId);
+        if (!appliance) {
+            throw new PlugwiseError(`No location or appliance found with ID ${targetId}`);
+        }
+
+        if (ZONE_THERMOSTAT_TYPES.includes(appliance.type)) {
+            const zone = appliance.location?.id ? this.findLocation(appliance.location.id) : undefined;
+            const [zoneThermostat] = this.findFunctionalities(zone, 'thermostat_functionality', 'thermostat');
+            if (zone && zoneThermostat) {
+                return `/core/locations;id=${zone.id}/thermostat;id=${zoneThermostat.id}`;
+            }
+        }
+
+        const [thermostat] = this.findFunctionalities(appliance, 'thermostat_functionality', 'thermostat');
+        if (!thermostat) {
+            throw new PlugwiseError(`Appliance ${appliance.name || targetId} has no thermostat actuator`);
+        }
+        return `/core/appliances;id=${appliance.id}/thermostat;id=${thermostat.id}`;
+    }
+
+    /**
+     * Resolve the relay URI for an appliance (Plug, Circle, Aqara plug)
+     */
+    resolveRelayUri(applianceId: string): { uri: string; relay: any } {
+        const appliance = this.findAppliance(applianceId);
+        if (!appliance) {
+            throw new PlugwiseError(`No appliance found with ID ${applianceId}`);
+        }
+
+        const [relay] = this.findFunctionalities(appliance, 'relay_functionality', 'relay');
+        if (!relay) {
+            throw new PlugwiseError(`Appliance ${appliance.name || applianceId} has no relay actuator`);
+        }
+
+        const uri = this.legacy
+            ? `/core/appliances;id=${appliance.id}/relay`
+            : `/core/appliances;id=${appliance.id}/relay;id=${relay.id}`;
+        return { uri, relay };
+    }
+
+    /**
+     * A legacy Anna has a single thermostat appliance, locations resolve to it
+     */
+    private resolveLegacyThermostatUri(targetId: string): string {
+        const location = this.findLocation(targetId);
+        const appliance = location
+            ? this.appliances.find(item => this.findFunctionalities(item, 'thermostat_functionality').length > 0)
+            : this.findAppliance(targetId);
+
+        if (!appliance) {
+            throw new PlugwiseError(location
+                ? `Location ${location.name || targetId} has no thermostat actuator`
+                : `No location or appliance found with ID ${targetId}`);
+        }
+        if (this.findFunctionalities(appliance, 'thermostat_functionality').length === 0) {
+            throw new PlugwiseError(`Appliance ${appliance.name || targetId} has no thermostat actuator`);
+        }
+        return `/core/appliances;id=${appliance.id}/thermostat`;
+    }
+
+    /**
+     * Resolve a thermostat functionality of the heater by type (maximum_boiler_temperature, domestic_hot_water_setpoint)
+     */
+    resolveHeaterThermostat(heaterId: string, type: string, label: string): { uri: string; functionality: any } {
+        const heater = this.findAppliance(heaterId);
+        const functionality = this.findFunctionalities(heater, 'thermostat_functionality')
+            .find(func => func.type === type);
+        if (!heater || !functionality) {
+            throw new PlugwiseError(`This gateway does not support setting the ${label}`);
+        }
+
+        return { uri: `/core/appliances;id=${heater.id}/thermostat;id=${functionality.id}`, functionality };
+    }
+
+    /**
+     * Resolve a mode control functionality (gateway, regulation or DHW mode) and validate the mode
+     */
+    resolveModeControl(tag: string, label: string, mode: string): { applianceId: string; functionality: any } {
+        for (const appliance of this.appliances) {
+            const [functionality] = this.findFunctionalities(appliance, tag);
+            if (!functionality) continue;
+
+            const allowed = ensureArray<string>(functionality.allowed_modes?.mode);
+            if (!allowed.includes(mode)) {
+                throw new PlugwiseError(`Invalid ${label} ${mode}. Allowed: ${allowed.join(', ') || 'none'}`);
+            }
+            return { applianceId: appliance.id, functionality };
+        }
+
+        throw new PlugwiseError(`This gateway does not support setting the ${label}`);
+    }
+}
@@ -3,9 +3,25 @@
  * Parses actuator functionalities (switches, thermostats, etc.)
  */
 
-import { GatewayEntity } from '../../types/plugwise-types.js';
+import { ActuatorData, GatewayEntity, SmileSwitches } from '../../types/plugwise-types.js';
 import { ensureArray } from '../../utils/xml-helpers.js';
 
+/**
+ * Toggle functionality types reported as switches
+ */
+const TOGGLE_SWITCH_MAP: Record<string, keyof SmileSwitches> = {
+    cooling_enabled: 'cooling_ena_switch',
+    domestic_hot_water_comfort_mode: 'dhw_cm_switch'
+};
+
+/**
+ * Heater thermostat functionality types and the entity field they are reported as
+ */
+export const HEATER_LIMIT_MAP: Record<string, 'maximum_boiler_temperature' | 'max_dhw_temperature'> = {
+    maximum_boiler_temperature: 'maximum_boiler_temperature',
+    domestic_hot_water_setpoint: 'max_dhw_temperature'
+};
+
 export class ActuatorParser {
     /**
      * Parse actuators (switches, thermostats) from appliance
@@ -17,8 +33,10 @@ export class ActuatorParser {
         const funcs = source.actuator_functionalities;
 
         this.parseRelays(funcs, entity);
+        this.parseToggles(funcs, entity);
         this.parseThermostats(funcs, entity);
         this.parseTemperatureOffsets(funcs, entity);
+        this.parseModeControls(funcs, entity);
     }
 
     /**
@@ -31,37 +49,68 @@ export class ActuatorParser {
         for (const relay of relays) {
             if (relay.state !== undefined) {
                 // Use relay as the primary switch name
-                (entity.switches as any).relay = relay.state === 'on';
+                entity.switches!.relay = relay.state === 'on';
+                if (relay.lock !== undefined) {
+                    entity.switches!.lock = relay.lock === 'true';
+                }
                 break; // Only use the first relay
             }
         }
     }
 
+    /**
+     * Parse toggle functionalities (heat pump cooling, DHW comfort mode)
+     */
+    private parseToggles(funcs: any, entity: GatewayEntity): void {
+        for (const toggle of ensureArray<any>(funcs.toggle_functionality)) {
+            const key = TOGGLE_SWITCH_MAP[toggle.type];
+            if (key && toggle.state !== undefined) {
+                entity.switches![key] = toggle.state === 'on';
+            }
+        }
+    }
+
     /**
      * Parse thermostat functionalities
      */
     private parseThermostats(funcs: any, entity: GatewayEntity): void {
         if (!funcs.thermostat_functionality) return;
 
-        const thermostats = ensureArray(funcs.thermostat_functionality);
+        const thermostats = ensureArray<any>(funcs.thermostat_functionality);
         for (const thermostat of thermostats) {
-            if (!entity.thermostat) entity.thermostat = {};
-
-            if (thermostat.setpoint) {
-                entity.thermostat.setpoint = parseFloat(thermostat.setpoint);
-            }
-            if (thermostat.lower_bound) {
-                entity.thermostat.lower_bound = parseFloat(thermostat.lower_bound);
-            }
-            if (thermostat.upper_bound) {
-                entity.thermostat.upper_bound = parseFloat(thermostat.upper_bound);
-            }
-            if (thermostat.resolution) {
-                entity.thermostat.resolution = parseFloat(thermostat.resolution);
+            // Boiler and DHW limits of the heater are thermostat functionalities too
+            const limit = HEATER_LIMIT_MAP[thermostat.type];
+            if (limit) {
+                entity[limit] = { ...entity[limit], ...this.parseActuatorData(thermostat) };
+                continue;
             }
+            if (thermostat.type !== undefined && thermostat.type !== 'thermostat') continue;
+
+            entity.thermostat = { ...entity.thermostat, ...this.parseActuatorData(thermostat) };
         }
     }
 
+    /**
+     * Parse the setpoint with its bounds and resolution
+     */
+    private parseActuatorData(func: any): ActuatorData {
+        const data: ActuatorData = {};
+
+        if (func.setpoint) {
+            data.setpoint = parseFloat(func.setpoint);
+        }
+        if (func.lower_bound) {
+            data.lower_bound = parseFloat(func.lower_bound);
+        }
+        if (func.upper_bound) {
+            data.upper_bound = parseFloat(func.upper_bound);
+        }
+        if (func.resolution) {
+            data.resolution = parseFloat(func.resolution);
+        }
+        return data;
+    }
+
     /**
      * Parse temperature offset functionalities
      */
@@ -86,4 +135,27 @@ export class ActuatorParser {
             }
         }
     }
+
+    /**
+     * Parse gateway, regulation and DHW mode controls with their allowed modes
+     */
+    private parseModeControls(funcs: any, entity: GatewayEntity): void {
+        const gateway = ensureArray<any>(funcs.gateway_mode_control_functionality)[0];
+        if (gateway) {
+            entity.gateway_modes = ensureArray<string>(gateway.allowed_modes?.mode);
+            entity.select_gateway_mode = gateway.mode || undefined;
+        }
+
+        const regulation = ensureArray<any>(funcs.regulation_mode_control_functionality)[0];
+        if (regulation) {
+            entity.regulation_modes = ensureArray<string>(regulation.allowed_modes?.mode);
+            entity.select_regulation_mode = regulation.mode || undefined;
+        }
+
+        const dhw = ensureArray<any>(funcs.domestic_hot_water_mode_control_functionality)[0];
+        if (dhw) {
+            entity.dhw_modes = ensureArray<string>(dhw.allowed_modes?.mode);
+            entity.select_dhw_mode = dhw.mode || undefined;
+        }
+    }
 }
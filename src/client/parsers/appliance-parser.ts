@@ -29,6 +29,8 @@ export class ApplianceParser {
                 firmware: appliance.firmware_version || undefined,
                 hardware: appliance.hardware_version || undefined,
                 mac_address: appliance.mac_address || undefined,
+                zigbee_mac_address: appliance.zigbee_mac_address || undefined,
+                location: appliance.location?.id || undefined,
                 available: true,
                 sensors: {},
                 binary_sensors: {},
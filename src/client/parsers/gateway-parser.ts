@@ -6,6 +6,11 @@
 import { GatewayInfo } from '../../types/plugwise-types.js';
 import { getXmlValue } from '../../utils/xml-helpers.js';
 
+const LEGACY_GATEWAY_NAMES: Record<string, string> = {
+    smile_thermo: 'Smile Anna',
+    stretch: 'Stretch'
+};
+
 export class GatewayParser {
     /**
      * Parse gateway information from domain objects
@@ -31,17 +36,46 @@ export class GatewayParser {
         };
     }
 
+    /**
+     * Parse gateway information from /system, legacy firmware has no gateway domain object
+     */
+    parseLegacyGatewayInfo(data: any): GatewayInfo | null {
+        const gateway = getXmlValue(data, 'system.gateway');
+
+        if (!gateway) {
+            return null;
+        }
+
+        // The wired interface wins when both are reported
+        const macAddress = getXmlValue(data, 'system.eth0.mac') || getXmlValue(data, 'system.wlan0.mac');
+        const product = gateway.product || 'unknown';
+
+        return {
+            hostname: gateway.hostname || 'unknown',
+            hw_version: undefined,
+            legacy: true,
+            mac_address: macAddress || undefined,
+            model: product,
+            model_id: product,
+            name: LEGACY_GATEWAY_NAMES[product] || 'Plugwise Gateway',
+            type: this.detectGatewayType({ vendor_model: product, firmware_version: gateway.firmware }),
+            version: gateway.firmware || '0.0.0',
+            zigbee_mac_address: undefined
+        };
+    }
+
     /**
      * Detect the type of gateway (Adam, Anna, Smile P1, Stretch)
+     * Accepts both the vendor models of current firmware and the product names of legacy firmware
      */
     detectGatewayType(gateway: any): string {
-        const model = gateway.vendor_model || '';
-        const version = gateway.firmware_version || '';
+        const model = String(gateway.vendor_model || '').toLowerCase();
+        const version = String(gateway.firmware_version || '').toLowerCase();
 
-        if (model.includes('159')) return 'thermostat'; // Adam
-        if (model.includes('143')) return 'thermostat'; // Anna
-        if (version.includes('smile_v')) return 'power'; // Smile P1
-        if (version.includes('stretch_v')) return 'stretch'; // Stretch
+        if (model.includes('159') || model === 'smile_open_therm') return 'thermostat'; // Adam
+        if (model.includes('143') || model === 'smile_thermo') return 'thermostat'; // Anna
+        if (model.startsWith('stretch') || version.includes('stretch_v')) return 'stretch'; // Stretch
+        if (model === 'smile' || version.includes('smile_v')) return 'power'; // Smile P1
 
         return 'unknown';
     }
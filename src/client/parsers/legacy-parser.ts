@@ -0,0 +1,117 @@
+/**
+ * Legacy Parser
+ * Maps legacy Anna (firmware 1.x) and Stretch (v2/v3) data onto the domain objects layout
+ *
+ * Legacy firmware has no <gateway> object, lists actuators under <actuators> and keeps
+ * device details (vendor, model, firmware, ZigBee MAC) in /core/modules. Once combined,
+ * the regular parsers and the actuator locator can be used unchanged.
+ */
+
+import { ensureArray, findLinkedModule, getXmlValue } from '../../utils/xml-helpers.js';
+
+export interface LegacySources {
+    appliances: any;
+    locations: any;
+    modules: any;
+    rules?: any[];
+}
+
+export class LegacyParser {
+    /**
+     * Legacy firmware does not report a <gateway> in the domain objects
+     */
+    isLegacy(domainObjects: any): boolean {
+        return !getXmlValue(domainObjects, 'domain_objects.gateway');
+    }
+
+    /**
+     * Combine /core/appliances, /core/locations and /core/modules into a domain objects document
+     */
+    buildDomainObjects(sources: LegacySources): any {
+        const modules = ensureArray<any>(getXmlValue(sources.modules, 'modules.module'));
+        const appliances = ensureArray<any>(getXmlValue(sources.appliances, 'appliances.appliance'))
+            .map(appliance => this.normalizeAppliance(appliance, modules));
+
+        return {
+            domain_objects: {
+                appliance: appliances,
+                location: ensureArray<any>(getXmlValue(sources.locations, 'locations.location')),
+                module: modules,
+                rule: sources.rules ?? []
+            }
+        };
+    }
+
+    /**
+     * Find the home location, it stands in for the gateway on legacy firmware
+     */
+    findHomeLocationId(domainObjects: any): string | undefined {
+        const locations = ensureArray<any>(getXmlValue(domainObjects, 'domain_objects.location'));
+        const home = locations.find(location => location.type === 'building')
+            ?? locations.find(location => location.name === 'Home')
+            ?? locations[0];
+        return home?.id;
+    }
+
+    /**
+     * Parse the presets of a legacy Anna, each preset is a rule with an icon directive
+     */
+    parsePresets(domainObjects: any): { presets: string[]; active?: string } {
+        const presets: string[] = [];
+        let active: string | undefined;
+
+        for (const rule of ensureArray<any>(getXmlValue(domainObjects, 'domain_objects.rule'))) {
+            const icon = this.getPresetIcon(rule);
+            if (!icon) continue;
+
+            presets.push(icon);
+            if (rule.active === 'true') {
+                active = icon;
+            }
+        }
+
+        return { presets, active };
+    }
+
+    /**
+     * Find the ID of the rule that activates a preset
+     */
+    findPresetRuleId(domainObjects: any, preset: string): string | undefined {
+        return ensureArray<any>(getXmlValue(domainObjects, 'domain_objects.rule'))
+            .find(rule => this.getPresetIcon(rule) === preset)?.id;
+    }
+
+    private getPresetIcon(rule: any): string | undefined {
+        const then = ensureArray<any>(rule.directives?.when)
+            .map(when => when?.then)
+            .find(item => item?.icon);
+        return then?.icon;
+    }
+
+    /**
+     * Rename <actuators> to <actuator_functionalities> and merge in the module details
+     */
+    private normalizeAppliance(appliance: any, modules: any[]): any {
+        const { actuators, ...normalized } = appliance;
+
+        if (actuators && typeof actuators === 'object') {
+            normalized.actuator_functionalities = {};
+            for (const [tag, value] of Object.entries(actuators)) {
+                const functionalityTag = tag.endsWith('_functionality') ? tag : `${tag}_functionality`;
+                normalized.actuator_functionalities[functionalityTag] = value;
+            }
+        }
+
+        const module = findLinkedModule(appliance, modules);
+        if (module) {
+            normalized.vendor_name = normalized.vendor_name || module.vendor_name;
+            normalized.vendor_model = normalized.vendor_model || module.vendor_model;
+            normalized.hardware_version = normalized.hardware_version || module.hardware_version;
+            normalized.firmware_version = normalized.firmware_version || module.firmware_version;
+            normalized.zigbee_mac_address = normalized.zigbee_mac_address
+                || module.protocols?.zig_bee_node?.mac_address;
+        }
+
+        return normalized;
+    }
+}
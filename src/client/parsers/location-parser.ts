@@ -4,13 +4,28 @@
  */
 
 import { GatewayEntity } from '../../types/plugwise-types.js';
+import { ensureArray } from '../../utils/xml-helpers.js';
 import { MeasurementParser } from './measurement-parser.js';
+import { ActuatorParser } from './actuator-parser.js';
+
+/**
+ * Rank of the device classes that measure or control a zone, as used by python-plugwise:
+ * the highest ranked devices in a zone are its primary thermostats, the others secondary
+ */
+export const THERMOSTAT_RANKING: Record<string, number> = {
+    thermostat: 2,
+    zone_thermometer: 2,
+    zone_thermostat: 2,
+    thermostatic_radiator_valve: 1
+};
 
 export class LocationParser {
     private measurementParser: MeasurementParser;
+    private actuatorParser: ActuatorParser;
 
     constructor() {
         this.measurementParser = new MeasurementParser();
+        this.actuatorParser = new ActuatorParser();
     }
 
     /**
@@ -27,6 +42,11 @@ export class LocationParser {
                 switches: {}
             };
 
+            const members = ensureArray<any>(location.appliances?.appliance).map(appliance => appliance.id);
+            if (members.length > 0) {
+                entity.members = members;
+            }
+
             // Parse preset and schedule information
             if (location.preset) {
                 entity.active_preset = location.preset;
@@ -35,10 +55,39 @@ export class LocationParser {
             // Parse measurements from logs
             this.measurementParser.parseMeasurements(location, entity);
 
+            // Parse zone thermostat actuator
+            this.actuatorParser.parseActuators(location, entity);
+
             return entity;
         } catch (error) {
             console.error('Failed to parse location:', error);
             return null;
         }
     }
+
+    /**
+     * Split the thermostat devices among the zone members into primary and secondary thermostats
+     */
+    rankThermostats(memberIds: string[], entities: Record<string, GatewayEntity>): { primary: string[]; secondary: string[] } {
+        const primary: string[] = [];
+        const secondary: string[] = [];
+        let primaryRank = 0;
+
+        for (const id of memberIds) {
+            const rank = THERMOSTAT_RANKING[entities[id]?.dev_class ?? ''];
+            if (!rank) continue;
+
+            if (rank > primaryRank) {
+                secondary.push(...primary.splice(0));
+                primary.push(id);
+                primaryRank = rank;
+            } else if (rank === primaryRank) {
+                primary.push(id);
+            } else {
+                secondary.push(id);
+            }
+        }
+
+        return { primary, secondary };
+    }
 }
@@ -3,8 +3,54 @@
  * Parses sensor measurements from XML data
  */
 
-import { GatewayEntity } from '../../types/plugwise-types.js';
-import { ensureArray, extractMeasurement } from '../../utils/xml-helpers.js';
+import { GatewayEntity, SmileBinarySensors } from '../../types/plugwise-types.js';
+import {
+    ensureArray,
+    extractBooleanMeasurement,
+    extractMeasurement,
+    extractTariffMeasurements
+} from '../../utils/xml-helpers.js';
+
+/**
+ * Gateway log types reported as a differently named binary sensor
+ */
+const BINARY_SENSOR_MAP: Record<string, keyof SmileBinarySensors> = {
+    boiler_state: 'flame_state',
+    central_heater_state: 'heating_state',
+    domestic_hot_water_state: 'dhw_state',
+    slave_boiler_state: 'secondary_boiler_state'
+};
+
+/**
+ * On/off log types already reported as switches by the actuator parser
+ */
+const SWITCH_LOG_TYPES = ['relay', 'lock'];
+
+/**
+ * Sensor key part per smart meter tariff
+ */
+export const TARIFF_KEYS: Record<string, string> = {
+    nl_peak: 'peak',
+    nl_offpeak: 'off_peak'
+};
+
+/**
+ * Sensor key of a tariff measurement, e.g. electricity_consumed_peak_cumulative
+ */
+export function tariffSensorKey(type: string, tariff: string, kind: string): string {
+    return `${type}_${TARIFF_KEYS[tariff] ?? tariff}_${kind}`;
+}
+
+/**
+ * Elga heat pump status codes meaning cooling is enabled, 8 means it is actively cooling
+ */
+const ELGA_COOLING_ENABLED_CODES = [8, 9];
+const ELGA_COOLING_ACTIVE_CODE = 8;
+
+/**
+ * Battery level (%) below which low_battery is reported
+ */
+export const LOW_BATTERY_THRESHOLD = 15;
 
 export class MeasurementParser {
     /**
@@ -31,6 +77,21 @@ export class MeasurementParser {
             const logs = ensureArray(source.logs.interval_log);
             this.processLogs(logs, entity, '_interval');
         }
+
+        // An Elga heat pump reports cooling through its status code
+        const sensors = entity.sensors;
+        const elgaStatusCode = sensors.elga_status_code;
+        if (elgaStatusCode !== undefined) {
+            if (!entity.binary_sensors) entity.binary_sensors = {};
+            entity.binary_sensors.cooling_enabled = ELGA_COOLING_ENABLED_CODES.includes(elgaStatusCode);
+            entity.binary_sensors.cooling_state = elgaStatusCode === ELGA_COOLING_ACTIVE_CODE;
+            delete sensors.elga_status_code;
+        }
+
+        if (entity.sensors.battery !== undefined) {
+            if (!entity.binary_sensors) entity.binary_sensors = {};
+            entity.binary_sensors.low_battery = entity.sensors.battery < LOW_BATTERY_THRESHOLD;
+        }
     }
 
     /**
@@ -40,6 +101,27 @@ export class MeasurementParser {
         for (const log of logs) {
             if (!log.type) continue;
 
+            // On/off point logs (boiler, heating, DHW, cooling, compressor state) are binary sensors
+            const state = suffix ? undefined : extractBooleanMeasurement(log);
+            if (state !== undefined) {
+                if (SWITCH_LOG_TYPES.includes(log.type)) continue;
+                if (!entity.binary_sensors) entity.binary_sensors = {};
+                const key = BINARY_SENSOR_MAP[log.type] ?? log.type;
+                entity.binary_sensors[key] = state;
+                continue;
+            }
+
+            // Tariff logs hold one measurement per tariff, each gets its own key
+            const measurements = extractTariffMeasurements(log);
+            if (measurements.some(measurement => measurement.tariff)) {
+                const kind = suffix ? suffix.slice(1) : 'point';
+                for (const { tariff, value } of measurements) {
+                    if (!tariff) continue;
+                    entity.sensors![tariffSensorKey(log.type, tariff, kind)] = value;
+                }
+                continue;
+            }
+
             const value = extractMeasurement(log);
             if (value === undefined) continue;
 
@@ -47,7 +129,7 @@ export class MeasurementParser {
             const key = suffix ? `${log.type}${suffix}` : log.type;
             
             // Store the measurement
-            (entity.sensors as any)[key] = value;
+            entity.sensors![key] = value;
         }
     }
 }
@@ -0,0 +1,42 @@
+/**
+ * Notification Parser
+ * Parses gateway notifications from domain objects
+ */
+
+import { PlugwiseNotification } from '../../types/plugwise-types.js';
+import { ensureArray, getXmlValue } from '../../utils/xml-helpers.js';
+
+export class NotificationParser {
+    /**
+     * Parse all notifications from domain objects
+     */
+    parseNotifications(data: any): PlugwiseNotification[] {
+        const notifications: PlugwiseNotification[] = [];
+
+        for (const notification of ensureArray<any>(getXmlValue(data, 'domain_objects.notification'))) {
+            if (!notification.id) continue;
+
+            notifications.push({
+                id: notification.id,
+                type: notification.type || 'message',
+                message: notification.message || '',
+                timestamp: notification.timestamp || undefined
+            });
+        }
+
+        return notifications;
+    }
+
+    /**
+     * Notifications keyed by ID, as stored on the gateway entity
+     */
+    toEntityNotifications(notifications: PlugwiseNotification[]): Record<string, Record<string, string>> {
+        const result: Record<string, Record<string, string>> = {};
+
+        for (const { id, type, message, timestamp } of notifications) {
+            result[id] = { type, message, ...(timestamp && { timestamp }) };
+        }
+
+        return result;
+    }
+}
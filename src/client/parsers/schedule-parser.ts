@@ -0,0 +1,143 @@
+/**
+ * Schedule Parser
+ * Parses weekly schedules (rules) from domain objects
+ */
+
+import { Schedule, ScheduleBlock, ScheduleDay } from '../../types/plugwise-types.js';
+import { ensureArray, getXmlValue } from '../../utils/xml-helpers.js';
+
+export const SCHEDULE_TEMPLATE_TAG = 'zone_preset_based_on_time_and_presence_with_override';
+export const SCHEDULE_DAYS: ScheduleDay[] = ['mo', 'tu', 'we', 'th', 'fr', 'sa', 'su'];
+export const SCHEDULE_OFF = 'off';
+
+const TIME_RANGE_PATTERN = /^\[(mo|tu|we|th|fr|sa|su) (\d{2}:\d{2}),(mo|tu|we|th|fr|sa|su) (\d{2}:\d{2})\)$/;
+
+export class ScheduleParser {
+    /**
+     * Parse all weekly zone schedules from domain objects
+     */
+    parseSchedules(data: any): Schedule[] {
+        const rules = ensureArray<any>(getXmlValue(data, 'domain_objects.rule'));
+        const schedules: Schedule[] = [];
+
+        for (const rule of rules) {
+            const schedule = this.parseRule(rule);
+            if (schedule) {
+                schedules.push(schedule);
+            }
+        }
+
+        return schedules;
+    }
+
+    /**
+     * Parse a single rule, returns null for rules that are not weekly schedules
+     */
+    parseRule(rule: any): Schedule | null {
+        if (rule.template?.tag !== SCHEDULE_TEMPLATE_TAG) return null;
+
+        const blocks = this.parseDirectives(rule.directives);
+        // An empty schedule is shown as no schedule, like the Plugwise app does
+        if (blocks.length === 0) return null;
+
+        return {
+            id: rule.id,
+            name: rule.name || 'Unnamed schedule',
+            description: rule.description || undefined,
+            template_id: rule.template.id,
+            active: rule.active === 'true',
+            locations: this.parseContextLocations(rule.contexts),
+            blocks
+        };
+    }
+
+    /**
+     * Determine the schedules available to a location and the selected one
+     */
+    getLocationSchedules(schedules: Schedule[], locationId: string): { available: string[]; selected: string } {
+        const available = schedules.map(schedule => schedule.name);
+        const selected = schedules.find(schedule =>
+            schedule.active && schedule.locations.includes(locationId)
+        );
+
+        return {
+            available: [...available, SCHEDULE_OFF],
+            selected: selected ? selected.name : SCHEDULE_OFF
+        };
+    }
+
+    /**
+     * Parse the location IDs from rule contexts
+     */
+    private parseContextLocations(contexts: any): string[] {
+        const locations: string[] = [];
+
+        for (const context of ensureArray<any>(contexts?.context)) {
+            for (const location of ensureArray<any>(context?.zone?.location)) {
+                if (location.id) {
+                    locations.push(location.id);
+                }
+            }
+        }
+
+        return locations;
+    }
+
+    /**
+     * Parse <when time="[mo 07:00,mo 09:00)"><then preset="home"/></when> directives
+     */
+    private parseDirectives(directives: any): ScheduleBlock[] {
+        const blocks: ScheduleBlock[] = [];
+
+        for (const when of ensureArray<any>(directives?.when)) {
+            const then = when.then || {};
+            const target: Pick<ScheduleBlock, 'preset' | 'setpoint'> = {};
+
+            if (then.preset) {
+                target.preset = then.preset;
+            }
+            if (then.setpoint !== undefined && !isNaN(parseFloat(then.setpoint))) {
+                target.setpoint = parseFloat(then.setpoint);
+            }
+
+            for (const range of this.parseTimeRange(when.time)) {
+                blocks.push({ ...range, ...target });
+            }
+        }
+
+        return blocks.sort((a, b) =>
+            SCHEDULE_DAYS.indexOf(a.day) - SCHEDULE_DAYS.indexOf(b.day) || a.start.localeCompare(b.start)
+        );
+    }
+
+    /**
+     * Split a time range into per-day ranges, a range may span midnight
+     */
+    private parseTimeRange(time: string): Array<Pick<ScheduleBlock, 'day' | 'start' | 'end'>> {
+        const match = TIME_RANGE_PATTERN.exec(time || '');
+        if (!match) return [];
+
+        const [, startDay, startTime, endDay, endTime] = match;
+        const ranges: Array<Pick<ScheduleBlock, 'day' | 'start' | 'end'>> = [];
+
+        let dayIndex = SCHEDULE_DAYS.indexOf(startDay as ScheduleDay);
+        let start = startTime;
+
+        // Walk day by day until the end day is reached, at most a full week
+        for (let i = 0; i < SCHEDULE_DAYS.length; i++) {
+            const day = SCHEDULE_DAYS[dayIndex];
+            if (day === endDay && (endTime > start || (i > 0 && endTime === start))) {
+                if (endTime !== '00:00') {
+                    ranges.push({ day, start, end: endTime });
+                }
+                return ranges;
+            }
+
+            ranges.push({ day, start, end: '24:00' });
+            dayIndex = (dayIndex + 1) % SCHEDULE_DAYS.length;
+            start = '00:00';
+        }
+
+        return ranges;
+    }
+}
@@ -0,0 +1,92 @@
+/**
+ * Smart Meter Parser
+ * Parses the P1 smart meter into a dedicated GatewayEntity
+ *
+ * Electricity is logged per tariff and direction, every measurement gets its own key
+ * (e.g. electricity_consumed_peak_cumulative) and consumed minus produced is reported
+ * as net_electricity_point and net_electricity_cumulative.
+ */
+
+import { GatewayEntity, SmileSensors } from '../../types/plugwise-types.js';
+import { ensureArray, extractTariffMeasurements } from '../../utils/xml-helpers.js';
+import { tariffSensorKey } from './measurement-parser.js';
+
+const LOG_KINDS: Array<[tag: string, kind: string]> = [
+    ['point_log', 'point'],
+    ['cumulative_log', 'cumulative'],
+    ['interval_log', 'interval']
+];
+
+/**
+ * Sign of each electricity direction in the net values
+ */
+const DIRECTIONS: Record<string, number> = {
+    electricity_consumed: 1,
+    electricity_produced: -1
+};
+
+export class SmartMeterParser {
+    /**
+     * Parse the smart meter from the appliance or location holding its logs
+     * @param module Module of the meter, provides vendor, model and firmware
+     */
+    parseSmartMeter(source: any, module?: any): GatewayEntity {
+        const sensors: SmileSensors = {};
+        const entity: GatewayEntity = {
+            name: 'P1',
+            dev_class: 'smartmeter',
+            location: source.location?.id ?? source.id,
+            model: module?.vendor_model || undefined,
+            vendor: module?.vendor_name || undefined,
+            firmware: module?.firmware_version || undefined,
+            hardware: module?.hardware_version || undefined,
+            available: true,
+            sensors,
+            binary_sensors: {},
+            switches: {}
+        };
+        const net: Record<string, number> = {};
+
+        for (const [tag, kind] of LOG_KINDS) {
+            for (const log of ensureArray<any>(source.logs?.[tag])) {
+                if (!log.type) continue;
+
+                for (const { tariff, value } of extractTariffMeasurements(log)) {
+                    const measured = this.toDisplayUnit(value, log.unit, kind);
+                    const direction = DIRECTIONS[log.type];
+
+                    // Phase power and voltages keep their type as key, gas gets the log kind appended
+                    if (direction === undefined) {
+                        sensors[kind === 'point' && !log.type.startsWith('gas') ? log.type : `${log.type}_${kind}`] = measured;
+                        continue;
+                    }
+
+                    sensors[tariff ? tariffSensorKey(log.type, tariff, kind) : `${log.type}_${kind}`] = measured;
+                    if (kind !== 'interval') {
+                        net[kind] = (net[kind] ?? 0) + direction * measured;
+                    }
+                }
+            }
+        }
+
+        for (const [kind, value] of Object.entries(net)) {
+            sensors[`net_electricity_${kind}`] = this.round(value);
+        }
+
+        return entity;
+    }
+
+    /**
+     * Meter readings are logged in Wh, report them in kWh
+     */
+    private toDisplayUnit(value: number, unit: string | undefined, kind: string): number {
+        if (kind === 'cumulative' && unit === 'Wh') {
+            return this.round(value / 1000);
+        }
+        return value;
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 1000) / 1000;
+    }
+}
@@ -14,33 +14,58 @@ import {
     GatewayInfo,
     SetTemperatureParams,
     SetSwitchParams,
-    GatewayMode,
-    DHWMode,
-    RegulationMode,
+    Schedule,
+    SaveScheduleParams,
+    PlugwiseNotification,
+    ActuatorData,
+    GatewayStatus,
+    ModeOptions,
     ConnectionError,
     AuthenticationError,
     PlugwiseError
 } from '../types/plugwise-types.js';
+import { cdata, ensureArray, findLinkedModule, getXmlValue } from '../utils/xml-helpers.js';
+import { HttpClient } from './http-client.js';
+import { ActuatorLocator } from './actuator-locator.js';
+import { GatewayParser } from './parsers/gateway-parser.js';
+import { ApplianceParser } from './parsers/appliance-parser.js';
+import { LocationParser } from './parsers/location-parser.js';
+import { NotificationParser } from './parsers/notification-parser.js';
+import { LegacyParser } from './parsers/legacy-parser.js';
+import { SmartMeterParser } from './parsers/smart-meter-parser.js';
+import { ScheduleParser, SCHEDULE_OFF, SCHEDULE_TEMPLATE_TAG } from './parsers/schedule-parser.js';
+import { ScheduleBuilder } from './schedule-builder.js';
+
+interface CoolingState {
+    present: boolean;
+    enabled: boolean;
+    // Heat pump thermostats report a heating and a cooling setpoint
+    range: boolean;
+}
 
-const DEFAULT_PORT = 80;
-const DEFAULT_USERNAME = 'smile';
-const DEFAULT_TIMEOUT = 10000;
+// Legacy Stretch gateways expect this username instead of smile
+const STRETCH_USERNAME = 'stretch';
 
 export class PlugwiseClient {
-    private config: Required<PlugwiseConfig>;
+    private http: HttpClient;
+    private config: PlugwiseConfig;
+    private gatewayParser = new GatewayParser();
+    private applianceParser = new ApplianceParser();
+    private locationParser = new LocationParser();
+    private scheduleParser = new ScheduleParser();
+    private notificationParser = new NotificationParser();
+    private legacyParser = new LegacyParser();
+    private smartMeterParser = new SmartMeterParser();
     private connected: boolean = false;
+    private legacy: boolean = false;
     private gatewayId: string = '';
     private heaterId: string = '';
     private gatewayInfo: GatewayInfo | null = null;
+    private lastActiveSchedules: Map<string, string> = new Map();
 
     constructor(config: PlugwiseConfig) {
-        this.config = {
-            host: config.host,
-            password: config.password,
-            port: config.port || DEFAULT_PORT,
-            username: config.username || DEFAULT_USERNAME,
-            timeout: config.timeout || DEFAULT_TIMEOUT
-        };
+        this.config = config;
+        this.http = new HttpClient(config);
     }
 
     /**
@@ -51,44 +76,7 @@ export class PlugwiseClient {
         method: 'GET' | 'PUT' | 'POST' | 'DELETE' = 'GET',
         data?: string
     ): Promise<string> {
-        const url = `http://${this.config.host}:${this.config.port}${endpoint}`;
-        const auth = Buffer.from(`${this.config.username}:${this.config.password}`).toString('base64');
-
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), this.config.timeout);
-
-        try {
-            const response = await fetch(url, {
-                method,
-                headers: {
-                    'Authorization': `Basic ${auth}`,
-                    'Content-Type': 'text/xml',
-                },
-                body: data,
-                signal: controller.signal
-            });
-
-            clearTimeout(timeout);
-
-            if (response.status === 401) {
-                throw new AuthenticationError('Invalid credentials');
-            }
-
-            if (!response.ok) {
-                throw new ConnectionError(`HTTP ${response.status}: ${response.statusText}`);
-            }
-
-            return await response.text();
-        } catch (error) {
-            clearTimeout(timeout);
-            if (error instanceof AuthenticationError || error instanceof ConnectionError) {
-                throw error;
-            }
-            if ((error as Error).name === 'AbortError') {
-                throw new ConnectionError('Request timeout');
-            }
-            throw new ConnectionError(`Failed to connect to Plugwise gateway: ${(error as Error).message}`);
-        }
+        return this.http.request(endpoint, method, data);
     }
 
     /**
@@ -107,16 +95,49 @@ export class PlugwiseClient {
     }
 
     /**
-     * Extract text value from XML element
+     * Request and parse the domain objects
      */
-    private getXmlValue(obj: any, path: string): any {
-        const parts = path.split('.');
-        let current = obj;
-        for (const part of parts) {
-            if (current === undefined || current === null) return undefined;
-            current = current[part];
+    private async getDomainObjects(): Promise<any> {
+        if (this.legacy) {
+            return this.getLegacyDomainObjects();
+        }
+
+        const xml = await this.request('/core/domain_objects');
+        return this.parseXml(xml);
+    }
+
+    /**
+     * Combine the legacy endpoints into a domain objects document.
+     * Requests are made one at a time, legacy gateways do not cope well with parallel requests.
+     */
+    private async getLegacyDomainObjects(): Promise<any> {
+        const appliances = await this.parseXml(await this.request('/core/appliances'));
+        const locations = await this.parseXml(await this.request('/core/locations'));
+        const modules = await this.parseXml(await this.request('/core/modules'));
+
+        // The presets of a legacy Anna are rules, which are only listed in the domain objects
+        let rules: any[] = [];
+        if (this.gatewayInfo?.type === 'thermostat') {
+            const domainObjects = await this.parseXml(await this.request('/core/domain_objects'));
+            rules = ensureArray<any>(getXmlValue(domainObjects, 'domain_objects.rule'));
+        }
+
+        return this.legacyParser.buildDomainObjects({ appliances, locations, modules, rules });
+    }
+
+    /**
+     * Request the domain objects, retrying with the Stretch username when no username is configured
+     */
+    private async requestDomainObjects(): Promise<string> {
+        try {
+            return await this.request('/core/domain_objects');
+        } catch (error) {
+            if (!(error instanceof AuthenticationError) || this.config.username) {
+                throw error;
+            }
+            this.http = new HttpClient({ ...this.config, username: STRETCH_USERNAME });
+            return this.request('/core/domain_objects');
         }
-        return current;
     }
 
     /**
@@ -125,46 +146,29 @@ export class PlugwiseClient {
     async connect(): Promise<GatewayInfo> {
         try {
             // Request domain objects to identify the gateway
-            const xml = await this.request('/core/domain_objects');
-            const data = await this.parseXml(xml);
-
-            // Extract gateway information
-            const gateway = this.getXmlValue(data, 'domain_objects.gateway');
-
-            if (!gateway) {
+            let data = await this.parseXml(await this.requestDomainObjects());
+            this.legacy = this.legacyParser.isLegacy(data);
+
+            // Extract gateway information, legacy firmware only reports it in /system
+            const gatewayInfo = this.legacy
+                ? this.gatewayParser.parseLegacyGatewayInfo(await this.parseXml(await this.request('/system')))
+                : this.gatewayParser.parseGatewayInfo(data);
+            if (!gatewayInfo) {
                 throw new PlugwiseError('No gateway information found');
             }
+            this.gatewayInfo = gatewayInfo;
 
-            // Parse gateway details
-            this.gatewayInfo = {
-                hostname: gateway.hostname || 'unknown',
-                hw_version: gateway.hardware_version || undefined,
-                legacy: false,
-                mac_address: gateway.mac_address || undefined,
-                model: gateway.vendor_model || 'Unknown',
-                model_id: gateway.vendor_model || undefined,
-                name: gateway.name || 'Plugwise Gateway',
-                type: this.detectGatewayType(gateway),
-                version: gateway.firmware_version || '0.0.0',
-                zigbee_mac_address: undefined
-            };
-
-            // Find gateway and heater IDs
-            const appliances = this.getXmlValue(data, 'domain_objects.appliance');
-            if (appliances) {
-                const applianceArray = Array.isArray(appliances) ? appliances : [appliances];
-                for (const appliance of applianceArray) {
-                    const type = appliance.type;
-                    if (type === 'gateway') {
-                        this.gatewayId = appliance.id;
-                    } else if (type === 'heater_central') {
-                        this.heaterId = appliance.id;
-                    }
-                }
+            if (this.legacy) {
+                data = await this.getDomainObjects();
             }
 
+            // Find gateway and heater IDs, the home location stands in for a legacy gateway
+            const { gatewayId, heaterId } = this.gatewayParser.extractGatewayIds(data);
+            this.gatewayId = this.legacy ? this.legacyParser.findHomeLocationId(data) ?? '' : gatewayId;
+            this.heaterId = heaterId;
+
             this.connected = true;
-            return this.gatewayInfo!;
+            return this.gatewayInfo;
         } catch (error) {
             this.connected = false;
             if (error instanceof PlugwiseError) {
@@ -174,21 +178,6 @@ export class PlugwiseClient {
         }
     }
 
-    /**
-     * Detect the type of gateway (Adam, Anna, Smile P1, Stretch)
-     */
-    private detectGatewayType(gateway: any): string {
-        const model = gateway.vendor_model || '';
-        const version = gateway.firmware_version || '';
-
-        if (model.includes('159')) return 'thermostat'; // Adam
-        if (model.includes('143')) return 'thermostat'; // Anna
-        if (version.includes('smile_v')) return 'power'; // Smile P1
-        if (version.includes('stretch_v')) return 'stretch'; // Stretch
-
-        return 'unknown';
-    }
-
     /**
      * Get all devices and their current state
      */
@@ -198,35 +187,61 @@ export class PlugwiseClient {
         }
 
         try {
-            const xml = await this.request('/core/domain_objects');
-            const data = await this.parseXml(xml);
+            const data = await this.getDomainObjects();
 
             const entities: Record<string, GatewayEntity> = {};
 
             // Parse appliances (devices)
-            const appliances = this.getXmlValue(data, 'domain_objects.appliance');
-            if (appliances) {
-                const applianceArray = Array.isArray(appliances) ? appliances : [appliances];
-                for (const appliance of applianceArray) {
-                    const entity = this.parseAppliance(appliance);
-                    if (entity) {
-                        entities[appliance.id] = entity;
-                    }
+            for (const appliance of ensureArray<any>(getXmlValue(data, 'domain_objects.appliance'))) {
+                const entity = this.applianceParser.parseAppliance(appliance);
+                if (entity) {
+                    entities[appliance.id] = entity;
                 }
             }
 
+            if (this.legacy) {
+                this.addLegacyEntities(data, entities);
+                return {
+                    gateway_id: this.gatewayId,
+                    heater_id: this.heaterId,
+                    gateway_info: this.gatewayInfo!,
+                    entities
+                };
+            }
+
             // Parse locations (zones/rooms)
-            const locations = this.getXmlValue(data, 'domain_objects.location');
-            if (locations) {
-                const locationArray = Array.isArray(locations) ? locations : [locations];
-                for (const location of locationArray) {
-                    const entity = this.parseLocation(location);
-                    if (entity) {
-                        entities[location.id] = entity;
+            const schedules = this.scheduleParser.parseSchedules(data);
+            for (const location of ensureArray<any>(getXmlValue(data, 'domain_objects.location'))) {
+                const entity = this.locationParser.parseLocation(location);
+                if (entity) {
+                    if (entity.thermostat && schedules.length > 0) {
+                        const { available, selected } = this.scheduleParser.getLocationSchedules(schedules, location.id);
+                        entity.available_schedules = available;
+                        entity.select_schedule = selected;
+                        if (selected !== SCHEDULE_OFF) {
+                            this.lastActiveSchedules.set(location.id, selected);
+                        }
                     }
+                    entities[location.id] = entity;
                 }
             }
 
+            // A P1 gateway reports its smart meter as a dedicated entity
+            if (this.gatewayInfo?.type === 'power') {
+                this.addSmartMeter(data, entities);
+            }
+
+            this.applyZoneMembership(entities);
+            this.applyClimateState(entities);
+
+            // Notifications belong to the gateway
+            const gateway = entities[this.gatewayId];
+            if (gateway) {
+                const notifications = this.notificationParser.parseNotifications(data);
+                gateway.notifications = this.notificationParser.toEntityNotifications(notifications);
+                gateway.binary_sensors = { ...gateway.binary_sensors, plugwise_notification: notifications.length > 0 };
+            }
+
             return {
                 gateway_id: this.gatewayId,
                 heater_id: this.heaterId,
@@ -242,233 +257,240 @@ export class PlugwiseClient {
     }
 
     /**
-     * Parse appliance data into GatewayEntity
+     * The smart meter is an appliance on some firmware, on other firmware its logs
+     * are attached to the Home location, which is then reported as the smart meter
      */
-    private parseAppliance(appliance: any): GatewayEntity | null {
-        try {
-            const entity: GatewayEntity = {
-                name: appliance.name || 'Unknown Device',
-                dev_class: appliance.type || 'unknown',
-                model: appliance.vendor_model || undefined,
-                vendor: appliance.vendor_name || undefined,
-                firmware: appliance.firmware_version || undefined,
-                hardware: appliance.hardware_version || undefined,
-                mac_address: appliance.mac_address || undefined,
-                available: true,
-                sensors: {},
-                binary_sensors: {},
-                switches: {}
-            };
+    private addSmartMeter(data: any, entities: Record<string, GatewayEntity>): void {
+        const source = ensureArray<any>(getXmlValue(data, 'domain_objects.appliance'))
+            .find(appliance => appliance.type === 'smartmeter')
+            ?? ensureArray<any>(getXmlValue(data, 'domain_objects.location'))
+                .find(location => location.type === 'building' || location.name === 'Home');
+        if (!source) return;
+
+        const module = findLinkedModule(source, ensureArray<any>(getXmlValue(data, 'domain_objects.module')));
+        entities[source.id] = this.smartMeterParser.parseSmartMeter(source, module);
+    }
 
-            // Parse measurements (sensors)
-            this.parseMeasurements(appliance, entity);
+    /**
+     * Legacy firmware has no gateway appliance and no zones: the home location becomes
+     * the gateway entity (with the outdoor temperature), presets belong to the thermostat
+     */
+    private addLegacyEntities(data: any, entities: Record<string, GatewayEntity>): void {
+        const info = this.gatewayInfo!;
+        const home = ensureArray<any>(getXmlValue(data, 'domain_objects.location'))
+            .find(location => location.id === this.gatewayId);
+        const homeEntity = home ? this.locationParser.parseLocation(home) : null;
+
+        entities[this.gatewayId] = {
+            ...homeEntity,
+            name: info.name,
+            dev_class: 'gateway',
+            model: info.model,
+            model_id: info.model_id,
+            vendor: 'Plugwise',
+            firmware: info.version,
+            mac_address: info.mac_address,
+            available: true
+        };
 
-            // Parse actuators (switches, thermostats)
-            this.parseActuators(appliance, entity);
+        const { presets, active } = this.legacyParser.parsePresets(data);
+        if (presets.length === 0) return;
 
-            return entity;
-        } catch (error) {
-            console.error('Failed to parse appliance:', error);
-            return null;
+        for (const entity of Object.values(entities)) {
+            if (entity.dev_class === 'thermostat') {
+                entity.preset_modes = presets;
+                entity.active_preset = active;
+            }
         }
     }
 
     /**
-     * Parse location data into GatewayEntity
+     * Set temperature on a thermostat
+     * Accepts a location (zone) ID or the ID of a thermostat in that zone
      */
-    private parseLocation(location: any): GatewayEntity | null {
-        try {
-            const entity: GatewayEntity = {
-                name: location.name || 'Unknown Location',
-                dev_class: 'zone',
-                available: true,
-                sensors: {},
-                binary_sensors: {},
-                switches: {}
-            };
+    async setTemperature(params: SetTemperatureParams): Promise<void> {
+        if (!this.connected) {
+            throw new PlugwiseError('Not connected. Call connect() first.');
+        }
 
-            // Parse preset and schedule information
-            if (location.preset) {
-                entity.active_preset = location.preset;
-            }
+        const { location_id, setpoint } = params;
 
-            // Parse measurements from logs
-            this.parseMeasurements(location, entity);
+        const domainObjects = await this.getDomainObjects();
+        const temperature = setpoint ?? this.selectRangeSetpoint(domainObjects, params);
 
-            return entity;
-        } catch (error) {
-            console.error('Failed to parse location:', error);
-            return null;
-        }
+        const locator = new ActuatorLocator(domainObjects, this.legacy);
+        const uri = locator.resolveThermostatUri(location_id);
+        const data = `<thermostat_functionality><setpoint>${temperature}</setpoint></thermostat_functionality>`;
+
+        await this.request(uri, 'PUT', data);
     }
 
     /**
-     * Parse measurements from appliance/location
+     * Link zones and devices in both directions: the members of a zone come from its appliance
+     * list and from the appliances referring to it, and each zone gets its primary/secondary thermostats
      */
-    private parseMeasurements(source: any, entity: GatewayEntity): void {
-        if (!source.logs) return;
-        if (!entity.sensors) entity.sensors = {};
-
-        // Helper to process a list of logs
-        const processLogs = (logList: any[], suffix: string = '') => {
-            for (const log of logList) {
-                if (!log.type) continue;
-
-                // Get measurement - handle both direct text and period structure
-                let measurementValue: any;
-                if (log.period && log.period.measurement) {
-                    const meas = log.period.measurement;
-                    measurementValue = typeof meas === 'object' && meas._ !== undefined ? meas._ : meas;
-                } else if (log.measurement) {
-                    const meas = log.measurement;
-                    measurementValue = typeof meas === 'object' && meas._ !== undefined ? meas._ : meas;
-                } else {
-                    continue;
+    private applyZoneMembership(entities: Record<string, GatewayEntity>): void {
+        for (const [zoneId, zone] of Object.entries(entities)) {
+            if (zone.dev_class !== 'zone') continue;
+
+            const members = new Set(zone.members ?? []);
+            for (const [id, entity] of Object.entries(entities)) {
+                if (entity.location === zoneId && id !== zoneId) {
+                    members.add(id);
                 }
-
-                const value = parseFloat(measurementValue);
-                if (isNaN(value)) continue;
-
-                // Construct the sensor key
-                let key = log.type;
-                
-                // Handle specific P1 mappings and suffixes
-                if (suffix) {
-                    key = `${key}${suffix}`;
+            }
+            for (const id of members) {
+                if (entities[id] && !entities[id].location) {
+                    entities[id].location = zoneId;
                 }
-
-                // Map to SmileSensors keys
-                // We cast to any because we're dynamically assigning keys that match the interface
-                (entity.sensors as any)[key] = value;
             }
-        };
+            zone.members = [...members];
 
-        // Process point logs (instantaneous values)
-        if (source.logs.point_log) {
-            const logs = Array.isArray(source.logs.point_log) ? source.logs.point_log : [source.logs.point_log];
-            processLogs(logs);
+            const { primary, secondary } = this.locationParser.rankThermostats(zone.members, entities);
+            if (primary.length > 0) {
+                zone.thermostats = { primary, secondary };
+            }
         }
+    }
+
+    /**
+     * Pick the setpoint to write from a range: the gateway keeps a single setpoint,
+     * which is the cooling setpoint while cooling is enabled and the heating setpoint otherwise
+     */
+    private selectRangeSetpoint(data: any, params: SetTemperatureParams): number {
+        const { setpoint_low, setpoint_high } = params;
 
-        // Process cumulative logs (total counters)
-        if (source.logs.cumulative_log) {
-            const logs = Array.isArray(source.logs.cumulative_log) ? source.logs.cumulative_log : [source.logs.cumulative_log];
-            processLogs(logs, '_cumulative');
+        if (setpoint_low === undefined && setpoint_high === undefined) {
+            throw new PlugwiseError('No temperature setpoint provided');
         }
+        if (setpoint_low !== undefined && setpoint_high !== undefined && setpoint_low > setpoint_high) {
+            throw new PlugwiseError(`setpoint_low ${setpoint_low} must not be above setpoint_high ${setpoint_high}`);
+        }
+
+        const appliances = ensureArray<any>(getXmlValue(data, 'domain_objects.appliance'));
+        const parse = (id: string) => {
+            const appliance = appliances.find(item => item.id === id);
+            return appliance ? this.applianceParser.parseAppliance(appliance) ?? undefined : undefined;
+        };
+        const cooling = this.getCoolingState(parse(this.heaterId), parse(this.gatewayId));
 
-        // Process interval logs (usage over time)
-        if (source.logs.interval_log) {
-            const logs = Array.isArray(source.logs.interval_log) ? source.logs.interval_log : [source.logs.interval_log];
-            processLogs(logs, '_interval');
+        if (cooling.enabled) {
+            if (setpoint_high === undefined) {
+                throw new PlugwiseError('Cooling is enabled, the heating setpoint cannot be changed. Provide setpoint_high instead.');
+            }
+            return setpoint_high;
         }
+        if (setpoint_low === undefined) {
+            throw new PlugwiseError(cooling.present
+                ? 'Heating is enabled, the cooling setpoint cannot be changed. Provide setpoint_low instead.'
+                : 'This system has no cooling, provide setpoint or setpoint_low.');
+        }
+        return setpoint_low;
     }
 
     /**
-     * Parse actuators (switches, thermostats) from appliance
+     * Determine whether cooling is available and enabled.
+     * On an Adam cooling is a regulation mode; an Anna with a heat pump reports it through
+     * the heater (Elga status code or the Loria cooling toggle) and uses a setpoint range.
      */
-    private parseActuators(source: any, entity: GatewayEntity): void {
-        if (!source.actuator_functionalities) return;
-        if (!entity.switches) entity.switches = {};
+    private getCoolingState(heater?: GatewayEntity, gateway?: GatewayEntity): CoolingState {
+        if (gateway?.regulation_modes?.includes('cooling')) {
+            return { present: true, enabled: gateway.select_regulation_mode === 'cooling', range: false };
+        }
 
-        const funcs = source.actuator_functionalities;
+        const enabled = heater?.binary_sensors?.cooling_enabled ?? heater?.switches?.cooling_ena_switch;
+        return { present: enabled !== undefined, enabled: enabled === true, range: enabled !== undefined };
+    }
 
-        // Parse relay/switch functionalities
-        if (funcs.relay_functionality) {
-            const relays = Array.isArray(funcs.relay_functionality) ? funcs.relay_functionality : [funcs.relay_functionality];
-            for (const relay of relays) {
-                if (relay.state !== undefined) {
-                    // Use relay as the primary switch name
-                    (entity.switches as any).relay = relay.state === 'on';
-                    break; // Only use the first relay
-                }
-            }
+    /**
+     * Report cooling on the heater, setpoint ranges on heat pump thermostats and the climate mode:
+     * auto while a schedule is followed, otherwise off, heat_cool (range), cool or heat
+     */
+    private applyClimateState(entities: Record<string, GatewayEntity>): void {
+        const gateway = entities[this.gatewayId];
+        const heater = entities[this.heaterId];
+        const cooling = this.getCoolingState(heater, gateway);
+
+        if (heater && cooling.present) {
+            heater.binary_sensors = { ...heater.binary_sensors, cooling_enabled: cooling.enabled };
         }
 
-        // Parse thermostat functionalities
-        if (funcs.thermostat_functionality) {
-            const thermostats = Array.isArray(funcs.thermostat_functionality) ? funcs.thermostat_functionality : [funcs.thermostat_functionality];
-            for (const thermostat of thermostats) {
-                if (!entity.thermostat) entity.thermostat = {};
+        for (const entity of Object.values(entities)) {
+            const thermostat = entity.thermostat;
+            if (!thermostat || entity.dev_class === 'heater_central') continue;
 
-                if (thermostat.setpoint) {
-                    entity.thermostat.setpoint = parseFloat(thermostat.setpoint);
-                }
-                if (thermostat.lower_bound) {
-                    entity.thermostat.lower_bound = parseFloat(thermostat.lower_bound);
-                }
-                if (thermostat.upper_bound) {
-                    entity.thermostat.upper_bound = parseFloat(thermostat.upper_bound);
-                }
-                if (thermostat.resolution) {
-                    entity.thermostat.resolution = parseFloat(thermostat.resolution);
-                }
+            if (cooling.range && thermostat.setpoint !== undefined) {
+                thermostat.setpoint_low = cooling.enabled ? thermostat.lower_bound : thermostat.setpoint;
+                thermostat.setpoint_high = cooling.enabled ? thermostat.setpoint : thermostat.upper_bound;
             }
-        }
-
-        // Parse temperature offset functionalities
-        if (funcs.temperature_offset_functionality) {
-            const offsets = Array.isArray(funcs.temperature_offset_functionality) ? funcs.temperature_offset_functionality : [funcs.temperature_offset_functionality];
-            for (const offset of offsets) {
-                if (!entity.temperature_offset) entity.temperature_offset = {};
 
-                if (offset.offset) {
-                    entity.temperature_offset.setpoint = parseFloat(offset.offset);
-                }
-                if (offset.lower_bound) {
-                    entity.temperature_offset.lower_bound = parseFloat(offset.lower_bound);
-                }
-                if (offset.upper_bound) {
-                    entity.temperature_offset.upper_bound = parseFloat(offset.upper_bound);
-                }
-                if (offset.resolution) {
-                    entity.temperature_offset.resolution = parseFloat(offset.resolution);
-                }
+            if (entity.select_schedule && entity.select_schedule !== SCHEDULE_OFF) {
+                entity.climate_mode = 'auto';
+            } else if (gateway?.select_regulation_mode === 'off') {
+                entity.climate_mode = 'off';
+            } else if (cooling.range) {
+                entity.climate_mode = 'heat_cool';
+            } else {
+                entity.climate_mode = cooling.enabled ? 'cool' : 'heat';
             }
         }
     }
 
     /**
-     * Set temperature on a thermostat
+     * Set temperature offset (calibration) on a thermostat
      */
-    async setTemperature(params: SetTemperatureParams): Promise<void> {
+    async setTemperatureOffset(deviceId: string, offset: number): Promise<void> {
         if (!this.connected) {
             throw new PlugwiseError('Not connected. Call connect() first.');
         }
 
-        const { location_id, setpoint, setpoint_high, setpoint_low } = params;
-
-        let temperature: number;
-        if (setpoint !== undefined) {
-            temperature = setpoint;
-        } else if (setpoint_low !== undefined) {
-            temperature = setpoint_low;
-        } else if (setpoint_high !== undefined) {
-            temperature = setpoint_high;
-        } else {
-            throw new PlugwiseError('No temperature setpoint provided');
-        }
+        const offsetValue = offset.toString();
+        const data = `<offset_functionality><offset>${offsetValue}</offset></offset_functionality>`;
+        const uri = `/core/appliances;id=${deviceId}/offset;type=temperature_offset`;
 
-        const data = `<thermostat_functionality><setpoint>${temperature}</setpoint></thermostat_functionality>`;
+        await this.request(uri, 'PUT', data);
+    }
 
-        // Find the thermostat URI for the location
-        // This is a simplified version - the actual implementation would need to
-        // query the domain objects to find the correct thermostat ID
-        const uri = `/core/locations;id=${location_id}/thermostat`;
+    /**
+     * Set the maximum boiler (flow) temperature of the heater
+     */
+    async setMaxBoilerTemperature(temperature: number): Promise<void> {
+        await this.setHeaterSetpoint('maximum_boiler_temperature', 'maximum boiler temperature', temperature);
+    }
 
-        await this.request(uri, 'PUT', data);
+    /**
+     * Set the domestic hot water temperature setpoint of the heater
+     */
+    async setDHWTemperature(temperature: number): Promise<void> {
+        await this.setHeaterSetpoint('domestic_hot_water_setpoint', 'DHW temperature', temperature);
     }
 
     /**
-     * Set temperature offset (calibration) on a thermostat
+     * Write a heater thermostat setpoint after checking it against the advertised bounds and resolution
      */
-    async setTemperatureOffset(deviceId: string, offset: number): Promise<void> {
+    private async setHeaterSetpoint(type: string, label: string, temperature: number): Promise<void> {
         if (!this.connected) {
             throw new PlugwiseError('Not connected. Call connect() first.');
         }
 
-        const offsetValue = offset.toString();
-        const data = `<offset_functionality><offset>${offsetValue}</offset></offset_functionality>`;
-        const uri = `/core/appliances;id=${deviceId}/offset;type=temperature_offset`;
+        const locator = new ActuatorLocator(await this.getDomainObjects(), this.legacy);
+        const { uri, functionality } = locator.resolveHeaterThermostat(this.heaterId, type, label);
 
+        const lowerBound = parseFloat(functionality.lower_bound);
+        const upperBound = parseFloat(functionality.upper_bound);
+        const resolution = parseFloat(functionality.resolution);
+
+        if (!isNaN(lowerBound) && temperature < lowerBound) {
+            throw new PlugwiseError(`The ${label} ${temperature} is below the minimum of ${lowerBound}`);
+        }
+        if (!isNaN(upperBound) && temperature > upperBound) {
+            throw new PlugwiseError(`The ${label} ${temperature} is above the maximum of ${upperBound}`);
+        }
+        if (resolution > 0 && Math.abs(Math.round(temperature / resolution) * resolution - temperature) > 1e-6) {
+            throw new PlugwiseError(`The ${label} ${temperature} is not a multiple of ${resolution}`);
+        }
+
+        const data = `<thermostat_functionality><setpoint>${temperature}</setpoint></thermostat_functionality>`;
         await this.request(uri, 'PUT', data);
     }
 
@@ -481,12 +503,14 @@ export class PlugwiseClient {
         }
 
         // Get current location data
-        const xml = await this.request('/core/domain_objects');
-        const data = await this.parseXml(xml);
+        const data = await this.getDomainObjects();
+        if (this.legacy) {
+            await this.setLegacyPreset(data, preset);
+            return;
+        }
 
-        const locations = this.getXmlValue(data, 'domain_objects.location');
-        const locationArray = Array.isArray(locations) ? locations : [locations];
-        const location = locationArray.find((loc: any) => loc.id === locationId);
+        const locator = new ActuatorLocator(data, this.legacy);
+        const location = locator.findLocation(locationId);
 
         if (!location) {
             throw new PlugwiseError(`Location ${locationId} not found`);
@@ -500,17 +524,239 @@ export class PlugwiseClient {
         await this.request(`/core/locations;id=${locationId}`, 'PUT', xmlData);
     }
 
+    /**
+     * Activate the rule of a legacy Anna preset, the gateway deactivates the other preset rules
+     */
+    private async setLegacyPreset(data: any, preset: string): Promise<void> {
+        const ruleId = this.legacyParser.findPresetRuleId(data, preset);
+        if (!ruleId) {
+            const { presets } = this.legacyParser.parsePresets(data);
+            throw new PlugwiseError(`Invalid preset ${preset}. Allowed: ${presets.join(', ') || 'none'}`);
+        }
+
+        await this.request('/core/rules', 'PUT', `<rules><rule id="${ruleId}"><active>true</active></rule></rules>`);
+    }
+
+    /**
+     * Get all weekly schedules
+     */
+    async getSchedules(): Promise<Schedule[]> {
+        if (!this.connected) {
+            throw new PlugwiseError('Not connected. Call connect() first.');
+        }
+
+        const data = await this.getDomainObjects();
+        return this.scheduleParser.parseSchedules(data);
+    }
+
+    /**
+     * Get a weekly schedule by ID or name
+     */
+    async getSchedule(nameOrId: string): Promise<Schedule> {
+        const schedules = await this.getSchedules();
+        const schedule = this.findSchedule(schedules, nameOrId);
+
+        if (!schedule) {
+            throw new PlugwiseError(`No schedule named ${nameOrId}. Available: ${schedules.map(s => s.name).join(', ') || 'none'}`);
+        }
+        return schedule;
+    }
+
     /**
      * Set schedule state (on/off)
+     * Turning a schedule on for a zone removes the zone from any other schedule,
+     * turning it off remembers the schedule so it can be turned back on without a name.
      */
     async setScheduleState(locationId: string, state: 'on' | 'off', scheduleName?: string): Promise<void> {
         if (!this.connected) {
             throw new PlugwiseError('Not connected. Call connect() first.');
         }
+        if (this.legacy) {
+            throw new PlugwiseError('Schedules are not supported on legacy firmware');
+        }
+
+        if (scheduleName === SCHEDULE_OFF) {
+            state = 'off';
+            scheduleName = undefined;
+        }
+
+        const data = await this.getDomainObjects();
+        const locator = new ActuatorLocator(data, this.legacy);
+        if (!locator.findLocation(locationId)) {
+            throw new PlugwiseError(`Location ${locationId} not found`);
+        }
+
+        const schedules = this.scheduleParser.parseSchedules(data);
+        const current = schedules.find(schedule => schedule.active && schedule.locations.includes(locationId));
+
+        if (state === 'off') {
+            const target = scheduleName ? this.findSchedule(schedules, scheduleName) : current;
+            if (scheduleName && !target) {
+                throw new PlugwiseError(`No schedule named ${scheduleName}`);
+            }
+            if (!target || !target.locations.includes(locationId)) {
+                return;
+            }
+
+            this.lastActiveSchedules.set(locationId, target.name);
+            await this.putScheduleContexts(target, target.locations.filter(id => id !== locationId));
+            return;
+        }
+
+        const name = scheduleName
+            ?? this.lastActiveSchedules.get(locationId)
+            ?? (schedules.length === 1 ? schedules[0].name : undefined);
+        if (!name) {
+            throw new PlugwiseError(`Multiple schedules available, specify one of: ${schedules.map(s => s.name).join(', ') || 'none'}`);
+        }
+
+        const target = this.findSchedule(schedules, name);
+        if (!target) {
+            throw new PlugwiseError(`No schedule named ${name}. Available: ${schedules.map(s => s.name).join(', ') || 'none'}`);
+        }
+
+        // A zone follows one schedule at a time
+        for (const other of schedules) {
+            if (other.id !== target.id && other.locations.includes(locationId)) {
+                await this.putScheduleContexts(other, other.locations.filter(id => id !== locationId));
+            }
+        }
+
+        if (target.active && target.locations.includes(locationId)) {
+            return;
+        }
+
+        this.lastActiveSchedules.set(locationId, target.name);
+        await this.putScheduleContexts(target, [...new Set([...target.locations, locationId])]);
+    }
+
+    /**
+     * Create a weekly schedule, or replace the program of the schedule with the same name (or ID).
+     * Setpoints are checked against the thermostat bounds of the zones involved.
+     */
+    async saveSchedule(params: SaveScheduleParams): Promise<Schedule> {
+        if (!this.connected) {
+            throw new PlugwiseError('Not connected. Call connect() first.');
+        }
+        if (this.legacy) {
+            throw new PlugwiseError('Schedules are not supported on legacy firmware');
+        }
+
+        const data = await this.getDomainObjects();
+        const locator = new ActuatorLocator(data, this.legacy);
+        const schedules = this.scheduleParser.parseSchedules(data);
+        const existing = this.findSchedule(schedules, params.name);
+
+        for (const locationId of params.location_ids ?? []) {
+            if (!locator.findLocation(locationId)) {
+                throw new PlugwiseError(`Location ${locationId} not found`);
+            }
+        }
+
+        const locationIds = params.location_ids ?? existing?.locations ?? [];
+        const builder = new ScheduleBuilder(this.getSetpointBounds(data, locationIds));
+        const directives = builder.buildDirectives(builder.normalize(params.blocks, params.fill));
+
+        // A zone follows one schedule at a time
+        for (const other of schedules) {
+            if (other.id === existing?.id) continue;
+            const remaining = other.locations.filter(id => !(params.location_ids ?? []).includes(id));
+            if (remaining.length !== other.locations.length) {
+                await this.putScheduleContexts(other, remaining);
+            }
+        }
+
+        if (existing) {
+            await this.putScheduleContexts(
+                { ...existing, description: params.description ?? existing.description },
+                locationIds,
+                directives
+            );
+        } else {
+            const templateId = this.findScheduleTemplateId(data, schedules);
+            const template = templateId
+                ? `<template id="${templateId}" />`
+                : `<template tag="${SCHEDULE_TEMPLATE_TAG}" />`;
+            const body = `<rules><rule><name>${cdata(params.name)}</name>`
+                + `<description>${cdata(params.description ?? '')}</description>${template}`
+                + `<active>${locationIds.length > 0}</active>${directives}`
+                + `<contexts>${this.renderScheduleContexts(locationIds)}</contexts></rule></rules>`;
+
+            await this.request('/core/rules', 'POST', body);
+        }
 
-        // This is a complex operation that requires finding the schedule rule ID
-        // For now, this is a placeholder implementation
-        throw new PlugwiseError('setScheduleState not yet fully implemented');
+        const name = existing?.name ?? params.name;
+        for (const locationId of locationIds) {
+            this.lastActiveSchedules.set(locationId, name);
+        }
+
+        return this.getSchedule(name);
+    }
+
+    /**
+     * Combine the setpoint limits of the given zones, or of all zones when none are given
+     */
+    private getSetpointBounds(data: any, locationIds: string[]): ActuatorData {
+        const bounds: ActuatorData = {};
+
+        for (const location of ensureArray<any>(getXmlValue(data, 'domain_objects.location'))) {
+            if (locationIds.length > 0 && !locationIds.includes(location.id)) continue;
+
+            const thermostat = this.locationParser.parseLocation(location)?.thermostat;
+            if (!thermostat) continue;
+
+            if (thermostat.lower_bound !== undefined) {
+                bounds.lower_bound = Math.max(bounds.lower_bound ?? -Infinity, thermostat.lower_bound);
+            }
+            if (thermostat.upper_bound !== undefined) {
+                bounds.upper_bound = Math.min(bounds.upper_bound ?? Infinity, thermostat.upper_bound);
+            }
+            if (thermostat.resolution !== undefined) {
+                bounds.resolution = Math.max(bounds.resolution ?? 0, thermostat.resolution);
+            }
+        }
+
+        return bounds;
+    }
+
+    /**
+     * Find the ID of the weekly schedule template, new rules are based on it
+     */
+    private findScheduleTemplateId(data: any, schedules: Schedule[]): string | undefined {
+        const template = ensureArray<any>(getXmlValue(data, 'domain_objects.template'))
+            .find(item => item.tag === SCHEDULE_TEMPLATE_TAG);
+        return template?.id ?? schedules.find(schedule => schedule.template_id)?.template_id;
+    }
+
+    /**
+     * Find a schedule by ID or (case-insensitive) name
+     */
+    private findSchedule(schedules: Schedule[], nameOrId: string): Schedule | undefined {
+        return schedules.find(schedule => schedule.id === nameOrId || schedule.name === nameOrId)
+            ?? schedules.find(schedule => schedule.name.toLowerCase() === nameOrId.toLowerCase());
+    }
+
+    /**
+     * Update the zones a schedule applies to, the schedule is active while it has zones.
+     * The program is only replaced when directives are given.
+     */
+    private async putScheduleContexts(schedule: Schedule, locationIds: string[], directives: string = ''): Promise<void> {
+        const template = schedule.template_id ? `<template id="${schedule.template_id}" />` : '';
+        const description = schedule.description !== undefined
+            ? `<description>${cdata(schedule.description)}</description>`
+            : '';
+        const active = locationIds.length > 0;
+
+        const data = `<rules><rule id="${schedule.id}"><name>${cdata(schedule.name)}</name>${description}${template}`
+            + `<active>${active}</active>${directives}<contexts>${this.renderScheduleContexts(locationIds)}</contexts></rule></rules>`;
+
+        await this.request(`/core/rules;id=${schedule.id}`, 'PUT', data);
+    }
+
+    private renderScheduleContexts(locationIds: string[]): string {
+        return locationIds
+            .map(id => `<context><zone><location id="${id}" /></zone></context>`)
+            .join('');
     }
 
     /**
@@ -524,11 +770,21 @@ export class PlugwiseClient {
         const { appliance_id, state, model = 'relay' } = params;
         const stateValue = state === 'on' ? 'on' : 'off';
 
-        const data = `<relay_functionality><state>${stateValue}</state></relay_functionality>`;
+        const locator = new ActuatorLocator(await this.getDomainObjects(), this.legacy);
+        const { uri, relay } = locator.resolveRelayUri(appliance_id);
 
-        // Find the relay URI for the appliance
-        // This is simplified - actual implementation would need to query for the relay ID
-        const uri = `/core/appliances;id=${appliance_id}/relay`;
+        // Legacy firmware uses the plain actuator tag
+        const tag = this.legacy ? 'relay' : 'relay_functionality';
+
+        let data: string;
+        if (model === 'lock') {
+            data = `<${tag}><lock>${state === 'on'}</lock></${tag}>`;
+        } else {
+            if (relay.lock === 'true') {
+                throw new PlugwiseError(`Relay of appliance ${appliance_id} is locked`);
+            }
+            data = `<${tag}><state>${stateValue}</state></${tag}>`;
+        }
 
         await this.request(uri, 'PUT', data);
 
@@ -536,17 +792,37 @@ export class PlugwiseClient {
     }
 
     /**
-     * Set gateway mode (home, away, vacation)
+     * Get the gateway modes with the options the gateway advertises
+     */
+    async getGatewayStatus(): Promise<GatewayStatus> {
+        const data = await this.getDevices();
+        const gateway = data.entities[data.gateway_id];
+        const heater = data.heater_id ? data.entities[data.heater_id] : undefined;
+
+        return {
+            gateway_id: data.gateway_id,
+            gateway_info: data.gateway_info,
+            gateway_mode: this.toModeOptions(gateway?.gateway_modes, gateway?.select_gateway_mode),
+            regulation_mode: this.toModeOptions(gateway?.regulation_modes, gateway?.select_regulation_mode),
+            dhw_mode: this.toModeOptions(heater?.dhw_modes, heater?.select_dhw_mode),
+            notification_count: Object.keys(gateway?.notifications ?? {}).length
+        };
+    }
+
+    private toModeOptions(options: string[] | undefined, selected: string | undefined): ModeOptions | undefined {
+        return options ? { selected, options } : undefined;
+    }
+
+    /**
+     * Set gateway mode, one of the modes the gateway advertises (e.g. away, full, vacation)
      */
-    async setGatewayMode(mode: GatewayMode): Promise<void> {
+    async setGatewayMode(mode: string): Promise<void> {
         if (!this.connected) {
             throw new PlugwiseError('Not connected. Call connect() first.');
         }
 
-        const validModes: GatewayMode[] = ['home', 'away', 'vacation'];
-        if (!validModes.includes(mode)) {
-            throw new PlugwiseError(`Invalid gateway mode: ${mode}`);
-        }
+        const locator = new ActuatorLocator(await this.getDomainObjects(), this.legacy);
+        const { applianceId } = locator.resolveModeControl('gateway_mode_control_functionality', 'gateway mode', mode);
 
         let valid = '';
         const endTime = '2037-04-21T08:00:53.000Z';
@@ -557,53 +833,81 @@ export class PlugwiseClient {
         }
 
         const data = `<gateway_mode_control_functionality><mode>${mode}</mode>${valid}</gateway_mode_control_functionality>`;
-        const uri = `/core/appliances;id=${this.gatewayId}/gateway_mode_control`;
+        const uri = `/core/appliances;id=${applianceId}/gateway_mode_control`;
 
         await this.request(uri, 'PUT', data);
     }
 
     /**
-     * Set DHW (Domestic Hot Water) mode
+     * Set DHW (Domestic Hot Water) mode, one of the modes the heater advertises
      */
-    async setDHWMode(mode: DHWMode): Promise<void> {
+    async setDHWMode(mode: string): Promise<void> {
         if (!this.connected) {
             throw new PlugwiseError('Not connected. Call connect() first.');
         }
 
+        const locator = new ActuatorLocator(await this.getDomainObjects(), this.legacy);
+        const { applianceId } = locator.resolveModeControl('domestic_hot_water_mode_control_functionality', 'DHW mode', mode);
+
         const data = `<domestic_hot_water_mode_control_functionality><mode>${mode}</mode></domestic_hot_water_mode_control_functionality>`;
-        const uri = `/core/appliances;type=heater_central/domestic_hot_water_mode_control`;
+        const uri = `/core/appliances;id=${applianceId}/domestic_hot_water_mode_control`;
 
         await this.request(uri, 'PUT', data);
     }
 
     /**
-     * Set regulation mode
+     * Set regulation mode, one of the modes the gateway advertises
      */
-    async setRegulationMode(mode: RegulationMode): Promise<void> {
+    async setRegulationMode(mode: string): Promise<void> {
         if (!this.connected) {
             throw new PlugwiseError('Not connected. Call connect() first.');
         }
 
+        const locator = new ActuatorLocator(await this.getDomainObjects(), this.legacy);
+        const { applianceId } = locator.resolveModeControl('regulation_mode_control_functionality', 'regulation mode', mode);
+
         let duration = '';
         if (mode.includes('bleeding')) {
             duration = '<duration>300</duration>';
         }
 
         const data = `<regulation_mode_control_functionality>${duration}<mode>${mode}</mode></regulation_mode_control_functionality>`;
-        const uri = `/core/appliances;type=gateway/regulation_mode_control`;
+        const uri = `/core/appliances;id=${applianceId}/regulation_mode_control`;
 
         await this.request(uri, 'PUT', data);
     }
 
     /**
-     * Delete active notification
+     * Get the active gateway notifications
+     */
+    async getNotifications(): Promise<PlugwiseNotification[]> {
+        if (!this.connected) {
+            throw new PlugwiseError('Not connected. Call connect() first.');
+        }
+
+        const data = await this.getDomainObjects();
+        return this.notificationParser.parseNotifications(data);
+    }
+
+    /**
+     * Delete a single notification by ID, or all notifications when no ID is given
      */
-    async deleteNotification(): Promise<void> {
+    async deleteNotification(notificationId?: string): Promise<void> {
         if (!this.connected) {
             throw new PlugwiseError('Not connected. Call connect() first.');
         }
 
-        await this.request('/core/notifications', 'DELETE');
+        if (!notificationId) {
+            await this.request('/core/notifications', 'DELETE');
+            return;
+        }
+
+        const notifications = await this.getNotifications();
+        if (!notifications.some(notification => notification.id === notificationId)) {
+            throw new PlugwiseError(`No notification found with ID ${notificationId}`);
+        }
+
+        await this.request(`/core/notifications;id=${notificationId}`, 'DELETE');
     }
 
     /**
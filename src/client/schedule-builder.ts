@@ -0,0 +1,194 @@
+/**
+ * Schedule Builder
+ * Validates week programs and renders them as rule directives
+ */
+
+import {
+    ActuatorData,
+    ScheduleBlock,
+    ScheduleDay,
+    ScheduleValidationError
+} from '../types/plugwise-types.js';
+import { SCHEDULE_DAYS } from './parsers/schedule-parser.js';
+
+export const SCHEDULE_PRESETS = ['home', 'away', 'asleep', 'vacation', 'no_frost'];
+
+const TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+
+type ScheduleTarget = Pick<ScheduleBlock, 'preset' | 'setpoint'>;
+
+export class ScheduleBuilder {
+    /**
+     * @param bounds Setpoint limits of the thermostats the schedule applies to
+     */
+    constructor(private bounds: ActuatorData = {}) {}
+
+    /**
+     * Validate blocks and return the complete week program, sorted per day.
+     * Gaps are filled with the fill target when given, otherwise they are reported.
+     * All problems are collected and thrown at once as a ScheduleValidationError.
+     */
+    normalize(blocks: ScheduleBlock[], fill?: ScheduleTarget): ScheduleBlock[] {
+        const issues: string[] = [];
+
+        if (blocks.length === 0) {
+            issues.push('at least one block is required');
+        }
+
+        blocks.forEach((block, index) => {
+            this.validateBlock(block, `block ${index + 1} (${block.day} ${block.start}-${block.end})`, issues);
+        });
+        if (fill) {
+            this.validateTarget(fill, 'fill', issues);
+        }
+        if (issues.length > 0) {
+            throw new ScheduleValidationError(issues);
+        }
+
+        const program: ScheduleBlock[] = [];
+        const missingDays: ScheduleDay[] = [];
+
+        for (const day of SCHEDULE_DAYS) {
+            const dayBlocks = blocks
+                .filter(block => block.day === day)
+                .sort((a, b) => a.start.localeCompare(b.start));
+
+            if (dayBlocks.length === 0 && !fill) {
+                missingDays.push(day);
+                continue;
+            }
+
+            let cursor = '00:00';
+            let previous: ScheduleBlock | undefined;
+
+            for (const block of dayBlocks) {
+                if (previous && block.start < previous.end) {
+                    issues.push(`${day}: ${previous.start}-${previous.end} overlaps ${block.start}-${block.end}`);
+                    continue;
+                }
+                if (block.start > cursor) {
+                    this.fillGap(program, day, cursor, block.start, fill, issues);
+                }
+                program.push({ ...block });
+                cursor = block.end;
+                previous = block;
+            }
+
+            if (cursor < '24:00') {
+                this.fillGap(program, day, cursor, '24:00', fill, issues);
+            }
+        }
+
+        if (missingDays.length > 0) {
+            issues.unshift(`missing days: ${missingDays.join(', ')} (add blocks or a fill preset/setpoint)`);
+        }
+        if (issues.length > 0) {
+            throw new ScheduleValidationError(issues);
+        }
+
+        return program;
+    }
+
+    /**
+     * Render a normalized week program as <directives>, merging adjacent blocks with the same target
+     */
+    buildDirectives(blocks: ScheduleBlock[]): string {
+        const merged: ScheduleBlock[] = [];
+
+        for (const block of blocks) {
+            const last = merged[merged.length - 1];
+            if (last && last.day === block.day && last.end === block.start && this.sameTarget(last, block)) {
+                last.end = block.end;
+            } else {
+                merged.push({ ...block });
+            }
+        }
+
+        const directives = merged.map(block => {
+            const then = block.preset !== undefined
+                ? `preset="${block.preset}"`
+                : `setpoint="${block.setpoint}"`;
+            return `<when time="${this.formatRange(block)}"><then ${then} /></when>`;
+        });
+
+        return `<directives>${directives.join('')}</directives>`;
+    }
+
+    private validateBlock(block: ScheduleBlock, label: string, issues: string[]): void {
+        if (!SCHEDULE_DAYS.includes(block.day)) {
+            issues.push(`${label}: day must be one of ${SCHEDULE_DAYS.join(', ')}`);
+        }
+        const validStart = TIME_PATTERN.test(block.start) && block.start !== '24:00';
+        const validEnd = TIME_PATTERN.test(block.end) && block.end !== '00:00';
+
+        if (!validStart) {
+            issues.push(`${label}: start must be HH:MM between 00:00 and 23:59`);
+        }
+        if (!validEnd) {
+            issues.push(`${label}: end must be HH:MM between 00:01 and 24:00`);
+        }
+        if (validStart && validEnd && block.start >= block.end) {
+            issues.push(`${label}: start must be before end`);
+        }
+        this.validateTarget(block, label, issues);
+    }
+
+    private validateTarget(target: ScheduleTarget, label: string, issues: string[]): void {
+        const hasPreset = target.preset !== undefined;
+        const hasSetpoint = target.setpoint !== undefined;
+
+        if (hasPreset === hasSetpoint) {
+            issues.push(`${label}: specify either a preset or a setpoint`);
+            return;
+        }
+
+        if (hasPreset && !SCHEDULE_PRESETS.includes(target.preset!)) {
+            issues.push(`${label}: unknown preset ${target.preset}, use one of ${SCHEDULE_PRESETS.join(', ')}`);
+        }
+
+        if (hasSetpoint) {
+            const setpoint = target.setpoint!;
+            const { lower_bound, upper_bound, resolution } = this.bounds;
+
+            if (typeof setpoint !== 'number' || isNaN(setpoint)) {
+                issues.push(`${label}: setpoint must be a number`);
+            } else if (lower_bound !== undefined && setpoint < lower_bound) {
+                issues.push(`${label}: setpoint ${setpoint} is below the minimum of ${lower_bound}`);
+            } else if (upper_bound !== undefined && setpoint > upper_bound) {
+                issues.push(`${label}: setpoint ${setpoint} is above the maximum of ${upper_bound}`);
+            } else if (resolution && Math.abs(Math.round(setpoint / resolution) * resolution - setpoint) > 1e-6) {
+                issues.push(`${label}: setpoint ${setpoint} is not a multiple of ${resolution}`);
+            }
+        }
+    }
+
+    private fillGap(
+        program: ScheduleBlock[],
+        day: ScheduleDay,
+        start: string,
+        end: string,
+        fill: ScheduleTarget | undefined,
+        issues: string[]
+    ): void {
+        if (!fill) {
+            issues.push(`${day}: no block covers ${start}-${end}`);
+            return;
+        }
+        program.push({ day, start, end, ...fill });
+    }
+
+    private sameTarget(a: ScheduleTarget, b: ScheduleTarget): boolean {
+        return a.preset === b.preset && a.setpoint === b.setpoint;
+    }
+
+    /**
+     * Format as [mo 07:00,mo 18:00), a block ending at 24:00 ends at 00:00 the next day
+     */
+    private formatRange(block: ScheduleBlock): string {
+        if (block.end !== '24:00') {
+            return `[${block.day} ${block.start},${block.day} ${block.end})`;
+        }
+        const nextDay = SCHEDULE_DAYS[(SCHEDULE_DAYS.indexOf(block.day) + 1) % SCHEDULE_DAYS.length];
+        return `[${block.day} ${block.start},${nextDay} 00:00)`;
+    }
+}
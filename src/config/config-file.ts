@@ -0,0 +1,300 @@
+/**
+ * Configuration File Module
+ * Loads and validates the JSON or YAML configuration file
+ */
+
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import { parseCidr, MIN_SCAN_PREFIX, MAX_SCAN_PREFIX } from '../utils/cidr.js';
+import { formatIssues } from '../utils/validation.js';
+
+/**
+ * A secret given inline, or a reference to an environment variable or file holding it
+ */
+function secretSchema(kind: string) {
+    return z.union([
+        z.string().min(1),
+        z.object({ env: z.string().min(1) }).strict(),
+        z.object({ file: z.string().min(1) }).strict()
+    ], { errorMap: () => ({ message: `Expected a ${kind} string, { env: VARIABLE } or { file: path }` }) });
+}
+
+type SecretValue = z.infer<ReturnType<typeof secretSchema>>;
+
+/** Tool categories a token can be granted */
+export const TOOL_CATEGORIES = ['read', 'climate', 'switches', 'admin'] as const;
+
+export type ToolCategory = typeof TOOL_CATEGORIES[number];
+
+/** Startup profiles limiting the tools the server exposes */
+export const SERVER_PROFILES = ['readonly', 'climate', 'full'] as const;
+
+export type ServerProfile = typeof SERVER_PROFILES[number];
+
+/** Tool categories exposed per profile */
+export const PROFILE_CATEGORIES: Record<ServerProfile, readonly ToolCategory[]> = {
+    readonly: ['read'],
+    climate: ['read', 'climate'],
+    full: TOOL_CATEGORIES
+};
+
+/** Tokens are random strings, not passwords someone has to type */
+const MIN_TOKEN_LENGTH = 16;
+
+const temperatureSchema = z.number().min(-50).max(150);
+
+/**
+ * A CIDR range (or address) that parseCidr accepts within the given prefixes
+ */
+function cidrSchema(minPrefix: number, maxPrefix: number) {
+    return z.string().superRefine((value, context) => {
+        try {
+            parseCidr(value, minPrefix, maxPrefix);
+        } catch (error) {
+            context.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+        }
+    });
+}
+
+const hubSchema = z.object({
+    name: z.string().min(1).optional(),
+    host: z.string().min(1),
+    port: z.number().int().min(1).max(65535).optional(),
+    username: z.string().min(1).optional(),
+    password: secretSchema('password'),
+    alias: z.string().min(1).optional(),
+    default: z.boolean().optional()
+}).strict();
+
+const tokenSchema = z.object({
+    name: z.string().min(1),
+    token: secretSchema('token'),
+    hubs: z.array(z.string().min(1)).min(1).optional(),
+    scopes: z.array(z.enum(TOOL_CATEGORIES)).min(1)
+}).strict();
+
+const configFileSchema = z.object({
+    hubs: z.array(hubSchema).default([]),
+    server: z.object({
+        transport: z.enum(['stdio', 'http']).optional(),
+        host: z.string().min(1).optional(),
+        port: z.number().int().min(0).max(65535).optional(),
+        profile: z.enum(SERVER_PROFILES).optional()
+    }).strict().default({}),
+    storage: z.object({
+        directory: z.string().min(1).optional()
+    }).strict().default({}),
+    polling: z.object({
+        interval: z.number().positive().optional()
+    }).strict().default({}),
+    scan: z.object({
+        networks: z.array(cidrSchema(MIN_SCAN_PREFIX, MAX_SCAN_PREFIX)).optional(),
+        exclude: z.array(cidrSchema(0, 32)).optional(),
+        concurrency: z.number().int().min(1).max(1024).optional(),
+        timeout: z.number().positive().optional()
+    }).strict().default({}),
+    limits: z.object({
+        min_setpoint: temperatureSchema.optional(),
+        max_setpoint: temperatureSchema.optional(),
+        max_boiler_temperature: temperatureSchema.optional(),
+        max_dhw_temperature: temperatureSchema.optional()
+    }).strict().default({}),
+    auth: z.object({
+        tokens: z.array(tokenSchema).default([])
+    }).strict().default({})
+}).strict().superRefine((config, context) => {
+    const defaults = config.hubs.filter(hub => hub.default);
+    if (defaults.length > 1) {
+        context.addIssue({ code: z.ZodIssueCode.custom, path: ['hubs'], message: 'Only one hub can be the default' });
+    }
+
+    const seen = new Set<string>();
+    config.hubs.forEach((hub, index) => {
+        for (const key of ['name', 'alias'] as const) {
+            const value = hub[key]?.toLowerCase();
+            if (!value) continue;
+            if (seen.has(value)) {
+                context.addIssue({ code: z.ZodIssueCode.custom, path: ['hubs', index, key], message: `Duplicate hub name or alias ${hub[key]}` });
+            }
+            seen.add(value);
+        }
+    });
+
+    // The hub registry is keyed by address, two hubs cannot share one
+    const addresses = new Set<string>();
+    config.hubs.forEach((hub, index) => {
+        const address = `${hub.host.toLowerCase()}:${hub.port ?? 80}`;
+        if (addresses.has(address)) {
+            context.addIssue({ code: z.ZodIssueCode.custom, path: ['hubs', index, 'port'], message: `Duplicate hub address ${address}` });
+        }
+        addresses.add(address);
+    });
+
+    const tokenNames = new Set<string>();
+    config.auth.tokens.forEach((token, index) => {
+        if (tokenNames.has(token.name)) {
+            context.addIssue({ code: z.ZodIssueCode.custom, path: ['auth', 'tokens', index, 'name'], message: `Duplicate token name ${token.name}` });
+        }
+        tokenNames.add(token.name);
+    });
+
+    const { min_setpoint, max_setpoint } = config.limits;
+    if (min_setpoint !== undefined && max_setpoint !== undefined && min_setpoint > max_setpoint) {
+        context.addIssue({ code: z.ZodIssueCode.custom, path: ['limits', 'min_setpoint'], message: 'Must not be above max_setpoint' });
+    }
+});
+
+type ConfigFileData = z.infer<typeof configFileSchema>;
+
+export interface HubConfig {
+    name?: string;
+    host: string;
+    port?: number;
+    username?: string;
+    /** Resolved password */
+    password: string;
+    alias?: string;
+    default: boolean;
+}
+
+export interface SafetyLimits {
+    min_setpoint?: number;
+    max_setpoint?: number;
+    max_boiler_temperature?: number;
+    max_dhw_temperature?: number;
+}
+
+export type TransportMode = 'stdio' | 'http';
+
+export interface AuthToken {
+    /** Name identifying the client in logs */
+    name: string;
+    /** Resolved bearer token */
+    token: string;
+    /** Hub names or aliases the token may use; all hubs when omitted */
+    hubs?: string[];
+    scopes: ToolCategory[];
+}
+
+export interface FileConfig {
+    /** Absolute path of the file */
+    path: string;
+    hubs: HubConfig[];
+    server: {
+        transport?: TransportMode;
+        host?: string;
+        port?: number;
+        profile?: ServerProfile;
+    };
+    storage: {
+        /** Absolute data directory */
+        directory?: string;
+    };
+    polling: {
+        /** Seconds between polls of each hub */
+        interval?: number;
+    };
+    scan: {
+        networks?: string[];
+        exclude?: string[];
+        concurrency?: number;
+        /** Seconds to wait for each address */
+        timeout?: number;
+    };
+    limits: SafetyLimits;
+    auth: {
+        tokens: AuthToken[];
+    };
+}
+
+export class ConfigError extends Error {
+    constructor(public readonly file: string, public readonly issues: string[]) {
+        super(`Invalid configuration file ${file}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+        this.name = 'ConfigError';
+    }
+}
+
+/**
+ * Load and validate a configuration file; relative paths in it are relative to the file
+ * Throws a ConfigError listing every problem.
+ */
+export function loadConfigFile(filePath: string): FileConfig {
+    const file = path.resolve(filePath);
+
+    let raw: unknown;
+    try {
+        const text = readFileSync(file, 'utf-8');
+        raw = path.extname(file).toLowerCase() === '.json' ? JSON.parse(text) : yaml.load(text);
+    } catch (error) {
+        throw new ConfigError(file, [(error as Error).message]);
+    }
+
+    const result = configFileSchema.safeParse(raw ?? {});
+    if (!result.success) {
+        throw new ConfigError(file, formatIssues(result.error));
+    }
+
+    return resolveConfig(file, result.data);
+}
+
+function resolveConfig(file: string, data: ConfigFileData): FileConfig {
+    const directory = path.dirname(file);
+    const issues: string[] = [];
+
+    const hubs = data.hubs.map((hub, index): HubConfig => ({
+        ...hub,
+        password: resolveSecret(hub.password, directory, `hubs[${index}].password`, issues),
+        default: hub.default ?? false
+    }));
+
+    const tokens = data.auth.tokens.map((token, index): AuthToken => {
+        const label = `auth.tokens[${index}].token`;
+        const resolved = resolveSecret(token.token, directory, label, issues);
+        if (resolved && resolved.length < MIN_TOKEN_LENGTH) {
+            issues.push(`${label}: Must be at least ${MIN_TOKEN_LENGTH} characters`);
+        }
+        return { ...token, token: resolved };
+    });
+
+    if (issues.length > 0) {
+        throw new ConfigError(file, issues);
+    }
+
+    return {
+        path: file,
+        hubs,
+        server: data.server,
+        storage: {
+            directory: data.storage.directory ? path.resolve(directory, data.storage.directory) : undefined
+        },
+        polling: data.polling,
+        scan: data.scan,
+        limits: data.limits,
+        auth: { tokens }
+    };
+}
+
+/**
+ * Resolve an inline secret or the environment variable or file it refers to
+ * Problems are added to issues and yield an empty string.
+ */
+function resolveSecret(secret: SecretValue, directory: string, label: string, issues: string[]): string {
+    if (typeof secret === 'string') {
+        return secret;
+    }
+
+    if ('env' in secret) {
+        const value = process.env[secret.env] ?? '';
+        if (!value) issues.push(`${label}: Environment variable ${secret.env} is not set`);
+        return value;
+    }
+
+    try {
+        return readFileSync(path.resolve(directory, secret.file), 'utf-8').trim();
+    } catch (error) {
+        issues.push(`${label}: Cannot read ${secret.file}: ${(error as Error).message}`);
+        return '';
+    }
+}
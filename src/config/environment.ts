@@ -4,43 +4,139 @@
  */
 
 import { config } from 'dotenv';
+import * as path from 'path';
+import { loadConfigFile, AuthToken, FileConfig, SafetyLimits, ServerProfile, SERVER_PROFILES, TransportMode } from './config-file.js';
+import { splitRanges } from '../utils/cidr.js';
+
+export type { AuthToken, SafetyLimits, ServerProfile, ToolCategory, TransportMode } from './config-file.js';
 
 // Load environment variables
 config();
 
 export interface ServerConfig {
+    /** stdio for a single client, http for Streamable HTTP and legacy SSE clients */
+    transport: TransportMode;
     port: number;
     host: string;
+    /** Which tools are exposed (see PROFILE_CATEGORIES) */
+    profile: ServerProfile;
 }
 
+const TRANSPORT_MODES: TransportMode[] = ['stdio', 'http'];
+
 export interface HubCredentials {
     password: string;
     ip?: string;
+    port?: number;
+    username?: string;
+    /** Hub name from the configuration file */
+    name?: string;
+    alias?: string;
+    /** Where the hub is defined, e.g. HUB3 or the configured name, for logging */
+    label: string;
+}
+
+let fileConfig: FileConfig | null | undefined;
+
+/**
+ * Get the path of the configuration file from the --config flag or PLUGWISE_CONFIG
+ */
+export function getConfigPath(argv: string[] = process.argv): string | undefined {
+    return getArgument(argv, 'config') ?? (process.env.PLUGWISE_CONFIG || undefined);
+}
+
+/**
+ * Get the value of a command line flag given as --name value or --name=value
+ */
+function getArgument(argv: string[], name: string): string | undefined {
+    const flag = `--${name}`;
+    const index = argv.findIndex(arg => arg === flag || arg.startsWith(`${flag}=`));
+    if (index < 0) return undefined;
+
+    const value = argv[index] === flag ? argv[index + 1] : argv[index].slice(flag.length + 1);
+    return value || undefined;
 }
 
 /**
- * Get server configuration from environment
+ * Load the configuration file once; null when none is configured
+ * Throws a ConfigError when the file is invalid, call it at startup to fail early.
  */
-export function getServerConfig(): ServerConfig {
+export function loadConfig(): FileConfig | null {
+    if (fileConfig === undefined) {
+        const configPath = getConfigPath();
+        fileConfig = configPath ? loadConfigFile(configPath) : null;
+    }
+    return fileConfig;
+}
+
+/**
+ * Get the transport, HTTP address and profile from the --transport, --host,
+ * --port and --profile flags, the environment or the configuration file
+ */
+export function getServerConfig(argv: string[] = process.argv): ServerConfig {
+    const server = loadConfig()?.server;
+    const transport = getArgument(argv, 'transport') ?? process.env.PLUGWISE_TRANSPORT ?? server?.transport ?? 'stdio';
+    if (!TRANSPORT_MODES.includes(transport as TransportMode)) {
+        throw new Error(`Unknown transport ${transport}, expected ${TRANSPORT_MODES.join(' or ')}`);
+    }
+
+    const portText = getArgument(argv, 'port') ?? process.env.PORT;
+    const port = portText !== undefined ? Number(portText) : server?.port ?? 3000;
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`Invalid port ${portText}`);
+    }
+
+    const profile = getArgument(argv, 'profile') ?? process.env.PLUGWISE_PROFILE ?? server?.profile ?? 'full';
+    if (!SERVER_PROFILES.includes(profile as ServerProfile)) {
+        throw new Error(`Unknown profile ${profile}, expected ${SERVER_PROFILES.join(', ')}`);
+    }
+
     return {
-        port: parseInt(process.env.PORT || '3000'),
-        host: process.env.HOST || 'localhost'
+        transport: transport as TransportMode,
+        port,
+        host: getArgument(argv, 'host') ?? process.env.HOST ?? server?.host ?? 'localhost',
+        profile: profile as ServerProfile
     };
 }
 
 /**
- * Load all HUB credentials from environment variables
- * Reads HUBx and HUBxIP variables (where x is 1-10)
+ * Get the bearer tokens accepted by the HTTP transport; none means no authentication
  */
-export function loadHubCredentials(): Map<number, HubCredentials> {
-    const credentials = new Map<number, HubCredentials>();
+export function getAuthTokens(): AuthToken[] {
+    return loadConfig()?.auth.tokens ?? [];
+}
+
+/**
+ * Load all hub credentials from the configuration file and environment variables
+ * HUBx/HUBxIP variables add hubs; one with the IP of a configured hub overrides its password.
+ */
+export function loadHubCredentials(): HubCredentials[] {
+    const credentials: HubCredentials[] = (loadConfig()?.hubs ?? []).map(hub => ({
+        password: hub.password,
+        ip: hub.host,
+        port: hub.port,
+        username: hub.username,
+        name: hub.name,
+        alias: hub.alias,
+        label: hub.name ?? hub.host
+    }));
+
+    const indexes = Object.keys(process.env)
+        .map(key => key.match(/^HUB(\d+)$/)?.[1])
+        .filter((index): index is string => index !== undefined)
+        .map(Number)
+        .sort((a, b) => a - b);
 
-    for (let i = 1; i <= 10; i++) {
+    for (const i of indexes) {
         const password = process.env[`HUB${i}`];
         const ip = process.env[`HUB${i}IP`];
+        if (!password) continue;
 
-        if (password) {
-            credentials.set(i, { password, ip });
+        const configured = ip ? credentials.find(c => c.ip === ip) : undefined;
+        if (configured) {
+            configured.password = password;
+        } else {
+            credentials.push({ password, ip, label: `Hub ${i}` });
         }
     }
 
@@ -55,8 +151,164 @@ export function getHubCredential(index: number): HubCredentials | undefined {
     const ip = process.env[`HUB${index}IP`];
 
     if (password) {
-        return { password, ip };
+        return { password, ip, label: `Hub ${index}` };
     }
 
     return undefined;
 }
+
+/**
+ * Get the name of the hub tools use when no hub is given
+ */
+export function getDefaultHubName(): string | undefined {
+    const configured = loadConfig()?.hubs.find(hub => hub.default);
+    return process.env.PLUGWISE_DEFAULT_HUB || configured?.name || configured?.host;
+}
+
+/**
+ * Get the interval in seconds at which hubs are polled
+ */
+export function getPollInterval(): number {
+    const seconds = parseInt(process.env.PLUGWISE_POLL_INTERVAL || '');
+    if (Number.isFinite(seconds) && seconds > 0) return seconds;
+    return loadConfig()?.polling.interval ?? 30;
+}
+
+export interface ScanConfig {
+    /** CIDR ranges to scan; empty to use the detected local network */
+    networks: string[];
+    /** Addresses or ranges never probed */
+    exclude: string[];
+    /** Addresses probed at the same time */
+    concurrency: number;
+    /** Time to wait for each address */
+    timeoutMs: number;
+}
+
+/**
+ * Get the network scan settings
+ */
+export function getScanConfig(): ScanConfig {
+    const scan = loadConfig()?.scan;
+    const number = (name: string) => {
+        const value = parseFloat(process.env[name] || '');
+        return Number.isFinite(value) && value > 0 ? value : undefined;
+    };
+
+    return {
+        networks: process.env.PLUGWISE_SCAN_NETWORKS ? splitRanges(process.env.PLUGWISE_SCAN_NETWORKS) : scan?.networks ?? [],
+        exclude: process.env.PLUGWISE_SCAN_EXCLUDE ? splitRanges(process.env.PLUGWISE_SCAN_EXCLUDE) : scan?.exclude ?? [],
+        concurrency: Math.floor(number('PLUGWISE_SCAN_CONCURRENCY') ?? scan?.concurrency ?? 32),
+        timeoutMs: (number('PLUGWISE_SCAN_TIMEOUT') ?? scan?.timeout ?? 3) * 1000
+    };
+}
+
+/**
+ * Check whether gateways are looked up via mDNS before scanning the network
+ */
+export function isMdnsEnabled(): boolean {
+    return process.env.PLUGWISE_MDNS !== 'false';
+}
+
+/**
+ * Get the directory holding stored hubs, devices, credentials and history
+ */
+export function getDataDirectory(): string {
+    if (process.env.PLUGWISE_DATA_DIR) {
+        return path.resolve(process.env.PLUGWISE_DATA_DIR);
+    }
+    return loadConfig()?.storage.directory ?? path.join(process.cwd(), 'mcp_data', 'plugwise');
+}
+
+/**
+ * Get the safety limits writes are checked against, on top of the gateway's own bounds
+ */
+export function getSafetyLimits(): SafetyLimits {
+    const limits = { ...loadConfig()?.limits };
+    const overrides: Record<keyof SafetyLimits, string> = {
+        min_setpoint: 'PLUGWISE_MIN_SETPOINT',
+        max_setpoint: 'PLUGWISE_MAX_SETPOINT',
+        max_boiler_temperature: 'PLUGWISE_MAX_BOILER_TEMPERATURE',
+        max_dhw_temperature: 'PLUGWISE_MAX_DHW_TEMPERATURE'
+    };
+
+    for (const [limit, name] of Object.entries(overrides) as [keyof SafetyLimits, string][]) {
+        const value = parseFloat(process.env[name] || '');
+        if (Number.isFinite(value)) limits[limit] = value;
+    }
+    return limits;
+}
+
+export interface HistoryConfig {
+    enabled: boolean;
+    rawRetentionDays: number;
+    hourlyRetentionDays: number;
+}
+
+/**
+ * Get the history store configuration
+ * Raw measurements are kept for PLUGWISE_HISTORY_RAW_DAYS, then downsampled to
+ * hourly values kept for PLUGWISE_HISTORY_HOURLY_DAYS.
+ */
+export function getHistoryConfig(): HistoryConfig {
+    const days = (name: string, fallback: number) => {
+        const value = parseInt(process.env[name] || '');
+        return Number.isFinite(value) && value > 0 ? value : fallback;
+    };
+
+    return {
+        enabled: process.env.PLUGWISE_HISTORY !== 'false',
+        rawRetentionDays: days('PLUGWISE_HISTORY_RAW_DAYS', 7),
+        hourlyRetentionDays: days('PLUGWISE_HISTORY_HOURLY_DAYS', 365)
+    };
+}
+
+export interface EnergyTariffs {
+    currency: string;
+    /** Price per kWh consumed during peak (normal) tariff hours */
+    electricity_peak?: number;
+    /** Price per kWh consumed during off-peak (low) tariff hours */
+    electricity_off_peak?: number;
+    /** Price per kWh for meters without a tariff split; defaults to the peak price */
+    electricity?: number;
+    /** Price per m³ of gas */
+    gas?: number;
+    /** Compensation per kWh fed back into the grid */
+    feed_in?: number;
+}
+
+/**
+ * Get the energy tariffs used for cost reports
+ */
+export function getEnergyTariffs(): EnergyTariffs {
+    const price = (name: string) => {
+        const value = parseFloat(process.env[name] || '');
+        return Number.isFinite(value) ? value : undefined;
+    };
+
+    return {
+        currency: process.env.PLUGWISE_CURRENCY || 'EUR',
+        electricity_peak: price('PLUGWISE_TARIFF_ELECTRICITY_PEAK'),
+        electricity_off_peak: price('PLUGWISE_TARIFF_ELECTRICITY_OFF_PEAK'),
+        electricity: price('PLUGWISE_TARIFF_ELECTRICITY'),
+        gas: price('PLUGWISE_TARIFF_GAS'),
+        feed_in: price('PLUGWISE_TARIFF_FEED_IN')
+    };
+}
+
+export interface VaultKeyConfig {
+    key?: string;
+    keyFile?: string;
+}
+
+/**
+ * Get where the credential vault key comes from
+ * PLUGWISE_VAULT_KEY holds the key (64 hex characters, base64 of 32 bytes, or a
+ * passphrase); PLUGWISE_VAULT_KEYFILE points to a file holding it.
+ */
+export function getVaultKeyConfig(): VaultKeyConfig {
+    return {
+        key: process.env.PLUGWISE_VAULT_KEY || undefined,
+        keyFile: process.env.PLUGWISE_VAULT_KEYFILE || undefined
+    };
+}
@@ -1 +1,6 @@
 export { getServerConfig } from './environment.js';
+export type { ServerConfig } from './environment.js';
+export { loadConfig, getConfigPath } from './environment.js';
+export { ConfigError } from './config-file.js';
+export { TOOL_CATEGORIES, SERVER_PROFILES, PROFILE_CATEGORIES } from './config-file.js';
+export type { AuthToken, FileConfig, HubConfig, SafetyLimits, ServerProfile, ToolCategory, TransportMode } from './config-file.js';
@@ -1,8 +1,39 @@
 #!/usr/bin/env node
 
+import { getServerConfig, loadConfig, ServerConfig } from './config/environment.js';
 import { PlugwiseMcpServer } from './mcp/server.js';
 
-const server = new PlugwiseMcpServer();
+// Validate the configuration file and server options before anything reads them
+let serverConfig: ServerConfig;
+try {
+    loadConfig();
+    serverConfig = getServerConfig();
+} catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+}
+
+const server = new PlugwiseMcpServer(serverConfig);
+let shuttingDown = false;
+
+// A second signal exits right away
+const shutdown = async (signal: string) => {
+    if (shuttingDown) process.exit(1);
+    shuttingDown = true;
+
+    console.error(`\n${signal} received, shutting down...`);
+    try {
+        await server.shutdown();
+        process.exit(0);
+    } catch (error) {
+        console.error('Failed to shut down cleanly:', error);
+        process.exit(1);
+    }
+};
+
+process.on('SIGINT', () => void shutdown('SIGINT'));
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+
 server.run().catch((error) => {
     console.error('Failed to start Plugwise MCP server:', error);
     process.exit(1);
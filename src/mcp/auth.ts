@@ -0,0 +1,102 @@
+/**
+ * Authentication and Access Control
+ * Bearer tokens of the HTTP transport, and the tool categories and hubs they grant
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { AuthToken, ToolCategory, getAuthTokens } from '../config/environment.js';
+
+/**
+ * Resolve a hub argument (name, alias or none for the default hub) to the hub name
+ */
+export type HubResolver = (hub?: string) => string | null;
+
+export interface AccessDenial {
+    /** scope: the token lacks the tool category, hub: it may not use the hub */
+    reason: 'scope' | 'hub';
+    message: string;
+}
+
+function digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+}
+
+export class TokenAuthenticator {
+    constructor(private readonly tokens: AuthToken[] = getAuthTokens()) {}
+
+    /**
+     * Authentication is required once tokens are configured
+     */
+    isEnabled(): boolean {
+        return this.tokens.length > 0;
+    }
+
+    /**
+     * Get the grants of the bearer token in an Authorization header; null when it is missing or unknown
+     */
+    authenticate(authorization: string | undefined): AuthInfo | null {
+        const match = authorization?.match(/^Bearer\s+(\S+)\s*$/i);
+        if (!match) return null;
+
+        // Compare digests so the comparison takes the same time for every token
+        const presented = digest(match[1]);
+        const token = this.tokens.find(candidate => timingSafeEqual(digest(candidate.token), presented));
+        if (!token) return null;
+
+        return {
+            token: match[1],
+            clientId: token.name,
+            scopes: token.scopes,
+            extra: { hubs: token.hubs }
+        };
+    }
+}
+
+/**
+ * Check whether a caller may use a tool category on a hub
+ * Without authInfo (stdio, or HTTP without tokens) everything is allowed. The
+ * hub is only checked for calls that target one; pass undefined otherwise.
+ */
+export function checkAccess(
+    authInfo: AuthInfo | undefined,
+    category: ToolCategory,
+    hub: string | null | undefined,
+    resolveHub: HubResolver
+): AccessDenial | null {
+    if (!authInfo) return null;
+
+    if (!authInfo.scopes.includes(category)) {
+        return {
+            reason: 'scope',
+            message: `Token ${authInfo.clientId} does not have the ${category} scope`
+        };
+    }
+
+    const hubs = authInfo.extra?.hubs as string[] | undefined;
+    if (!hubs || hub === undefined) return null;
+
+    const allowed = hubs.map(name => (resolveHub(name) ?? name).toLowerCase());
+    if (hub === null || !allowed.includes(hub.toLowerCase())) {
+        return {
+            reason: 'hub',
+            message: `Token ${authInfo.clientId} may not use hub ${hub ?? '(no default hub)'}`
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Check whether a caller may use a tool that can reach any hub, e.g. by
+ * address; only tokens that are not limited to hubs may
+ */
+export function checkAnyHubAccess(authInfo: AuthInfo | undefined, tool: string): AccessDenial | null {
+    const hubs = authInfo?.extra?.hubs as string[] | undefined;
+    if (!authInfo || !hubs) return null;
+
+    return {
+        reason: 'hub',
+        message: `Token ${authInfo.clientId} is limited to hubs ${hubs.join(', ')} and may not use ${tool}`
+    };
+}
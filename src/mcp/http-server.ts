@@ -0,0 +1,248 @@
+/**
+ * MCP HTTP Server
+ *
+ * Serves MCP client sessions over Streamable HTTP at /mcp and over the legacy
+ * HTTP+SSE transport at /sse (stream) and /messages (posted messages). Every
+ * session gets its own MCP server instance from the factory. With auth tokens
+ * configured every request needs a valid bearer token.
+ */
+
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { ErrorCode, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { TokenAuthenticator } from './auth.js';
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]', '::1'];
+
+interface Session {
+    transport: StreamableHTTPServerTransport | SSEServerTransport;
+    server: Server;
+}
+
+/**
+ * A request that is answered with a JSON-RPC error
+ */
+class HttpError extends Error {
+    constructor(
+        public readonly status: number,
+        public readonly code: number,
+        message: string,
+        public readonly closeConnection = false
+    ) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string, closeConnection = false): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...(closeConnection ? { Connection: 'close' } : {}) });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            // The rest of the body is not read, so the connection cannot serve another request
+            throw new HttpError(413, ErrorCode.InvalidRequest, 'Request body too large', true);
+        }
+        chunks.push(chunk);
+    }
+
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+        throw new HttpError(400, ErrorCode.ParseError, 'Parse error: invalid JSON');
+    }
+}
+
+export class McpHttpServer {
+    private httpServer: HttpServer | null = null;
+    private sessions: Map<string, Session> = new Map();
+
+    constructor(
+        private readonly createMcpServer: () => Server,
+        private readonly host: string,
+        private readonly port: number,
+        private readonly authenticator: TokenAuthenticator = new TokenAuthenticator([])
+    ) {}
+
+    /**
+     * Start listening; resolves with the bound port
+     */
+    start(): Promise<number> {
+        const httpServer = createServer((req, res) => void this.handleRequest(req, res));
+        this.httpServer = httpServer;
+
+        return new Promise((resolve, reject) => {
+            httpServer.once('error', reject);
+            httpServer.listen(this.port, this.host, () => {
+                httpServer.off('error', reject);
+                const address = httpServer.address();
+                resolve(typeof address === 'object' && address ? address.port : this.port);
+            });
+        });
+    }
+
+    /**
+     * Close every session, then stop listening
+     */
+    async close(): Promise<void> {
+        await Promise.all(Array.from(this.sessions.values(), session =>
+            session.transport.close().catch(error =>
+                console.error('Failed to close MCP session:', (error as Error).message)
+            )
+        ));
+
+        const httpServer = this.httpServer;
+        if (!httpServer) return;
+
+        this.httpServer = null;
+        await new Promise<void>(resolve => {
+            httpServer.close(() => resolve());
+            httpServer.closeAllConnections();
+        });
+    }
+
+    getSessionCount(): number {
+        return this.sessions.size;
+    }
+
+    private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        try {
+            if (!this.isAllowedHost(req)) {
+                throw new HttpError(403, ErrorCode.InvalidRequest, `Invalid Host header: ${req.headers.host}`);
+            }
+
+            if (this.authenticator.isEnabled()) {
+                const auth = this.authenticator.authenticate(req.headers.authorization);
+                if (!auth) {
+                    res.setHeader('WWW-Authenticate', 'Bearer realm="plugwise-mcp"');
+                    throw new HttpError(401, ErrorCode.InvalidRequest, 'Unauthorized: missing or invalid bearer token');
+                }
+                // The transports pass it to the request handlers as extra.authInfo
+                (req as IncomingMessage & { auth?: AuthInfo }).auth = auth;
+            }
+
+            const url = new URL(req.url ?? '/', 'http://localhost');
+            switch (url.pathname) {
+                case MCP_PATH:
+                    return await this.handleStreamableRequest(req, res);
+                case SSE_PATH:
+                    return await this.handleSseStream(req, res);
+                case MESSAGES_PATH:
+                    return await this.handleSseMessage(req, res, url);
+                default:
+                    throw new HttpError(404, ErrorCode.InvalidRequest, `Not found: ${url.pathname}`);
+            }
+        } catch (error) {
+            if (res.headersSent) return;
+            if (error instanceof HttpError) {
+                sendError(res, error.status, error.code, error.message, error.closeConnection);
+            } else {
+                console.error('MCP HTTP request failed:', error);
+                sendError(res, 500, ErrorCode.InternalError, 'Internal server error');
+            }
+        }
+    }
+
+    /**
+     * Streamable HTTP: an initialize request without session ID starts a
+     * session, other requests carry the Mcp-Session-Id header
+     */
+    private async handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+        const sessionId = req.headers['mcp-session-id'];
+
+        if (typeof sessionId === 'string') {
+            const session = this.sessions.get(sessionId);
+            if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+                throw new HttpError(404, ErrorCode.InvalidRequest, 'Session not found');
+            }
+            await session.transport.handleRequest(req, res, body);
+            return;
+        }
+
+        if (req.method !== 'POST' || !isInitializeRequest(body)) {
+            throw new HttpError(400, ErrorCode.InvalidRequest, 'Bad Request: No valid session ID provided');
+        }
+
+        const server = this.createMcpServer();
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: id => this.addSession(id, { transport, server }, 'Streamable HTTP')
+        });
+        transport.onclose = () => {
+            if (transport.sessionId) this.removeSession(transport.sessionId);
+        };
+
+        await server.connect(transport);
+        await transport.handleRequest(req, res, body);
+    }
+
+    /**
+     * Legacy SSE: GET opens the event stream of a new session
+     */
+    private async handleSseStream(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        if (req.method !== 'GET') {
+            throw new HttpError(405, ErrorCode.InvalidRequest, 'Method not allowed');
+        }
+
+        const server = this.createMcpServer();
+        const transport = new SSEServerTransport(MESSAGES_PATH, res);
+        transport.onclose = () => this.removeSession(transport.sessionId);
+        this.addSession(transport.sessionId, { transport, server }, 'SSE');
+
+        await server.connect(transport);
+    }
+
+    /**
+     * Legacy SSE: messages are posted to /messages?sessionId=...
+     */
+    private async handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+        if (req.method !== 'POST') {
+            throw new HttpError(405, ErrorCode.InvalidRequest, 'Method not allowed');
+        }
+
+        const session = this.sessions.get(url.searchParams.get('sessionId') ?? '');
+        if (!session || !(session.transport instanceof SSEServerTransport)) {
+            throw new HttpError(404, ErrorCode.InvalidRequest, 'Session not found');
+        }
+        await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+    }
+
+    private addSession(id: string, session: Session, kind: string): void {
+        this.sessions.set(id, session);
+        console.error(`🔗 ${kind} session ${id} opened (${this.sessions.size} active)`);
+    }
+
+    private removeSession(id: string): void {
+        if (!this.sessions.delete(id)) return;
+        console.error(`🔗 Session ${id} closed (${this.sessions.size} active)`);
+    }
+
+    /**
+     * When listening on loopback only, reject requests for other hosts so web
+     * pages cannot reach the server through DNS rebinding
+     */
+    private isAllowedHost(req: IncomingMessage): boolean {
+        if (!LOOPBACK_HOSTS.includes(this.host)) return true;
+
+        try {
+            return LOOPBACK_HOSTS.includes(new URL(`http://${req.headers.host}`).hostname);
+        } catch {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,216 @@
+/**
+ * Resource Registry
+ *
+ * Provides a registry for MCP resources and resource templates that bridges
+ * between the modular resource definitions and the MCP SDK's request handler
+ * pattern, and tells the client sessions when resources change.
+ */
+
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import {
+    ErrorCode,
+    McpError,
+    ReadResourceRequest,
+    ReadResourceResult,
+    Resource,
+    ResourceTemplate
+} from '@modelcontextprotocol/sdk/types.js';
+import { AccessDenial, HubResolver, checkAccess } from './auth.js';
+
+export interface ResourceContents {
+    uri: string;
+    mimeType?: string;
+    text: string;
+}
+
+/**
+ * Read a resource; variables are the decoded values of the URI template
+ */
+export type ResourceReader = (uri: URL, variables: Record<string, string>) => Promise<ResourceContents[]>;
+
+interface ResourceMetadata {
+    title: string;
+    description: string;
+    mimeType?: string;
+}
+
+interface StaticResourceDefinition extends ResourceMetadata {
+    name: string;
+    uri: string;
+    read: ResourceReader;
+}
+
+interface TemplateResourceDefinition extends ResourceMetadata {
+    name: string;
+    template: UriTemplate;
+    /** Lists the current instances of the template */
+    list?: () => Promise<Resource[]>;
+    read: ResourceReader;
+}
+
+export class ResourceRegistry {
+    private resources: Map<string, StaticResourceDefinition> = new Map();
+    private templates: Map<string, TemplateResourceDefinition> = new Map();
+    private updatedListeners: Set<(uri: string) => Promise<void>> = new Set();
+    private listChangedListeners: Set<() => Promise<void>> = new Set();
+
+    constructor(private readonly resolveHub: HubResolver = hub => hub ?? null) {}
+
+    registerResource(
+        name: string,
+        definition: ResourceMetadata & { uri: string },
+        read: ResourceReader
+    ): void {
+        this.resources.set(definition.uri, { name, ...definition, read });
+    }
+
+    registerResourceTemplate(
+        name: string,
+        definition: ResourceMetadata & { uriTemplate: string; list?: () => Promise<Resource[]> },
+        read: ResourceReader
+    ): void {
+        const { uriTemplate, ...metadata } = definition;
+        this.templates.set(name, { name, ...metadata, template: new UriTemplate(uriTemplate), read });
+    }
+
+    /**
+     * Static resources followed by the listed instances of the templates; a
+     * caller with a token only gets the resources it may read
+     */
+    async getResourceList(authInfo?: AuthInfo): Promise<Resource[]> {
+        // Static resources show the default hub
+        const statics = this.getAccessDenial(authInfo, undefined) ? [] : Array.from(this.resources.values());
+        const resources: Resource[] = statics.map(resource => ({
+            uri: resource.uri,
+            name: resource.name,
+            title: resource.title,
+            description: resource.description,
+            mimeType: resource.mimeType
+        }));
+
+        for (const template of this.templates.values()) {
+            if (!template.list) continue;
+            try {
+                const listed = await template.list();
+                resources.push(...listed.filter(resource => {
+                    const hub = template.template.match(resource.uri)?.hub;
+                    return !this.getAccessDenial(authInfo, typeof hub === 'string' ? decodeURIComponent(hub) : undefined);
+                }));
+            } catch (error) {
+                console.error(`Failed to list ${template.name} resources:`, (error as Error).message);
+            }
+        }
+
+        return resources;
+    }
+
+    getResourceTemplateList(): ResourceTemplate[] {
+        return Array.from(this.templates.values()).map(template => ({
+            uriTemplate: template.template.toString(),
+            name: template.name,
+            title: template.title,
+            description: template.description,
+            mimeType: template.mimeType
+        }));
+    }
+
+    /**
+     * Read a resource; a caller with a token needs the read scope and access
+     * to the hub in the URI (the default hub for resources without one)
+     */
+    async handleReadResource(request: ReadResourceRequest, authInfo?: AuthInfo): Promise<ReadResourceResult> {
+        const { uri } = request.params;
+        const { read, variables } = this.find(uri);
+
+        this.checkAccess(authInfo, variables.hub);
+        return { contents: await this.read(read, new URL(uri), variables) };
+    }
+
+    /**
+     * Throw the error of handleReadResource when the caller may not read a
+     * resource, e.g. before subscribing to it
+     */
+    checkUriAccess(uri: string, authInfo?: AuthInfo): void {
+        this.checkAccess(authInfo, this.find(uri).variables.hub);
+    }
+
+    /**
+     * Listen for changed resources and changes of the resource list, e.g. per
+     * client session; returns a function removing the listener
+     */
+    onUpdated(listener: (uri: string) => Promise<void>): () => void {
+        this.updatedListeners.add(listener);
+        return () => this.updatedListeners.delete(listener);
+    }
+
+    onListChanged(listener: () => Promise<void>): () => void {
+        this.listChangedListeners.add(listener);
+        return () => this.listChangedListeners.delete(listener);
+    }
+
+    /**
+     * Tell the listeners that a resource changed; each decides whether its client subscribed to it
+     */
+    async notifyUpdated(uri: string): Promise<void> {
+        await Promise.all(Array.from(this.updatedListeners, listener => listener(uri)));
+    }
+
+    async notifyListChanged(): Promise<void> {
+        await Promise.all(Array.from(this.listChangedListeners, listener => listener()));
+    }
+
+    /**
+     * The reader of a resource URI with the decoded values of its template
+     */
+    private find(uri: string): { read: ResourceReader; variables: Record<string, string> } {
+        const resource = this.resources.get(uri);
+        if (resource) {
+            return { read: resource.read, variables: {} };
+        }
+
+        for (const template of this.templates.values()) {
+            const match = template.template.match(uri);
+            if (!match) continue;
+
+            const variables: Record<string, string> = {};
+            for (const [key, value] of Object.entries(match)) {
+                variables[key] = decodeURIComponent(Array.isArray(value) ? value.join(',') : value);
+            }
+            return { read: template.read, variables };
+        }
+
+        throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`);
+    }
+
+    private getAccessDenial(authInfo: AuthInfo | undefined, hub: string | undefined): AccessDenial | null {
+        return checkAccess(authInfo, 'read', this.resolveHub(hub), this.resolveHub);
+    }
+
+    private checkAccess(authInfo: AuthInfo | undefined, hub: string | undefined): void {
+        const denial = this.getAccessDenial(authInfo, hub);
+        if (denial) {
+            throw new McpError(ErrorCode.InvalidRequest, denial.message, { reason: denial.reason });
+        }
+    }
+
+    private async read(reader: ResourceReader, uri: URL, variables: Record<string, string>): Promise<ResourceContents[]> {
+        try {
+            return await reader(uri, variables);
+        } catch (error) {
+            if (error instanceof McpError) throw error;
+            throw new McpError(ErrorCode.InternalError, `Failed to read ${uri.href}: ${(error as Error).message}`);
+        }
+    }
+}
+
+/**
+ * Contents of a JSON resource
+ */
+export function jsonContents(uri: URL, value: unknown): ResourceContents[] {
+    return [{
+        uri: uri.href,
+        mimeType: 'application/json',
+        text: JSON.stringify(value, null, 2)
+    }];
+}
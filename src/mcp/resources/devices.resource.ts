@@ -1,44 +1,75 @@
 /**
  * Devices Resource
- * Provides access to device data as an MCP resource
+ * Provides access to device data as MCP resources
  */
 
-import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ErrorCode, McpError, Resource } from '@modelcontextprotocol/sdk/types.js';
 import { ConnectionService } from '../../services/connection.service.js';
+import { StatePollerService } from '../../services/state-poller.service.js';
+import { ResourceRegistry, jsonContents } from '../resource-registry.js';
 
-export function registerDevicesResource(server: any, connectionService: ConnectionService): void {
-    server.registerResource(
+export const DEVICES_URI = 'plugwise://devices';
+
+export function deviceResourceUri(hub: string, id: string): string {
+    return `plugwise://hubs/${encodeURIComponent(hub)}/devices/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Devices of the connected hubs that have been polled
+ */
+function listDevices(connectionService: ConnectionService, statePoller: StatePollerService): Resource[] {
+    return connectionService.getConnections().flatMap(connection => {
+        const snapshot = statePoller.getSnapshot(connection.name);
+        if (!snapshot) return [];
+
+        return Object.entries(snapshot.data.entities)
+            .filter(([, entity]) => entity.dev_class !== 'zone')
+            .map(([id, entity]) => ({
+                uri: deviceResourceUri(connection.name, id),
+                name: entity.name,
+                title: `${entity.name} (${connection.name})`,
+                description: `${entity.dev_class}${entity.model ? `, ${entity.model}` : ''}`,
+                mimeType: 'application/json'
+            }));
+    });
+}
+
+export function registerDevicesResource(
+    registry: ResourceRegistry,
+    connectionService: ConnectionService,
+    statePoller: StatePollerService
+): void {
+    registry.registerResource(
         'devices',
-        new ResourceTemplate('plugwise://devices', { list: undefined }),
         {
+            uri: DEVICES_URI,
             title: 'Plugwise Devices',
-            description: 'Access current state and data of all Plugwise devices'
+            description: 'Current state and data of all devices of the default hub',
+            mimeType: 'application/json'
         },
-        async (uri: URL) => {
-            try {
-                const client = connectionService.ensureConnected();
-                const data = await client.getDevices();
-
-                return {
-                    contents: [
-                        {
-                            uri: uri.href,
-                            text: JSON.stringify(data, null, 2),
-                            mimeType: 'application/json'
-                        }
-                    ]
-                };
-            } catch (error) {
-                return {
-                    contents: [
-                        {
-                            uri: uri.href,
-                            text: JSON.stringify({ error: (error as Error).message }, null, 2),
-                            mimeType: 'application/json'
-                        }
-                    ]
-                };
+        async uri => {
+            const { data, freshness } = await statePoller.getData();
+            return jsonContents(uri, { ...data, freshness });
+        }
+    );
+
+    registry.registerResourceTemplate(
+        'device',
+        {
+            uriTemplate: 'plugwise://hubs/{hub}/devices/{id}',
+            title: 'Plugwise Device',
+            description: 'Current state of a device (thermostat, valve, plug, meter, heater or gateway) of a hub',
+            mimeType: 'application/json',
+            list: async () => listDevices(connectionService, statePoller)
+        },
+        async (uri, { hub, id }) => {
+            const { data, freshness } = await statePoller.getData(hub);
+            const entity = data.entities[id];
+            if (!entity || entity.dev_class === 'zone') {
+                throw new McpError(ErrorCode.InvalidParams, `Device ${id} not found on hub ${hub}`);
             }
+
+            return jsonContents(uri, { id, ...entity, freshness });
         }
     );
 }
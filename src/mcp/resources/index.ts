@@ -3,15 +3,72 @@
  * Aggregates and registers all MCP resources
  */
 
-import { registerDevicesResource } from './devices.resource.js';
+import { registerDevicesResource, deviceResourceUri, DEVICES_URI } from './devices.resource.js';
+import { registerZonesResource, zoneResourceUri } from './zones.resource.js';
 import { ConnectionService } from '../../services/connection.service.js';
+import { StatePollerService } from '../../services/state-poller.service.js';
+import { ResourceRegistry } from '../resource-registry.js';
 
 /**
- * Register all MCP resources with the server
+ * Register all MCP resources with the registry
  */
 export function registerAllResources(
-    server: any,
-    connectionService: ConnectionService
+    registry: ResourceRegistry,
+    connectionService: ConnectionService,
+    statePoller: StatePollerService
 ): void {
-    registerDevicesResource(server, connectionService);
+    registerDevicesResource(registry, connectionService, statePoller);
+    registerZonesResource(registry, connectionService, statePoller);
+    watchResourceUpdates(registry, connectionService, statePoller);
+}
+
+/**
+ * Notify subscribers of the devices and zones that changed between polls
+ * A zone also changes when one of its members does, as it shows their readings.
+ */
+function watchResourceUpdates(
+    registry: ResourceRegistry,
+    connectionService: ConnectionService,
+    statePoller: StatePollerService
+): void {
+    const previous: Map<string, Map<string, string>> = new Map();
+
+    statePoller.on('snapshot', ({ hub, data }) => {
+        const current = new Map(
+            Object.entries(data.entities).map(([id, entity]) => [id, JSON.stringify(entity)])
+        );
+        const before = previous.get(hub);
+        previous.set(hub, current);
+        if (!before) return;
+
+        const changed = [...current.keys()].filter(id => before.get(id) !== current.get(id));
+        const removed = [...before.keys()].filter(id => !current.has(id));
+        const uris = new Set<string>();
+
+        for (const id of changed) {
+            const entity = data.entities[id];
+            if (entity.dev_class === 'zone') {
+                uris.add(zoneResourceUri(hub, id));
+            } else {
+                uris.add(deviceResourceUri(hub, id));
+                if (entity.location && data.entities[entity.location]?.dev_class === 'zone') {
+                    uris.add(zoneResourceUri(hub, entity.location));
+                }
+            }
+        }
+        if ((changed.length > 0 || removed.length > 0) && connectionService.getDefaultHub() === hub) {
+            uris.add(DEVICES_URI);
+        }
+
+        for (const uri of uris) {
+            registry.notifyUpdated(uri).catch(error => {
+                console.error(`Failed to send update of ${uri}:`, (error as Error).message);
+            });
+        }
+
+        const added = changed.some(id => !before.has(id));
+        if (added || removed.length > 0) {
+            registry.notifyListChanged().catch(() => undefined);
+        }
+    });
 }
@@ -0,0 +1,60 @@
+/**
+ * Zones Resource
+ * Provides access to zones with their member devices as MCP resources
+ */
+
+import { ErrorCode, McpError, Resource } from '@modelcontextprotocol/sdk/types.js';
+import { ConnectionService } from '../../services/connection.service.js';
+import { StatePollerService } from '../../services/state-poller.service.js';
+import { describeZone } from '../tools/zone.tool.js';
+import { ResourceRegistry, jsonContents } from '../resource-registry.js';
+
+export function zoneResourceUri(hub: string, id: string): string {
+    return `plugwise://hubs/${encodeURIComponent(hub)}/zones/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Zones of the connected hubs that have been polled
+ */
+function listZones(connectionService: ConnectionService, statePoller: StatePollerService): Resource[] {
+    return connectionService.getConnections().flatMap(connection => {
+        const snapshot = statePoller.getSnapshot(connection.name);
+        if (!snapshot) return [];
+
+        return Object.entries(snapshot.data.entities)
+            .filter(([, entity]) => entity.dev_class === 'zone')
+            .map(([id, entity]) => ({
+                uri: zoneResourceUri(connection.name, id),
+                name: entity.name,
+                title: `${entity.name} (${connection.name})`,
+                description: `Zone with ${entity.members?.length ?? 0} device(s)`,
+                mimeType: 'application/json'
+            }));
+    });
+}
+
+export function registerZonesResource(
+    registry: ResourceRegistry,
+    connectionService: ConnectionService,
+    statePoller: StatePollerService
+): void {
+    registry.registerResourceTemplate(
+        'zone',
+        {
+            uriTemplate: 'plugwise://hubs/{hub}/zones/{id}',
+            title: 'Plugwise Zone',
+            description: 'A zone (room) of a hub with its thermostats, member devices and aggregated readings',
+            mimeType: 'application/json',
+            list: async () => listZones(connectionService, statePoller)
+        },
+        async (uri, { hub, id }) => {
+            const { data, freshness } = await statePoller.getData(hub);
+            const entity = data.entities[id];
+            if (!entity || entity.dev_class !== 'zone') {
+                throw new McpError(ErrorCode.InvalidParams, `Zone ${id} not found on hub ${hub}`);
+            }
+
+            return jsonContents(uri, { ...describeZone(data.entities, id, entity), freshness });
+        }
+    );
+}
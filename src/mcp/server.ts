@@ -13,30 +13,69 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
     CallToolRequestSchema,
     ListToolsRequestSchema,
+    ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
+    ReadResourceRequestSchema,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema,
     type CallToolRequest,
     type ListToolsRequest,
 } from '@modelcontextprotocol/sdk/types.js';
-import { getServerConfig } from '../config/environment.js';
-import { HubDiscoveryService } from '../services/hub-discovery.service.js';
+import { getServerConfig, getDefaultHubName, ServerConfig } from '../config/environment.js';
+import { HubDiscoveryService, DiscoveredHub } from '../services/hub-discovery.service.js';
 import { DeviceStorageService } from '../services/device-storage.service.js';
+import { CredentialVaultService } from '../services/credential-vault.service.js';
 import { ConnectionService } from '../services/connection.service.js';
+import { StatePollerService } from '../services/state-poller.service.js';
+import { HistoryService } from '../services/history.service.js';
+import { EnergyReportService } from '../services/energy-report.service.js';
 import { ToolRegistry } from './tool-registry.js';
 import { registerAllTools } from './tools/index.js';
+import { ResourceRegistry } from './resource-registry.js';
+import { McpHttpServer } from './http-server.js';
+import { TokenAuthenticator } from './auth.js';
+import { registerAllResources } from './resources/index.js';
 
 export class PlugwiseMcpServer {
-    private server: Server;
+    private stdioServer: Server | null = null;
+    private httpServer: McpHttpServer | null = null;
+    private credentialVault: CredentialVaultService;
     private discoveryService: HubDiscoveryService;
     private deviceStorage: DeviceStorageService;
     private connectionService: ConnectionService;
+    private statePoller: StatePollerService;
+    private historyService: HistoryService;
+    private energyReportService: EnergyReportService;
     private toolRegistry: ToolRegistry;
+    private resourceRegistry: ResourceRegistry;
 
-    constructor() {
-        this.discoveryService = new HubDiscoveryService();
+    constructor(private readonly config: ServerConfig = getServerConfig()) {
+        this.credentialVault = new CredentialVaultService();
+        this.discoveryService = new HubDiscoveryService(this.credentialVault);
         this.deviceStorage = new DeviceStorageService();
-        this.connectionService = new ConnectionService();
-        this.toolRegistry = new ToolRegistry();
+        this.connectionService = new ConnectionService(this.discoveryService);
+        this.statePoller = new StatePollerService(this.connectionService);
+        this.historyService = new HistoryService();
+        this.energyReportService = new EnergyReportService(this.historyService);
+        this.statePoller.on('change', change => {
+            console.error(`🔔 [${change.hub}] ${change.type}: ${change.device_name}`);
+        });
+        this.toolRegistry = new ToolRegistry(hub => this.connectionService.resolveHubName(hub), config.profile);
+        this.resourceRegistry = new ResourceRegistry(hub => this.connectionService.resolveHubName(hub));
+
+        console.error('Plugwise MCP Server initialized - Smart Home Automation Control for AI Agents');
+        console.error('Supports: Climate control, energy monitoring, switch automation, gateway management');
+        console.error('Optimized for: Home automation workflows, energy optimization, comfort control');
+
+        registerAllTools(this.toolRegistry, this.connectionService, this.discoveryService, this.deviceStorage, this.statePoller, this.historyService, this.energyReportService);
+        registerAllResources(this.resourceRegistry, this.connectionService, this.statePoller);
+    }
 
-        this.server = new Server(
+    /**
+     * Create the MCP server of one client session; sessions share the services and registries
+     */
+    private createServer(): Server {
+        const server = new Server(
             {
                 name: 'plugwise-mcp-server',
                 version: '1.0.0',
@@ -44,29 +83,62 @@ export class PlugwiseMcpServer {
             {
                 capabilities: {
                     tools: {},
-                    resources: {},
+                    resources: { subscribe: true, listChanged: true },
                     prompts: {},
                 },
             }
         );
 
-        console.error('Plugwise MCP Server initialized - Smart Home Automation Control for AI Agents');
-        console.error('Supports: Climate control, energy monitoring, switch automation, gateway management');
-        console.error('Optimized for: Home automation workflows, energy optimization, comfort control');
-
-        registerAllTools(this.toolRegistry, this.connectionService, this.discoveryService, this.deviceStorage);
-        this.setupHandlers();
+        this.setupHandlers(server);
+        return server;
     }
 
-    private setupHandlers(): void {
-        this.server.setRequestHandler(ListToolsRequestSchema, async (_request: ListToolsRequest) => ({
+    private setupHandlers(server: Server): void {
+        server.setRequestHandler(ListToolsRequestSchema, async (_request: ListToolsRequest) => ({
             tools: this.toolRegistry.getToolList()
         }));
 
-        this.server.setRequestHandler(
+        server.setRequestHandler(
             CallToolRequestSchema,
-            async (request: CallToolRequest) => this.toolRegistry.handleToolCall(request)
+            async (request: CallToolRequest, extra) => this.toolRegistry.handleToolCall(request, extra)
         );
+
+        server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => ({
+            resources: await this.resourceRegistry.getResourceList(extra.authInfo)
+        }));
+
+        server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+            resourceTemplates: this.resourceRegistry.getResourceTemplateList()
+        }));
+
+        server.setRequestHandler(
+            ReadResourceRequestSchema,
+            async (request, extra) => this.resourceRegistry.handleReadResource(request, extra.authInfo)
+        );
+
+        // Subscriptions belong to the session
+        const subscriptions = new Set<string>();
+
+        server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+            this.resourceRegistry.checkUriAccess(request.params.uri, extra.authInfo);
+            subscriptions.add(request.params.uri);
+            return {};
+        });
+
+        server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+            subscriptions.delete(request.params.uri);
+            return {};
+        });
+
+        const removeUpdatedListener = this.resourceRegistry.onUpdated(async uri => {
+            if (subscriptions.has(uri)) await server.sendResourceUpdated({ uri });
+        });
+        const removeListChangedListener = this.resourceRegistry.onListChanged(() => server.sendResourceListChanged());
+
+        server.onclose = () => {
+            removeUpdatedListener();
+            removeListChangedListener();
+        };
     }
 
     private async scanAndRefreshHubs(): Promise<void> {
@@ -80,60 +152,107 @@ export class PlugwiseMcpServer {
             return;
         }
 
-        for (const hub of hubs) {
-            console.error(`\n📍 Processing hub: ${hub.name}`);
-            
-            const verifiedHub = await this.discoveryService.verifyHub(hub);
-            
-            if (verifiedHub) {
-                try {
-                    console.error(`🔌 Connecting to ${verifiedHub.name} at ${verifiedHub.ip}...`);
-                    const client = await this.connectionService.connect({
-                        host: verifiedHub.ip,
-                        password: verifiedHub.password,
-                        username: 'smile'
-                    });
-                    
-                    console.error('📥 Fetching devices...');
-                    const devices = await client.getDevices();
-                    
-                    console.error('💾 Saving devices...');
-                    await this.deviceStorage.saveDevices(verifiedHub.name, devices.entities, verifiedHub.password);
-                    
-                    this.connectionService.disconnect();
-                    console.error(`✅ Hub ${verifiedHub.name} refreshed successfully`);
-                    
-                } catch (error) {
-                    console.error(`❌ Failed to refresh devices for hub ${verifiedHub.name}:`, error);
-                }
-            } else {
-                console.error(`❌ Failed to verify hub ${hub.name}`);
-            }
+        // Hubs are verified and connected side by side and stay in the connection pool
+        const results = await Promise.all(hubs.map(hub => this.connectHub(hub)));
+        const connected = results.filter((name): name is string => name !== null);
+
+        // Without a configured default, the first registered hub is the default rather than the fastest
+        if (connected.length > 0 && !getDefaultHubName()) {
+            this.connectionService.setDefaultHub(connected[0]);
         }
-        
+
+        console.error(`\n🔌 ${connected.length}/${hubs.length} hub(s) connected, default hub: ${this.connectionService.getDefaultHub() ?? 'none'}`);
         console.error('\n✨ Startup scan and refresh completed.\n');
     }
 
+    /**
+     * Verify a hub, add it to the connection pool and refresh its stored devices
+     */
+    private async connectHub(hub: DiscoveredHub): Promise<string | null> {
+        console.error(`\n📍 Processing hub: ${hub.name}`);
+
+        const verifiedHub = await this.discoveryService.verifyHub(hub);
+        if (!verifiedHub) {
+            console.error(`❌ Failed to verify hub ${hub.name}`);
+            return null;
+        }
+
+        try {
+            console.error(`🔌 Connecting to ${verifiedHub.name} at ${verifiedHub.ip}...`);
+            const client = await this.connectionService.connect({
+                host: verifiedHub.ip,
+                password: verifiedHub.password,
+                port: verifiedHub.port,
+                username: verifiedHub.username
+            }, verifiedHub.name);
+
+            console.error(`📥 Fetching devices of ${verifiedHub.name}...`);
+            const devices = await client.getDevices();
+
+            await this.deviceStorage.saveDevices(verifiedHub.name, devices.entities);
+            console.error(`✅ Hub ${verifiedHub.name} connected and refreshed`);
+            return this.connectionService.getHubName(client) ?? verifiedHub.name;
+        } catch (error) {
+            console.error(`❌ Failed to connect hub ${verifiedHub.name}:`, error);
+            return null;
+        }
+    }
+
     async run(): Promise<void> {
-        const config = getServerConfig();
+        const config = this.config;
+
+        await this.discoveryService.migrateCredentials();
+        await this.deviceStorage.migrateCredentials();
 
         await this.discoveryService.loadFromEnvironment();
         await this.deviceStorage.loadAllDevices();
 
         await this.scanAndRefreshHubs();
+        this.historyService.start(this.statePoller);
+        this.statePoller.start();
 
         console.error('\n🚀 Plugwise MCP Server started!');
-        console.error('\nAvailable Tools:');
+        console.error(`\nAvailable Tools (${config.profile} profile):`);
         const tools = this.toolRegistry.getToolDefinitions();
         tools.forEach(tool => {
             console.error(`  - ${tool.name}: ${tool.title}`);
         });
         console.error('\nAvailable Resources:');
-        console.error('  - plugwise://devices: Current device states');
+        (await this.resourceRegistry.getResourceList()).forEach(resource => {
+            console.error(`  - ${resource.uri}: ${resource.title ?? resource.name}`);
+        });
+        this.resourceRegistry.getResourceTemplateList().forEach(template => {
+            console.error(`  - ${template.uriTemplate}: ${template.title ?? template.name}`);
+        });
         console.error('\nAvailable Prompts:');
         console.error('  - setup_guide: Get setup instructions');
 
-        const transport = new StdioServerTransport();
-        await this.server.connect(transport);
+        if (config.transport === 'http') {
+            const authenticator = new TokenAuthenticator();
+            if (!authenticator.isEnabled()) {
+                console.error('⚠️  No auth tokens configured: every client that can reach the server has full access');
+            }
+            this.httpServer = new McpHttpServer(() => this.createServer(), config.host, config.port, authenticator);
+            const port = await this.httpServer.start();
+            console.error(`\n🌐 Listening on http://${config.host}:${port}/mcp (Streamable HTTP) and /sse (legacy SSE)`);
+        } else {
+            this.stdioServer = this.createServer();
+            await this.stdioServer.connect(new StdioServerTransport());
+        }
+    }
+
+    /**
+     * Stop polling, close the client sessions and disconnect the hubs
+     */
+    async shutdown(): Promise<void> {
+        this.statePoller.stop();
+        this.historyService.stop();
+
+        await this.httpServer?.close();
+        await this.stdioServer?.close();
+        this.httpServer = null;
+        this.stdioServer = null;
+
+        this.connectionService.disconnectAll();
     }
 }
@@ -5,81 +5,245 @@
  * definitions and the MCP SDK's request handler pattern.
  */
 
-import { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+import {
+    CallToolRequest,
+    CallToolResult,
+    ServerNotification,
+    ServerRequest,
+    Tool,
+    ToolAnnotations
+} from '@modelcontextprotocol/sdk/types.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { z } from 'zod';
+import { ServerProfile, ToolCategory } from '../config/environment.js';
+import { PROFILE_CATEGORIES } from '../config/config-file.js';
+import { formatIssues, toJsonSchema } from '../utils/validation.js';
+import { HubResolver, checkAccess, checkAnyHubAccess } from './auth.js';
+
+/**
+ * Per-call context passed to tool handlers
+ */
+export interface ToolContext {
+    /** Aborted when the client cancels the call */
+    signal: AbortSignal;
+    /** Send a progress notification, if the client asked for progress */
+    sendProgress(progress: number, total?: number, message?: string): Promise<void>;
+    /** Whether the caller's token may use a hub (name or alias) with this tool */
+    canUseHub(hub: string): boolean;
+}
+
+export type ToolHandler<Args = any> = (args: Args, context: ToolContext) => Promise<CallToolResult>;
 
 export interface ToolDefinition {
     name: string;
     title: string;
+    /** Scope a token needs to call the tool */
+    category: ToolCategory;
     description: string;
-    inputSchema: any;
-    outputSchema?: any;
-    handler: (args: any) => Promise<any>;
+    /** Hints for clients whether the tool changes, and can disrupt, the installation */
+    annotations: ToolAnnotations;
+    /** Acts on hubs a hub argument does not name (adding or connecting by address); denied to tokens limited to hubs */
+    anyHub?: boolean;
+    /** Validates the arguments; published as JSON Schema */
+    inputSchema: z.ZodTypeAny;
+    /** Shape of structuredContent of successful results (see publishedOutput) */
+    outputSchema?: z.AnyZodObject;
+    handler: ToolHandler;
+}
+
+interface RegisteredTool extends ToolDefinition {
+    inputJsonSchema: Record<string, unknown>;
+    outputJsonSchema?: Record<string, unknown>;
+}
+
+/**
+ * structuredContent of error results (errorResponse of the tools and errorResult)
+ */
+const errorOutputSchema = z.object({
+    success: z.literal(false),
+    error: z.string(),
+    code: z.string().optional()
+});
+
+/**
+ * Clients check the structuredContent of error results against the output
+ * schema too, so the published schema is the success shape or an error
+ */
+function publishedOutput(schema: z.AnyZodObject): Record<string, unknown> {
+    return { type: 'object', ...toJsonSchema(z.union([schema, errorOutputSchema])) };
 }
 
 export class ToolRegistry {
-    private tools: Map<string, ToolDefinition> = new Map();
+    private tools: Map<string, RegisteredTool> = new Map();
 
-    registerTool(
+    constructor(
+        private readonly resolveHub: HubResolver = hub => hub ?? null,
+        private readonly profile: ServerProfile = 'full'
+    ) {}
+
+    registerTool<Input extends z.ZodTypeAny>(
         name: string,
         definition: {
             title: string;
+            category: ToolCategory;
             description: string;
-            inputSchema: any;
-            outputSchema?: any;
+            annotations: ToolAnnotations;
+            anyHub?: boolean;
+            inputSchema: Input;
+            outputSchema?: z.AnyZodObject;
         },
-        handler: (args: any) => Promise<any>
+        handler: ToolHandler<z.output<Input>>
     ): void {
         this.tools.set(name, {
             name,
             ...definition,
-            handler
+            handler,
+            inputJsonSchema: toJsonSchema(definition.inputSchema),
+            outputJsonSchema: definition.outputSchema ? publishedOutput(definition.outputSchema) : undefined
         });
     }
 
+    /**
+     * Tools exposed by the server profile
+     */
     getToolDefinitions(): ToolDefinition[] {
-        return Array.from(this.tools.values());
+        return this.getExposedTools();
     }
 
-    getToolList(): Array<{ name: string; description: string; inputSchema: any }> {
-        return Array.from(this.tools.values()).map(tool => ({
+    getToolList(): Tool[] {
+        return this.getExposedTools().map(tool => ({
             name: tool.name,
+            title: tool.title,
             description: tool.description,
-            inputSchema: tool.inputSchema
+            inputSchema: tool.inputJsonSchema as Tool['inputSchema'],
+            outputSchema: tool.outputJsonSchema as Tool['outputSchema'],
+            annotations: tool.annotations
         }));
     }
 
-    async handleToolCall(request: CallToolRequest): Promise<any> {
+    async handleToolCall(
+        request: CallToolRequest,
+        extra?: RequestHandlerExtra<ServerRequest, ServerNotification>
+    ): Promise<CallToolResult> {
         const { name, arguments: args } = request.params;
         
         const tool = this.tools.get(name);
         if (!tool) {
-            return {
-                content: [
-                    {
-                        type: 'text',
-                        text: `Unknown tool: ${name}`
-                    }
-                ],
-                isError: true
-            };
+            return this.errorResult({
+                success: false,
+                error: `Unknown tool: ${name}`,
+                code: 'unknown_tool',
+                tool: name
+            });
+        }
+
+        if (!this.isExposed(tool)) {
+            return this.errorResult({
+                success: false,
+                error: `Tool ${name} is not available in the ${this.profile} profile`,
+                code: 'tool_unavailable',
+                tool: name,
+                profile: this.profile
+            });
+        }
+
+        const denied = this.checkAccess(tool, args || {}, extra?.authInfo);
+        if (denied) {
+            return denied;
+        }
+
+        const parsed = tool.inputSchema.safeParse(args || {});
+        if (!parsed.success) {
+            const issues = formatIssues(parsed.error);
+            return this.errorResult({
+                success: false,
+                error: `Invalid arguments for ${name}: ${issues.join('; ')}`,
+                code: 'invalid_arguments',
+                tool: name,
+                issues
+            });
         }
 
         try {
-            return await tool.handler(args || {});
+            return await tool.handler(parsed.data, this.createContext(tool, request, extra));
         } catch (error) {
-            return {
-                content: [
-                    {
-                        type: 'text',
-                        text: `Error in ${name}: ${error instanceof Error ? error.message : String(error)}`
-                    }
-                ],
-                isError: true
-            };
+            return this.errorResult({
+                success: false,
+                error: `Error in ${name}: ${error instanceof Error ? error.message : String(error)}`,
+                code: 'internal_error',
+                tool: name
+            });
         }
     }
 
     hasTool(name: string): boolean {
         return this.tools.has(name);
     }
+
+    private getExposedTools(): RegisteredTool[] {
+        return Array.from(this.tools.values()).filter(tool => this.isExposed(tool));
+    }
+
+    private isExposed(tool: RegisteredTool): boolean {
+        return PROFILE_CATEGORIES[this.profile].includes(tool.category);
+    }
+
+    /**
+     * Structured error when the caller's token does not grant the tool's category or hub
+     */
+    private checkAccess(tool: RegisteredTool, args: Record<string, unknown>, authInfo?: AuthInfo): CallToolResult | null {
+        // Tools that take a hub argument act on that hub or the default hub
+        const properties = tool.inputJsonSchema.properties as Record<string, unknown> | undefined;
+        const hub = properties?.hub
+            ? this.resolveHub(typeof args.hub === 'string' ? args.hub : undefined)
+            : undefined;
+
+        const denial = checkAccess(authInfo, tool.category, hub, this.resolveHub)
+            ?? (tool.anyHub ? checkAnyHubAccess(authInfo, tool.name) : null);
+        if (!denial) return null;
+
+        console.error(`🚫 ${denial.message} (${tool.name})`);
+        return this.errorResult({
+            success: false,
+            error: denial.message,
+            code: 'access_denied',
+            reason: denial.reason,
+            tool: tool.name,
+            required_scope: tool.category,
+            ...(hub !== undefined ? { hub } : {})
+        });
+    }
+
+    /**
+     * Error result with the same shape as errorResponse of the tools, plus a code
+     */
+    private errorResult(output: { success: false; error: string; code: string; [key: string]: unknown }): CallToolResult {
+        return {
+            content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+            structuredContent: output,
+            isError: true
+        };
+    }
+
+    private createContext(
+        tool: RegisteredTool,
+        request: CallToolRequest,
+        extra?: RequestHandlerExtra<ServerRequest, ServerNotification>
+    ): ToolContext {
+        const progressToken = request.params._meta?.progressToken;
+        const authInfo = extra?.authInfo;
+
+        return {
+            signal: extra?.signal ?? new AbortController().signal,
+            sendProgress: async (progress, total, message) => {
+                if (progressToken === undefined || !extra) return;
+                await extra.sendNotification({
+                    method: 'notifications/progress',
+                    params: { progressToken, progress, total, message }
+                });
+            },
+            canUseHub: hub => !checkAccess(authInfo, tool.category, this.resolveHub(hub), this.resolveHub)
+        };
+    }
 }
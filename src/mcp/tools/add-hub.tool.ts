@@ -4,53 +4,51 @@
  */
 
 import { HubDiscoveryService } from '../../services/hub-discovery.service.js';
-import { ToolRegistry } from '../tool-registry.js';
+import { splitRanges } from '../../utils/cidr.js';
+import { z } from 'zod';
+import { ToolContext, ToolRegistry } from '../tool-registry.js';
+import { errorResponse } from './tool-helpers.js';
 
 export function registerAddHubTool(registry: ToolRegistry, discoveryService: HubDiscoveryService) {
     registry.registerTool(
         'add_hub',
         {
             title: 'Add Plugwise Hub',
-            description: 'Add a new Plugwise hub by providing its name (used as password). Scans the network to find the hub and stores it in the /hubs folder as a JSON file for future use. The hub name is the unique identifier printed on the back of your Plugwise device.',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    hubName: {
-                        type: 'string',
-                        description: 'The hub name/ID (e.g., glmpuuxg) which is also used as the password. This is the unique identifier found on the back label of your Plugwise hub.'
-                    }
-                },
-                required: ['hubName']
-            }
+            category: 'admin',
+            annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+            anyHub: true,
+            description: 'Add a new Plugwise hub by providing its name (used as password). Looks the hub up among gateways announced via mDNS (_plugwise._tcp), falling back to scanning the local network (or the given CIDR ranges) with a bounded number of parallel probes, and stores it in the /hubs folder as a JSON file for future use. The hub name is the unique identifier printed on the back of your Plugwise device.',
+            inputSchema: z.object({
+                hubName: z.string().trim().min(1, 'Hub name is required')
+                    .describe('The hub name/ID (e.g., glmpuuxg) which is also used as the password. This is the unique identifier found on the back label of your Plugwise hub.'),
+                networks: z.array(z.string()).optional()
+                    .describe('CIDR ranges to scan, /16 to /30, e.g. ["192.168.1.0/24", "10.0.0.0/22"] (default: the configured ranges or the detected local /24)'),
+                exclude: z.array(z.string()).optional()
+                    .describe('Addresses or CIDR ranges not to probe, e.g. ["192.168.1.1", "192.168.1.128/25"]')
+            }),
+            outputSchema: z.object({
+                success: z.literal(true),
+                hub: z.object({
+                    name: z.string(),
+                    ip: z.string(),
+                    model: z.string().optional(),
+                    firmware: z.string().optional()
+                }),
+                message: z.string()
+            })
         },
-        async ({ hubName }: { hubName?: string }) => {
-            if (!hubName || hubName.trim() === '') {
-                const syntaxMessage = `❌ Hub name is required.
-
-Usage: Call add_hub tool with hubName parameter
-
-Example: { "hubName": "glmpuuxg" }
-
-The hub name is the unique identifier/password for your Plugwise hub.`;
-
-                return {
-                    content: [
-                        {
-                            type: 'text',
-                            text: syntaxMessage
-                        }
-                    ],
-                    structuredContent: {
-                        success: false,
-                        message: syntaxMessage
-                    }
-                };
-            }
-
+        async ({ hubName, networks, exclude }, { signal, sendProgress }: ToolContext) => {
             try {
-                console.log(`🔍 Searching for hub: ${hubName}`);
+                console.error(`🔍 Searching for hub: ${hubName}`);
 
-                const result = await discoveryService.addHubByName(hubName.trim());
+                const result = await discoveryService.addHubByName(hubName, {
+                    networks: splitRanges(networks),
+                    exclude: splitRanges(exclude),
+                    signal,
+                    onProgress: ({ scanned, total }) => {
+                        sendProgress(scanned, total, `Scanned ${scanned} of ${total} addresses`).catch(() => undefined);
+                    }
+                });
 
                 if (result.success && result.hub) {
                     const successMessage = `✅ Hub found and added successfully!
@@ -81,37 +79,11 @@ The hub has been saved to: /hubs/${hubName}.json`;
                             message: successMessage
                         }
                     };
-                } else {
-                    const errorMessage = result.error || 'Hub not found on the network';
-                    return {
-                        content: [
-                            {
-                                type: 'text',
-                                text: `❌ ${errorMessage}`
-                            }
-                        ],
-                        structuredContent: {
-                            success: false,
-                            message: errorMessage,
-                            error: errorMessage
-                        }
-                    };
                 }
+
+                return errorResponse(result.error || 'Hub not found on the network');
             } catch (error) {
-                const errorMessage = `Error adding hub: ${(error as Error).message}`;
-                return {
-                    content: [
-                        {
-                            type: 'text',
-                            text: `❌ ${errorMessage}`
-                        }
-                    ],
-                    structuredContent: {
-                        success: false,
-                        message: errorMessage,
-                        error: errorMessage
-                    }
-                };
+                return errorResponse(`Error adding hub: ${(error as Error).message}`);
             }
         }
     );
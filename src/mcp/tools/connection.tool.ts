@@ -6,8 +6,9 @@
 import { ConnectionService } from '../../services/connection.service.js';
 import { HubDiscoveryService } from '../../services/hub-discovery.service.js';
 import { PlugwiseConfig } from '../../types/plugwise-types.js';
+import { z } from 'zod';
 import { ToolRegistry } from '../tool-registry.js';
-import { successResponse, errorResponse } from './tool-helpers.js';
+import { successResponse, errorResponse, successOutput } from './tool-helpers.js';
 
 export function registerConnectionTool(
     registry: ToolRegistry,
@@ -18,47 +19,66 @@ export function registerConnectionTool(
         'connect',
         {
             title: 'Connect to Plugwise Gateway',
-            description: 'Connect to a Plugwise gateway (Adam, Anna, Smile P1, or Stretch) and retrieve gateway information. If no host is provided, automatically connects to the first discovered hub. Returns detailed gateway information including model, type, version, hostname, and MAC address.',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    host: {
-                        type: 'string',
-                        description: 'IP address or hostname of the Plugwise gateway. If omitted, connects to first discovered hub from registry.'
-                    },
-                    password: {
-                        type: 'string',
-                        description: 'Password for the Plugwise gateway (typically the hub name). If omitted and host matches a discovered hub, uses stored password.'
-                    },
-                    port: {
-                        type: 'number',
-                        description: 'Port number (default: 80)'
-                    },
-                    username: {
-                        type: 'string',
-                        description: 'Username (default: smile)'
-                    }
-                }
-            }
+            category: 'admin',
+            annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+            anyHub: true,
+            description: 'Connect to a Plugwise gateway (Adam, Anna, Smile P1, or Stretch) and add it to the pool of connected hubs. Several hubs can be connected at the same time; other tools take an optional hub argument and otherwise use the default hub (the first connected hub unless another is made default). Pass hub to connect a registered hub by name; if neither host nor hub is provided, connects to the first discovered hub. Returns the hub name and detailed gateway information including model, type, version, hostname, and MAC address.',
+            inputSchema: z.object({
+                host: z.string().min(1).optional()
+                    .describe('IP address or hostname of the Plugwise gateway. If omitted, connects to first discovered hub from registry.'),
+                password: z.string().min(1).optional()
+                    .describe('Password for the Plugwise gateway (typically the hub name). If omitted and host matches a discovered hub, uses stored password.'),
+                port: z.number().int().min(1).max(65535).optional().describe('Port number (default: 80)'),
+                username: z.string().min(1).optional()
+                    .describe('Username (default: smile, falls back to stretch for legacy Stretch gateways)'),
+                hub: z.string().min(1).optional()
+                    .describe('Name of a registered hub to connect (see list_hubs). With host, the name the hub is pooled under.'),
+                make_default: z.boolean().optional()
+                    .describe('Make this hub the default hub for tools called without a hub argument')
+            }),
+            outputSchema: successOutput(z.object({
+                hub: z.string(),
+                default_hub: z.string().nullable(),
+                connected_hubs: z.array(z.string()),
+                gateway_info: z.object({
+                    name: z.string(),
+                    model: z.string(),
+                    type: z.string(),
+                    version: z.string(),
+                    hostname: z.string().optional(),
+                    mac_address: z.string().optional()
+                })
+            }))
         },
-        async ({ host, password, port, username }: {
-            host?: string;
-            password?: string;
-            port?: number;
-            username?: string;
-        }) => {
+        async ({ host, password, port, username, hub, make_default }) => {
             try {
                 let finalHost = host;
                 let finalPassword = password;
+                let finalPort = port;
+                let finalUsername = username;
+                let hubName = hub;
 
-                if (!finalHost && discoveryService.hasDiscoveredHubs()) {
+                if (!finalHost && hub) {
+                    const registeredHub = discoveryService.getDiscoveredHubs()
+                        .find(h => h.name.toLowerCase() === hub.toLowerCase());
+                    if (!registeredHub) {
+                        throw new Error(`Hub ${hub} is not registered. Use list_hubs to see registered hubs or provide a host.`);
+                    }
+                    finalHost = registeredHub.ip;
+                    finalPassword = finalPassword ?? registeredHub.password;
+                    finalPort = finalPort ?? registeredHub.port;
+                    finalUsername = finalUsername ?? registeredHub.username;
+                    hubName = registeredHub.name;
+                } else if (!finalHost && discoveryService.hasDiscoveredHubs()) {
                     const firstHub = discoveryService.getFirstHub();
                     if (firstHub) {
                         finalHost = firstHub.ip;
                         finalPassword = firstHub.password;
+                        finalPort = firstHub.port;
+                        finalUsername = firstHub.username;
                     }
                 } else if (finalHost && !finalPassword) {
-                    const discoveredHub = discoveryService.getHub(finalHost);
+                    const discoveredHub = discoveryService.getHub(finalHost, port);
                     if (discoveredHub) {
                         finalPassword = discoveredHub.password;
                     }
@@ -71,18 +91,26 @@ export function registerConnectionTool(
                 const config: PlugwiseConfig = {
                     host: finalHost,
                     password: finalPassword,
-                    port,
-                    username
+                    port: finalPort,
+                    username: finalUsername
                 };
 
-                const client = await connectionService.connect(config);
+                const client = await connectionService.connect(config, hubName);
                 const gatewayInfo = client.getGatewayInfo();
 
                 if (!gatewayInfo) {
                     throw new Error('Failed to retrieve gateway information');
                 }
 
+                const connectedHub = connectionService.getHubName(client)!;
+                if (make_default) {
+                    connectionService.setDefaultHub(connectedHub);
+                }
+
                 return successResponse({
+                    hub: connectedHub,
+                    default_hub: connectionService.getDefaultHub(),
+                    connected_hubs: connectionService.getConnections().map(c => c.name),
                     gateway_info: {
                         name: gatewayInfo.name,
                         model: gatewayInfo.model,
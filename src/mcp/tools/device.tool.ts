@@ -6,46 +6,57 @@
 import { ConnectionService } from '../../services/connection.service.js';
 import { DeviceStorageService } from '../../services/device-storage.service.js';
 import { HubDiscoveryService } from '../../services/hub-discovery.service.js';
+import { StatePollerService } from '../../services/state-poller.service.js';
+import { z } from 'zod';
 import { ToolRegistry } from '../tool-registry.js';
-import { successResponse, errorResponse } from './tool-helpers.js';
+import { successResponse, errorResponse, hubArgument, successOutput, entitySchema, freshnessSchema } from './tool-helpers.js';
 
 export function registerDeviceTools(
     registry: ToolRegistry, 
     connectionService: ConnectionService,
     deviceStorage: DeviceStorageService,
-    discoveryService: HubDiscoveryService
+    discoveryService: HubDiscoveryService,
+    statePoller: StatePollerService
 ) {
     registry.registerTool(
         'get_devices',
         {
             title: 'Get All Devices',
-            description: 'Retrieve all Plugwise devices and their current states, sensors, and capabilities. Returns comprehensive information for all connected devices including thermostats, switches, sensors, and other appliances. Includes current readings, capabilities, and operational states.',
-            inputSchema: {
-                type: 'object',
-                properties: {}
-            }
+            category: 'read',
+            annotations: { readOnlyHint: true },
+            description: 'Retrieve all Plugwise devices and their current states, sensors, and capabilities from the polled state of the hub; freshness tells when it was fetched. Returns comprehensive information for all connected devices including thermostats, switches, sensors, and other appliances. Includes current readings, capabilities, and operational states; binary_sensors report on/off states such as flame_state (boiler burning), heating_state, dhw_state and low_battery.',
+            inputSchema: z.object({
+                hub: hubArgument
+            }),
+            outputSchema: successOutput(
+                z.object({
+                    gateway_id: z.string(),
+                    heater_id: z.string().optional(),
+                    gateway_info: z.object({
+                        name: z.string(),
+                        model: z.string(),
+                        type: z.string(),
+                        version: z.string(),
+                        legacy: z.boolean()
+                    }).passthrough(),
+                    entities: z.record(entitySchema).describe('Devices and zones by ID')
+                }),
+                { freshness: freshnessSchema }
+            )
         },
-        async () => {
+        async ({ hub }) => {
             try {
-                const client = connectionService.ensureConnected();
-                const data = await client.getDevices();
-
-                // Try to determine hub name from connected client
-                const gatewayInfo = client.getGatewayInfo();
-                const hubName = gatewayInfo?.name || 'unknown';
-
-                // Get password from connection config
-                const config = connectionService.getConfig();
-                const password = config?.password;
+                const { data, freshness } = await statePoller.getData(hub);
+                const hubName = freshness.hub;
 
                 // Save devices to storage
                 try {
-                    await deviceStorage.saveDevices(hubName, data.entities, password);
+                    await deviceStorage.saveDevices(hubName, data.entities);
                 } catch (saveError) {
                     console.error('Failed to save devices:', saveError);
                 }
 
-                return successResponse(data);
+                return successResponse(data, { freshness });
             } catch (error) {
                 return errorResponse(error as Error);
             }
@@ -0,0 +1,129 @@
+/**
+ * Energy Tools
+ * Tools for energy consumption and cost reports
+ */
+
+import { ConnectionService } from '../../services/connection.service.js';
+import { EnergyReportService, ReportPeriod, REPORT_PERIODS } from '../../services/energy-report.service.js';
+import { HistoryService } from '../../services/history.service.js';
+import { z } from 'zod';
+import { ToolRegistry } from '../tool-registry.js';
+import { successResponse, errorResponse, parseTime, hubArgument, successOutput } from './tool-helpers.js';
+
+const energyFiguresSchema = z.object({
+    consumption: z.object({
+        electricity_kwh: z.number(),
+        electricity_peak_kwh: z.number().optional(),
+        electricity_off_peak_kwh: z.number().optional(),
+        gas_m3: z.number().optional()
+    }),
+    production: z.object({
+        electricity_kwh: z.number(),
+        electricity_peak_kwh: z.number().optional(),
+        electricity_off_peak_kwh: z.number().optional()
+    }),
+    net: z.object({
+        electricity_kwh: z.number()
+    }),
+    cost: z.object({
+        electricity_peak: z.number().optional(),
+        electricity_off_peak: z.number().optional(),
+        electricity: z.number().optional(),
+        gas: z.number().optional(),
+        feed_in: z.number().optional(),
+        total: z.number(),
+        missing_tariffs: z.array(z.string()).optional()
+    })
+});
+
+export function registerEnergyTools(
+    registry: ToolRegistry,
+    connectionService: ConnectionService,
+    historyService: HistoryService,
+    energyReportService: EnergyReportService
+) {
+    // Get Energy Report Tool
+    registry.registerTool(
+        'get_energy_report',
+        {
+            title: 'Get Energy Report',
+            category: 'read',
+            annotations: { readOnlyHint: true },
+            description: 'Get electricity and gas consumption, production, net usage and costs per day, week or month, computed from the meter counters in the local history store. Uses the P1 smart meter unless a device (e.g. a smart plug) is given. Costs use the configured peak/off-peak electricity, gas and feed-in tariffs, which can be overridden per call; production is subtracted as feed-in compensation. Periods are in server local time, weeks start on Monday; partial marks periods without a reading before their start or that have not ended yet.',
+            inputSchema: z.object({
+                period: z.enum(REPORT_PERIODS as [ReportPeriod, ...ReportPeriod[]]).default('day')
+                    .describe('Length of each reported period (default: day)'),
+                from: z.string().min(1).optional()
+                    .describe('Start of the report: ISO 8601 time or relative like -30d, rounded down to the start of its period (default: the last 7 days, 4 weeks or 3 months)'),
+                to: z.string().min(1).optional().describe('End of the report: ISO 8601 time or relative (default: now)'),
+                device: z.string().min(1).optional().describe('Device ID or name to report on (default: the smart meter)'),
+                tariffs: z.object({
+                    electricity_peak: z.number().min(0).optional().describe('Price per kWh at peak (normal) tariff'),
+                    electricity_off_peak: z.number().min(0).optional().describe('Price per kWh at off-peak (low) tariff'),
+                    electricity: z.number().min(0).optional().describe('Price per kWh for meters without a tariff split (default: peak price)'),
+                    gas: z.number().min(0).optional().describe('Price per m³ of gas'),
+                    feed_in: z.number().min(0).optional().describe('Compensation per kWh fed back into the grid'),
+                    currency: z.string().min(1).optional().describe('Currency of the prices (default: EUR)')
+                }).optional().describe('Tariffs overriding the configured ones, prices per kWh or m³'),
+                hub: hubArgument
+            }),
+            outputSchema: successOutput(z.object({
+                hub: z.string(),
+                device_id: z.string(),
+                device_name: z.string(),
+                period: z.enum(REPORT_PERIODS as [ReportPeriod, ...ReportPeriod[]]),
+                from: z.string(),
+                to: z.string(),
+                currency: z.string(),
+                tariffs: z.record(z.union([z.string(), z.number()])),
+                periods: z.array(energyFiguresSchema.extend({
+                    start: z.string(),
+                    end: z.string(),
+                    partial: z.boolean()
+                })),
+                totals: energyFiguresSchema
+            }))
+        },
+        async ({ period, from, to, device, tariffs, hub }) => {
+            try {
+                if (!historyService.isEnabled()) {
+                    throw new Error('Energy reports need the history store, which is disabled (PLUGWISE_HISTORY=false)');
+                }
+
+                const hubName = connectionService.resolveHubName(hub);
+                if (!hubName) {
+                    throw new Error('No hub given and no default hub. Pass the hub argument (see list_hubs).');
+                }
+
+                let entityId: string | undefined;
+                if (device) {
+                    const entities = await historyService.getEntities(hubName);
+                    entityId = entities[device]
+                        ? device
+                        : Object.keys(entities).find(id => entities[id].name.toLowerCase() === device.toLowerCase());
+                } else {
+                    entityId = await energyReportService.findMeter(hubName);
+                }
+                if (!entityId) {
+                    throw new Error(device
+                        ? `No history for ${device} on hub ${hubName}`
+                        : `Hub ${hubName} has no recorded smart meter. Pass a device with energy meter readings.`);
+                }
+
+                const now = new Date();
+                const report = await energyReportService.getReport({
+                    hub: hubName,
+                    entity: entityId,
+                    period,
+                    from: from ? parseTime(from, now) : undefined,
+                    to: to ? parseTime(to, now) : undefined,
+                    tariffs
+                });
+
+                return successResponse(report);
+            } catch (error) {
+                return errorResponse(error as Error);
+            }
+        }
+    );
+}
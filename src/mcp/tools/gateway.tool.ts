@@ -4,32 +4,71 @@
  */
 
 import { ConnectionService } from '../../services/connection.service.js';
-import { GatewayMode, DHWMode, RegulationMode } from '../../types/plugwise-types.js';
+import { StatePollerService } from '../../services/state-poller.service.js';
+import { z } from 'zod';
 import { ToolRegistry } from '../tool-registry.js';
-import { successResponse, errorResponse } from './tool-helpers.js';
+import { successResponse, errorResponse, hubArgument, successOutput, acknowledgedOutput } from './tool-helpers.js';
+
+const modeOptionsSchema = z.object({
+    selected: z.string().optional(),
+    options: z.array(z.string())
+});
+
+export function registerGatewayTools(registry: ToolRegistry, connectionService: ConnectionService, statePoller: StatePollerService) {
+    registry.registerTool(
+        'get_gateway_status',
+        {
+            title: 'Get Gateway Status',
+            category: 'read',
+            annotations: { readOnlyHint: true },
+            description: 'Get the gateway details and its current gateway, regulation and domestic hot water (DHW) modes, with the options this specific gateway supports. Use this before changing a mode; modes that are missing are not supported by the gateway.',
+            inputSchema: z.object({
+                hub: hubArgument
+            }),
+            outputSchema: successOutput(z.object({
+                gateway_id: z.string(),
+                gateway_info: z.object({
+                    name: z.string(),
+                    model: z.string(),
+                    type: z.string(),
+                    version: z.string(),
+                    legacy: z.boolean()
+                }).passthrough(),
+                gateway_mode: modeOptionsSchema.optional(),
+                regulation_mode: modeOptionsSchema.optional(),
+                dhw_mode: modeOptionsSchema.optional(),
+                notification_count: z.number()
+            }))
+        },
+        async ({ hub }) => {
+            try {
+                const client = await connectionService.ensureConnected(hub);
+                const status = await client.getGatewayStatus();
+                return successResponse(status);
+            } catch (error) {
+                return errorResponse(error as Error);
+            }
+        }
+    );
 
-export function registerGatewayTools(registry: ToolRegistry, connectionService: ConnectionService) {
     registry.registerTool(
         'set_gateway_mode',
         {
             title: 'Set Gateway Mode',
-            description: 'Set the gateway mode (home, away, vacation). This is a system-wide setting that affects all zones and presets. Home mode uses normal schedules, away mode uses reduced temperatures, and vacation mode provides minimal heating/cooling.',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    mode: {
-                        type: 'string',
-                        enum: ['home', 'away', 'vacation'],
-                        description: 'Gateway mode: "home" for normal operation, "away" for temporary absence, "vacation" for extended absence'
-                    }
-                },
-                required: ['mode']
-            }
+            category: 'climate',
+            annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+            description: 'Set the gateway mode, a system-wide setting that affects all zones and presets. Adam gateways typically offer "full" for normal operation, "away" for temporary absence and "vacation" for extended absence. Only modes listed by get_gateway_status are accepted.',
+            inputSchema: z.object({
+                mode: z.string().min(1).describe('Gateway mode, one of the gateway_mode options from get_gateway_status'),
+                hub: hubArgument
+            }),
+            outputSchema: acknowledgedOutput
         },
-        async ({ mode }: { mode: 'home' | 'away' | 'vacation' }) => {
+        async ({ mode, hub }) => {
             try {
-                const client = connectionService.ensureConnected();
-                await client.setGatewayMode(mode as GatewayMode);
+                const client = await connectionService.ensureConnected(hub);
+                await client.setGatewayMode(mode);
+                statePoller.invalidate(hub);
                 return successResponse({ success: true });
             } catch (error) {
                 return errorResponse(error as Error);
@@ -41,23 +80,20 @@ export function registerGatewayTools(registry: ToolRegistry, connectionService:
         'set_dhw_mode',
         {
             title: 'Set DHW Mode',
-            description: 'Set the domestic hot water (DHW) heating mode for systems with hot water control. Auto mode follows the schedule, boost mode provides immediate hot water heating, comfort mode maintains higher temperature, and off mode disables DHW heating.',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    mode: {
-                        type: 'string',
-                        enum: ['auto', 'boost', 'comfort', 'off'],
-                        description: 'DHW mode: "auto" follows schedule, "boost" for immediate heating, "comfort" for higher temperature, "off" to disable'
-                    }
-                },
-                required: ['mode']
-            }
+            category: 'climate',
+            annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+            description: 'Set the domestic hot water (DHW) heating mode for systems with hot water control, e.g. "auto" to follow the schedule, "boost" for immediate heating, "comfort" to keep water hot, "off" to disable. Only modes listed by get_gateway_status are accepted.',
+            inputSchema: z.object({
+                mode: z.string().min(1).describe('DHW mode, one of the dhw_mode options from get_gateway_status'),
+                hub: hubArgument
+            }),
+            outputSchema: acknowledgedOutput
         },
-        async ({ mode }: { mode: 'auto' | 'boost' | 'comfort' | 'off' }) => {
+        async ({ mode, hub }) => {
             try {
-                const client = connectionService.ensureConnected();
-                await client.setDHWMode(mode as DHWMode);
+                const client = await connectionService.ensureConnected(hub);
+                await client.setDHWMode(mode);
+                statePoller.invalidate(hub);
                 return successResponse({ success: true });
             } catch (error) {
                 return errorResponse(error as Error);
@@ -69,23 +105,20 @@ export function registerGatewayTools(registry: ToolRegistry, connectionService:
         'set_regulation_mode',
         {
             title: 'Set Regulation Mode',
-            description: 'Set the heating regulation mode. Controls the overall heating system behavior. Use "heating" for normal operation, "off" to disable heating, or bleeding modes for system maintenance.',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    mode: {
-                        type: 'string',
-                        enum: ['heating', 'off', 'bleeding_cold', 'bleeding_hot'],
-                        description: 'Regulation mode: "heating" for normal operation, "off" to disable, "bleeding_cold"/"bleeding_hot" for maintenance'
-                    }
-                },
-                required: ['mode']
-            }
+            category: 'climate',
+            annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+            description: 'Set the heating regulation mode. Controls the overall heating system behavior, e.g. "heating" for normal operation, "off" to disable heating, or bleeding modes for system maintenance. Only modes listed by get_gateway_status are accepted.',
+            inputSchema: z.object({
+                mode: z.string().min(1).describe('Regulation mode, one of the regulation_mode options from get_gateway_status'),
+                hub: hubArgument
+            }),
+            outputSchema: acknowledgedOutput
         },
-        async ({ mode }: { mode: 'heating' | 'off' | 'bleeding_cold' | 'bleeding_hot' }) => {
+        async ({ mode, hub }) => {
             try {
-                const client = connectionService.ensureConnected();
-                await client.setRegulationMode(mode as RegulationMode);
+                const client = await connectionService.ensureConnected(hub);
+                await client.setRegulationMode(mode);
+                statePoller.invalidate(hub);
                 return successResponse({ success: true });
             } catch (error) {
                 return errorResponse(error as Error);
@@ -93,20 +126,52 @@ export function registerGatewayTools(registry: ToolRegistry, connectionService:
         }
     );
 
+    registry.registerTool(
+        'list_notifications',
+        {
+            title: 'List Notifications',
+            category: 'read',
+            annotations: { readOnlyHint: true },
+            description: 'List the active gateway notifications (warnings and errors such as low batteries or unreachable devices) with their ID, type, message and timestamp.',
+            inputSchema: z.object({
+                hub: hubArgument
+            }),
+            outputSchema: successOutput(z.array(z.object({
+                id: z.string(),
+                type: z.string(),
+                message: z.string(),
+                timestamp: z.string().optional()
+            })))
+        },
+        async ({ hub }) => {
+            try {
+                const client = await connectionService.ensureConnected(hub);
+                const notifications = await client.getNotifications();
+                return successResponse(notifications);
+            } catch (error) {
+                return errorResponse(error as Error);
+            }
+        }
+    );
+
     registry.registerTool(
         'delete_notification',
         {
             title: 'Delete Notification',
-            description: 'Delete all gateway notifications. Use this to clear error messages or warnings from the Plugwise gateway.',
-            inputSchema: {
-                type: 'object',
-                properties: {}
-            }
+            category: 'admin',
+            annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+            description: 'Dismiss a gateway notification by ID (see list_notifications), or all notifications when no ID is given. Use this to clear error messages or warnings from the Plugwise gateway.',
+            inputSchema: z.object({
+                notification_id: z.string().min(1).optional().describe('ID of the notification to dismiss, omit to dismiss all'),
+                hub: hubArgument
+            }),
+            outputSchema: acknowledgedOutput
         },
-        async () => {
+        async ({ notification_id, hub }) => {
             try {
-                const client = connectionService.ensureConnected();
-                await client.deleteNotification();
+                const client = await connectionService.ensureConnected(hub);
+                await client.deleteNotification(notification_id);
+                statePoller.invalidate(hub);
                 return successResponse({ success: true });
             } catch (error) {
                 return errorResponse(error as Error);
@@ -118,15 +183,20 @@ export function registerGatewayTools(registry: ToolRegistry, connectionService:
         'reboot_gateway',
         {
             title: 'Reboot Gateway',
+            category: 'admin',
+            annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
             description: 'Reboot the Plugwise gateway. Use with caution as this will temporarily disconnect all devices and interrupt heating/cooling control. The gateway typically takes 1-2 minutes to fully restart.',
-            inputSchema: {
-                type: 'object',
-                properties: {}
-            }
+            inputSchema: z.object({
+                hub: hubArgument
+            }),
+            outputSchema: successOutput(z.object({
+                success: z.boolean(),
+                message: z.string()
+            }))
         },
-        async () => {
+        async ({ hub }) => {
             try {
-                const client = connectionService.ensureConnected();
+                const client = await connectionService.ensureConnected(hub);
                 await client.rebootGateway();
                 return successResponse({ success: true, message: 'Gateway reboot initiated' });
             } catch (error) {
@@ -0,0 +1,99 @@
+/**
+ * History Tools
+ * Tools for querying recorded sensor measurements
+ */
+
+import { ConnectionService } from '../../services/connection.service.js';
+import { HistoryService } from '../../services/history.service.js';
+import { z } from 'zod';
+import { ToolRegistry } from '../tool-registry.js';
+import { successResponse, errorResponse, parseTime, hubArgument, successOutput } from './tool-helpers.js';
+
+export function registerHistoryTools(
+    registry: ToolRegistry,
+    connectionService: ConnectionService,
+    historyService: HistoryService
+) {
+    // Get History Tool
+    registry.registerTool(
+        'get_history',
+        {
+            title: 'Get Sensor History',
+            category: 'read',
+            annotations: { readOnlyHint: true },
+            description: 'Get recorded sensor values of a device or zone over a time range from the local history store, without contacting the gateway. Sensors are the keys of the sensors and binary_sensors of get_devices (binary sensors are recorded as 1/0). Recent data is at full resolution; data older than the raw retention is hourly (mean, or last value for cumulative meters, with min/max). Long ranges are downsampled to max_points per sensor.',
+            inputSchema: z.object({
+                device: z.string().min(1).describe('Device or zone ID or name, e.g. "Living room"'),
+                sensor: z.string().min(1).optional()
+                    .describe('Sensor key such as temperature, setpoint, humidity or electricity_consumed. Omit for all recorded sensors.'),
+                from: z.string().min(1).optional()
+                    .describe('Start of the range: ISO 8601 time or relative like -12h, -30m, -7d (default: -24h)'),
+                to: z.string().min(1).optional().describe('End of the range: ISO 8601 time or relative (default: now)'),
+                max_points: z.number().int().positive().optional().describe('Maximum number of points per sensor (default: 500)'),
+                hub: hubArgument
+            }),
+            outputSchema: successOutput(z.object({
+                hub: z.string(),
+                device_id: z.string(),
+                device_name: z.string(),
+                from: z.string(),
+                to: z.string(),
+                series: z.array(z.object({
+                    sensor: z.string(),
+                    resolution: z.enum(['raw', 'hourly', 'downsampled']),
+                    points: z.array(z.object({
+                        timestamp: z.string(),
+                        value: z.number(),
+                        min: z.number().optional(),
+                        max: z.number().optional()
+                    }))
+                }))
+            }))
+        },
+        async ({ device, sensor, from, to, max_points, hub }) => {
+            try {
+                if (!historyService.isEnabled()) {
+                    throw new Error('History is disabled (PLUGWISE_HISTORY=false)');
+                }
+
+                const hubName = connectionService.resolveHubName(hub);
+                if (!hubName) {
+                    throw new Error('No hub given and no default hub. Pass the hub argument (see list_hubs).');
+                }
+
+                const entities = await historyService.getEntities(hubName);
+                const entityId = entities[device]
+                    ? device
+                    : Object.keys(entities).find(id => entities[id].name.toLowerCase() === device.toLowerCase());
+                if (!entityId) {
+                    const names = Object.values(entities).map(entity => entity.name);
+                    throw new Error(`No history for ${device} on hub ${hubName}. Recorded: ${names.join(', ') || 'none'}`);
+                }
+
+                const now = new Date();
+                const rangeStart = parseTime(from ?? '-24h', now);
+                const rangeEnd = to ? parseTime(to, now) : now;
+
+                const series = await historyService.query({
+                    hub: hubName,
+                    entity: entityId,
+                    sensors: sensor ? [sensor] : undefined,
+                    from: rangeStart,
+                    to: rangeEnd,
+                    maxPoints: max_points
+                });
+
+                return successResponse({
+                    hub: hubName,
+                    device_id: entityId,
+                    device_name: entities[entityId].name,
+                    from: rangeStart.toISOString(),
+                    to: rangeEnd.toISOString(),
+                    series
+                });
+            } catch (error) {
+                return errorResponse(error as Error);
+            }
+        }
+    );
+}
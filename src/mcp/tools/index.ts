@@ -10,9 +10,16 @@ import { registerDeviceTools } from './device.tool.js';
 import { registerTemperatureTools } from './temperature.tool.js';
 import { registerSwitchTools } from './switch.tool.js';
 import { registerGatewayTools } from './gateway.tool.js';
+import { registerScheduleTools } from './schedule.tool.js';
+import { registerZoneTools } from './zone.tool.js';
+import { registerHistoryTools } from './history.tool.js';
+import { registerEnergyTools } from './energy.tool.js';
 import { ConnectionService } from '../../services/connection.service.js';
 import { HubDiscoveryService } from '../../services/hub-discovery.service.js';
 import { DeviceStorageService } from '../../services/device-storage.service.js';
+import { StatePollerService } from '../../services/state-poller.service.js';
+import { HistoryService } from '../../services/history.service.js';
+import { EnergyReportService } from '../../services/energy-report.service.js';
 
 /**
  * Register all MCP tools with the server
@@ -21,18 +28,25 @@ export function registerAllTools(
     server: any,
     connectionService: ConnectionService,
     discoveryService: HubDiscoveryService,
-    deviceStorage: DeviceStorageService
+    deviceStorage: DeviceStorageService,
+    statePoller: StatePollerService,
+    historyService: HistoryService,
+    energyReportService: EnergyReportService
 ): void {
     // Network and connection tools
     registerAddHubTool(server, discoveryService);
-    registerListHubsTool(server, discoveryService);
+    registerListHubsTool(server, discoveryService, connectionService);
     registerConnectionTool(server, connectionService, discoveryService);
 
     // Device tools
-    registerDeviceTools(server, connectionService, deviceStorage, discoveryService);
+    registerDeviceTools(server, connectionService, deviceStorage, discoveryService, statePoller);
+    registerZoneTools(server, statePoller);
+    registerHistoryTools(server, connectionService, historyService);
+    registerEnergyTools(server, connectionService, historyService, energyReportService);
 
     // Control tools
-    registerTemperatureTools(server, connectionService);
-    registerSwitchTools(server, connectionService);
-    registerGatewayTools(server, connectionService);
+    registerTemperatureTools(server, connectionService, statePoller);
+    registerSwitchTools(server, connectionService, statePoller);
+    registerScheduleTools(server, connectionService, statePoller);
+    registerGatewayTools(server, connectionService, statePoller);
 }
@@ -3,25 +3,73 @@
  * Tool for listing all registered Plugwise hubs
  */
 
-import { HubDiscoveryService } from '../../services/hub-discovery.service.js';
-import { ToolRegistry } from '../tool-registry.js';
+import { ConnectionService } from '../../services/connection.service.js';
+import { HubDiscoveryService, DiscoveredHub, hubAddress } from '../../services/hub-discovery.service.js';
+import { z } from 'zod';
+import { ToolContext, ToolRegistry } from '../tool-registry.js';
+import { errorResponse } from './tool-helpers.js';
 
-export function registerListHubsTool(registry: ToolRegistry, discoveryService: HubDiscoveryService) {
+export function registerListHubsTool(
+    registry: ToolRegistry,
+    discoveryService: HubDiscoveryService,
+    connectionService: ConnectionService
+) {
     registry.registerTool(
         'list_hubs',
         {
             title: 'List Registered Hubs',
-            description: 'List all registered Plugwise hubs from the /hubs folder and in-memory registry. Returns hub information including name, IP address, model, and firmware version for each discovered hub.',
-            inputSchema: {
-                type: 'object',
-                properties: {}
-            }
+            category: 'read',
+            annotations: { readOnlyHint: true },
+            description: 'List all registered Plugwise hubs from the /hubs folder and in-memory registry, plus any other connected hubs; with a token limited to hubs, only those hubs. Returns hub information including name, IP address, model, firmware version, whether the hub is connected and which hub is the default for tools called without a hub argument.',
+            inputSchema: z.object({}),
+            outputSchema: z.object({
+                success: z.literal(true),
+                hubs: z.array(z.object({
+                    name: z.string(),
+                    ip: z.string(),
+                    alias: z.string().optional(),
+                    model: z.string(),
+                    firmware: z.string(),
+                    connected: z.boolean(),
+                    default: z.boolean()
+                })),
+                default_hub: z.string().nullable().optional(),
+                count: z.number(),
+                message: z.string()
+            })
         },
-        async () => {
+        async (_args, { canUseHub }: ToolContext) => {
             try {
                 await discoveryService.loadAllHubsFromFiles();
                 
-                const hubs = discoveryService.getDiscoveredHubs();
+                const registered: DiscoveredHub[] = discoveryService.getDiscoveredHubs();
+
+                // Hubs connected by host are not in the registry
+                for (const connection of connectionService.getConnections()) {
+                    const address = hubAddress(connection.config.host, connection.config.port);
+                    if (!registered.some(hub => hubAddress(hub.ip, hub.port) === address)) {
+                        const gatewayInfo = connection.client.getGatewayInfo();
+                        registered.push({
+                            name: connection.name,
+                            ip: connection.config.host,
+                            port: connection.config.port,
+                            password: connection.config.password,
+                            model: gatewayInfo?.model,
+                            firmware: gatewayInfo?.version,
+                            discoveredAt: connection.connectedAt
+                        });
+                    }
+                }
+
+                const connectionOf = (hub: DiscoveredHub) => connectionService.getConnections()
+                    .find(c => hubAddress(c.config.host, c.config.port) === hubAddress(hub.ip, hub.port));
+                const hubName = (hub: DiscoveredHub) => connectionOf(hub)?.name ?? hub.name;
+                const isConnected = (hub: DiscoveredHub) => connectionOf(hub) !== undefined;
+
+                // A token limited to hubs only sees those, named or by alias
+                const hubs = registered.filter(hub => canUseHub(hubName(hub)) || (hub.alias !== undefined && canUseHub(hub.alias)));
+                const defaultHub = connectionService.getDefaultHub();
+                const visibleDefault = defaultHub !== null && canUseHub(defaultHub) ? defaultHub : null;
 
                 if (hubs.length === 0) {
                     const message = `📋 No hubs registered yet.
@@ -45,17 +93,18 @@ Use /addhub <hub-name> to add a new hub.`;
                 }
 
                 const hubList = hubs.map((hub, index) => 
-                    `  ${index + 1}. ${hub.name}
-     IP: ${hub.ip}
+                    `  ${index + 1}. ${hubName(hub)}${hubName(hub) === visibleDefault ? ' (default)' : ''}
+     IP: ${hub.ip}${hub.alias ? `\n     Alias: ${hub.alias}` : ''}
      Model: ${hub.model || 'Unknown'}
-     Firmware: ${hub.firmware || 'Unknown'}`
+     Firmware: ${hub.firmware || 'Unknown'}
+     Connected: ${isConnected(hub) ? 'yes' : 'no'}`
                 ).join('\n\n');
 
                 const message = `📋 Registered Hubs (${hubs.length})
 
 ${hubList}
 
-Use /connect with the IP address to connect to a hub.`;
+Pass the hub name as the hub argument of a tool to use a hub other than the default.`;
 
                 return {
                     content: [
@@ -67,32 +116,21 @@ Use /connect with the IP address to connect to a hub.`;
                     structuredContent: {
                         success: true,
                         hubs: hubs.map(hub => ({
-                            name: hub.name,
+                            name: hubName(hub),
                             ip: hub.ip,
+                            alias: hub.alias,
                             model: hub.model || 'Unknown',
-                            firmware: hub.firmware || 'Unknown'
+                            firmware: hub.firmware || 'Unknown',
+                            connected: isConnected(hub),
+                            default: hubName(hub) === visibleDefault
                         })),
+                        default_hub: visibleDefault,
                         count: hubs.length,
                         message: `Found ${hubs.length} hub(s)`
                     }
                 };
             } catch (error) {
-                const errorMessage = `Error listing hubs: ${(error as Error).message}`;
-                return {
-                    content: [
-                        {
-                            type: 'text',
-                            text: `❌ ${errorMessage}`
-                        }
-                    ],
-                    structuredContent: {
-                        success: false,
-                        hubs: [],
-                        count: 0,
-                        message: errorMessage
-                    },
-                    isError: true
-                };
+                return errorResponse(`Error listing hubs: ${(error as Error).message}`);
             }
         }
     );
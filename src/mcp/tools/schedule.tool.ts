@@ -0,0 +1,225 @@
+/**
+ * Schedule Tools
+ * Tools for listing, inspecting, authoring and (de)activating weekly schedules
+ */
+
+import { ConnectionService } from '../../services/connection.service.js';
+import { ScheduleBlock, ScheduleDay } from '../../types/plugwise-types.js';
+import { SCHEDULE_DAYS } from '../../client/parsers/schedule-parser.js';
+import { SCHEDULE_PRESETS } from '../../client/schedule-builder.js';
+import { StatePollerService } from '../../services/state-poller.service.js';
+import { getSafetyLimits } from '../../config/environment.js';
+import { z } from 'zod';
+import { ToolRegistry } from '../tool-registry.js';
+import {
+    successResponse,
+    errorResponse,
+    checkSafetyLimit,
+    hubArgument,
+    setpointArgument,
+    successOutput,
+    acknowledgedOutput
+} from './tool-helpers.js';
+
+const DAY_GROUPS: Record<string, ScheduleDay[]> = {
+    weekdays: ['mo', 'tu', 'we', 'th', 'fr'],
+    weekend: ['sa', 'su'],
+    all: SCHEDULE_DAYS
+};
+
+const presetArgument = z.enum(SCHEDULE_PRESETS as [string, ...string[]]);
+
+const blockArgument = z.object({
+    days: z.array(z.enum([...SCHEDULE_DAYS, ...Object.keys(DAY_GROUPS)] as [string, ...string[]])).min(1)
+        .describe('Days the block applies to (mo..su, or weekdays, weekend, all)'),
+    start: z.string().min(1).describe('Start time, e.g. 07:00'),
+    end: z.string().min(1).describe('End time, e.g. 18:00'),
+    preset: presetArgument.optional().describe('Preset to use during the block'),
+    setpoint: setpointArgument.optional().describe('Setpoint in Celsius to use during the block (instead of a preset)')
+});
+
+type ScheduleBlockInput = z.infer<typeof blockArgument>;
+
+const scheduleSummary = {
+    id: z.string(),
+    name: z.string(),
+    description: z.string().optional(),
+    template_id: z.string().optional(),
+    active: z.boolean(),
+    locations: z.array(z.string()).describe('IDs of the zones following the schedule')
+};
+
+const scheduleSchema = z.object({
+    ...scheduleSummary,
+    blocks: z.array(z.object({
+        day: z.string(),
+        start: z.string(),
+        end: z.string(),
+        preset: z.string().optional(),
+        setpoint: z.number().optional()
+    }))
+});
+
+/**
+ * Expand blocks covering several days into one block per day
+ */
+function expandBlocks(blocks: ScheduleBlockInput[]): ScheduleBlock[] {
+    return blocks.flatMap(({ days, ...block }) =>
+        [...new Set(days.flatMap(day => DAY_GROUPS[day] ?? [day as ScheduleDay]))]
+            .map(day => ({ day, ...block }))
+    );
+}
+
+export function registerScheduleTools(registry: ToolRegistry, connectionService: ConnectionService, statePoller: StatePollerService) {
+    // List Schedules Tool
+    registry.registerTool(
+        'list_schedules',
+        {
+            title: 'List Schedules',
+            category: 'read',
+            annotations: { readOnlyHint: true },
+            description: 'List the weekly heating schedules configured on the gateway, with the zones each schedule is active for. Optionally filter on a location to see which schedules it can select and which one is selected.',
+            inputSchema: z.object({
+                location_id: z.string().min(1).optional()
+                    .describe('Optional ID of a location/zone to show available and selected schedules for'),
+                hub: hubArgument
+            }),
+            outputSchema: successOutput(z.object({
+                location_id: z.string().optional(),
+                location_name: z.string().optional(),
+                available_schedules: z.array(z.string()).optional(),
+                select_schedule: z.string().optional(),
+                schedules: z.array(z.object({ ...scheduleSummary, block_count: z.number() }))
+            }))
+        },
+        async ({ location_id, hub }) => {
+            try {
+                const client = await connectionService.ensureConnected(hub);
+                const schedules = await client.getSchedules();
+                const summaries = schedules.map(({ blocks, ...schedule }) => ({
+                    ...schedule,
+                    block_count: blocks.length
+                }));
+
+                if (!location_id) {
+                    return successResponse({ schedules: summaries });
+                }
+
+                const data = await client.getDevices();
+                const location = data.entities[location_id];
+                if (!location) {
+                    throw new Error(`Location ${location_id} not found`);
+                }
+
+                return successResponse({
+                    location_id,
+                    location_name: location.name,
+                    available_schedules: location.available_schedules ?? [],
+                    select_schedule: location.select_schedule,
+                    schedules: summaries
+                });
+            } catch (error) {
+                return errorResponse(error as Error);
+            }
+        }
+    );
+
+    // Get Schedule Tool
+    registry.registerTool(
+        'get_schedule',
+        {
+            title: 'Get Schedule',
+            category: 'read',
+            annotations: { readOnlyHint: true },
+            description: 'Get the full weekly program of a schedule: per day the time blocks with the preset or setpoint that applies. Times are local gateway time, blocks end exclusive.',
+            inputSchema: z.object({
+                schedule: z.string().min(1).describe('Name or ID of the schedule'),
+                hub: hubArgument
+            }),
+            outputSchema: successOutput(scheduleSchema)
+        },
+        async ({ schedule, hub }) => {
+            try {
+                const client = await connectionService.ensureConnected(hub);
+                const result = await client.getSchedule(schedule);
+                return successResponse(result);
+            } catch (error) {
+                return errorResponse(error as Error);
+            }
+        }
+    );
+
+    // Set Schedule State Tool
+    registry.registerTool(
+        'set_schedule_state',
+        {
+            title: 'Set Schedule State',
+            category: 'climate',
+            annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+            description: 'Turn the weekly schedule of a zone on or off. When turning on, the given schedule is used, otherwise the last active or only schedule. A zone follows at most one schedule, activating one deactivates the others for that zone.',
+            inputSchema: z.object({
+                location_id: z.string().min(1).describe('ID of the location/zone'),
+                state: z.enum(['on', 'off']).describe('Whether the zone should follow a schedule'),
+                schedule_name: z.string().min(1).optional().describe('Name of the schedule to activate (see list_schedules)'),
+                hub: hubArgument
+            }),
+            outputSchema: acknowledgedOutput
+        },
+        async ({ location_id, state, schedule_name, hub }) => {
+            try {
+                const client = await connectionService.ensureConnected(hub);
+                await client.setScheduleState(location_id, state, schedule_name);
+                statePoller.invalidate(hub);
+                return successResponse({ success: true });
+            } catch (error) {
+                return errorResponse(error as Error);
+            }
+        }
+    );
+
+    // Save Schedule Tool
+    registry.registerTool(
+        'save_schedule',
+        {
+            title: 'Save Schedule',
+            category: 'climate',
+            annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+            description: 'Create a weekly schedule, or replace the program of an existing schedule with the same name. Define the week as blocks of days and times with a preset or setpoint, every day must be fully covered: use fill_preset or fill_setpoint for the remaining hours. Example: an office heating 07:00-18:00 on weekdays is one block {days: ["weekdays"], start: "07:00", end: "18:00", preset: "home"} with fill_preset "away". Setpoints are checked against the thermostat limits.',
+            inputSchema: z.object({
+                name: z.string().min(1).describe('Schedule name, an existing schedule with this name is updated'),
+                description: z.string().optional().describe('Optional description'),
+                blocks: z.array(blockArgument)
+                    .describe('Time blocks of the week program, times are HH:MM and end exclusive (24:00 for end of day)'),
+                fill_preset: presetArgument.optional().describe('Preset for all hours not covered by a block'),
+                fill_setpoint: setpointArgument.optional().describe('Setpoint in Celsius for all hours not covered by a block'),
+                location_ids: z.array(z.string().min(1)).optional()
+                    .describe('Zones to activate the schedule for. Omit to keep the current zones, pass an empty list to deactivate.'),
+                hub: hubArgument
+            }),
+            outputSchema: successOutput(scheduleSchema)
+        },
+        async ({ name, description, blocks, fill_preset, fill_setpoint, location_ids, hub }) => {
+            try {
+                const { min_setpoint, max_setpoint } = getSafetyLimits();
+                checkSafetyLimit('fill_setpoint', fill_setpoint, min_setpoint, max_setpoint);
+                blocks.forEach(block => checkSafetyLimit('block setpoint', block.setpoint, min_setpoint, max_setpoint));
+
+                const client = await connectionService.ensureConnected(hub);
+                const fill = fill_preset !== undefined || fill_setpoint !== undefined
+                    ? { preset: fill_preset, setpoint: fill_setpoint }
+                    : undefined;
+                const schedule = await client.saveSchedule({
+                    name,
+                    description,
+                    blocks: expandBlocks(blocks),
+                    fill,
+                    location_ids
+                });
+                statePoller.invalidate(hub);
+                return successResponse(schedule);
+            } catch (error) {
+                return errorResponse(error as Error);
+            }
+        }
+    );
+}
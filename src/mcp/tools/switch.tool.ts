@@ -4,47 +4,40 @@
  */
 
 import { ConnectionService } from '../../services/connection.service.js';
+import { StatePollerService } from '../../services/state-poller.service.js';
+import { z } from 'zod';
 import { ToolRegistry } from '../tool-registry.js';
-import { successResponse, errorResponse } from './tool-helpers.js';
+import { successResponse, errorResponse, hubArgument, successOutput } from './tool-helpers.js';
 
-export function registerSwitchTools(registry: ToolRegistry, connectionService: ConnectionService) {
+export function registerSwitchTools(registry: ToolRegistry, connectionService: ConnectionService, statePoller: StatePollerService) {
     registry.registerTool(
         'control_switch',
         {
             title: 'Control Switch',
+            category: 'switches',
+            annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
             description: 'Turn a switch or relay on or off. Works with Plugwise switches, relays, and smart plugs. Use this to control any switchable device in your Plugwise network.',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    appliance_id: {
-                        type: 'string',
-                        description: 'ID of the appliance/device to control'
-                    },
-                    state: {
-                        type: 'string',
-                        enum: ['on', 'off'],
-                        description: 'Desired state: "on" to turn on, "off" to turn off'
-                    },
-                    model: {
-                        type: 'string',
-                        description: 'Switch model type (default: relay). Options: relay, switch, plug'
-                    }
-                },
-                required: ['appliance_id', 'state']
-            }
+            inputSchema: z.object({
+                appliance_id: z.string().min(1).describe('ID of the appliance/device to control'),
+                state: z.enum(['on', 'off']).describe('Desired state: "on" to turn on, "off" to turn off'),
+                model: z.enum(['relay', 'lock']).optional()
+                    .describe('What to switch (default: relay). "relay" turns the device on/off, "lock" locks/unlocks the relay so it cannot be switched'),
+                hub: hubArgument
+            }),
+            outputSchema: successOutput(z.object({
+                success: z.boolean(),
+                new_state: z.boolean().describe('State of the relay or lock after the change')
+            }))
         },
-        async ({ appliance_id, state, model }: {
-            appliance_id: string;
-            state: 'on' | 'off';
-            model?: string;
-        }) => {
+        async ({ appliance_id, state, model, hub }) => {
             try {
-                const client = connectionService.ensureConnected();
+                const client = await connectionService.ensureConnected(hub);
                 const newState = await client.setSwitchState({
                     appliance_id,
                     state,
                     model
                 });
+                statePoller.invalidate(hub);
                 return successResponse({ success: true, new_state: newState });
             } catch (error) {
                 return errorResponse(error as Error);
@@ -4,48 +4,67 @@
  */
 
 import { ConnectionService } from '../../services/connection.service.js';
+import { StatePollerService } from '../../services/state-poller.service.js';
+import { getSafetyLimits } from '../../config/environment.js';
+import { z } from 'zod';
 import { ToolRegistry } from '../tool-registry.js';
-import { successResponse, errorResponse } from './tool-helpers.js';
+import {
+    successResponse,
+    errorResponse,
+    checkSafetyLimit,
+    hubArgument,
+    setpointArgument,
+    successOutput,
+    acknowledgedOutput,
+    freshnessSchema
+} from './tool-helpers.js';
 
-export function registerTemperatureTools(registry: ToolRegistry, connectionService: ConnectionService) {
+const temperatureReading = {
+    device_id: z.string(),
+    device_name: z.string(),
+    current_temperature: z.number().optional(),
+    target_setpoint: z.number().optional(),
+    setpoint_low: z.number().optional(),
+    setpoint_high: z.number().optional(),
+    control_state: z.string().optional(),
+    climate_mode: z.string().optional()
+};
+
+export function registerTemperatureTools(registry: ToolRegistry, connectionService: ConnectionService, statePoller: StatePollerService) {
     // Set Temperature Tool
     registry.registerTool(
         'set_temperature',
         {
             title: 'Set Temperature',
-            description: 'Set the temperature setpoint on a thermostat or zone. Supports single setpoint for heating/cooling systems, or separate low/high setpoints for heat pump systems. Changes take effect immediately.',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    location_id: {
-                        type: 'string',
-                        description: 'ID of the location/zone to control'
-                    },
-                    setpoint: {
-                        type: 'number',
-                        description: 'Temperature setpoint in Celsius for single-setpoint systems'
-                    },
-                    setpoint_low: {
-                        type: 'number',
-                        description: 'Low temperature setpoint (heating) in Celsius for heat pump systems'
-                    },
-                    setpoint_high: {
-                        type: 'number',
-                        description: 'High temperature setpoint (cooling) in Celsius for heat pump systems'
-                    }
-                },
-                required: ['location_id']
-            }
+            category: 'climate',
+            annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+            description: 'Set the temperature setpoint on a thermostat or zone. Use setpoint for a single target. Heat pump systems that can cool (climate_mode heat_cool) report setpoint_low (heating) and setpoint_high (cooling): only the one matching the current mode can be changed, setpoint_high while cooling is enabled and setpoint_low otherwise. Changes take effect immediately.',
+            inputSchema: z.object({
+                location_id: z.string().min(1)
+                    .describe('ID of the location/zone to control, or of a thermostat device in that zone'),
+                setpoint: setpointArgument.optional()
+                    .describe('Temperature setpoint in Celsius for single-setpoint systems'),
+                setpoint_low: setpointArgument.optional()
+                    .describe('Heating setpoint in Celsius, used when cooling is not enabled'),
+                setpoint_high: setpointArgument.optional()
+                    .describe('Cooling setpoint in Celsius, used while cooling is enabled'),
+                hub: hubArgument
+            }).refine(
+                args => args.setpoint !== undefined || args.setpoint_low !== undefined || args.setpoint_high !== undefined,
+                { message: 'Pass setpoint, setpoint_low or setpoint_high' }
+            ),
+            outputSchema: acknowledgedOutput
         },
-        async ({ location_id, setpoint, setpoint_low, setpoint_high }: {
-            location_id: string;
-            setpoint?: number;
-            setpoint_low?: number;
-            setpoint_high?: number;
-        }) => {
+        async ({ location_id, setpoint, setpoint_low, setpoint_high, hub }) => {
             try {
-                const client = connectionService.ensureConnected();
+                const { min_setpoint, max_setpoint } = getSafetyLimits();
+                checkSafetyLimit('setpoint', setpoint, min_setpoint, max_setpoint);
+                checkSafetyLimit('setpoint_low', setpoint_low, min_setpoint, max_setpoint);
+                checkSafetyLimit('setpoint_high', setpoint_high, min_setpoint, max_setpoint);
+
+                const client = await connectionService.ensureConnected(hub);
                 await client.setTemperature({ location_id, setpoint, setpoint_low, setpoint_high });
+                statePoller.invalidate(hub);
                 return successResponse({ success: true });
             } catch (error) {
                 return errorResponse(error as Error);
@@ -58,26 +77,21 @@ export function registerTemperatureTools(registry: ToolRegistry, connectionServi
         'set_preset',
         {
             title: 'Set Preset',
+            category: 'climate',
+            annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
             description: 'Set the preset mode on a thermostat or zone (e.g., home, away, sleep, vacation). Presets apply predefined temperature settings and behaviors configured in your Plugwise system.',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    location_id: {
-                        type: 'string',
-                        description: 'ID of the location/zone to control'
-                    },
-                    preset: {
-                        type: 'string',
-                        description: 'Preset name (e.g., home, away, sleep, vacation, no_frost)'
-                    }
-                },
-                required: ['location_id', 'preset']
-            }
+            inputSchema: z.object({
+                location_id: z.string().min(1).describe('ID of the location/zone to control'),
+                preset: z.string().min(1).describe('Preset name (e.g., home, away, sleep, vacation, no_frost)'),
+                hub: hubArgument
+            }),
+            outputSchema: acknowledgedOutput
         },
-        async ({ location_id, preset }: { location_id: string; preset: string }) => {
+        async ({ location_id, preset, hub }) => {
             try {
-                const client = connectionService.ensureConnected();
+                const client = await connectionService.ensureConnected(hub);
                 await client.setPreset(location_id, preset);
+                statePoller.invalidate(hub);
                 return successResponse({ success: true });
             } catch (error) {
                 return errorResponse(error as Error);
@@ -90,22 +104,18 @@ export function registerTemperatureTools(registry: ToolRegistry, connectionServi
         'get_temperature',
         {
             title: 'Get Temperature',
+            category: 'read',
+            annotations: { readOnlyHint: true },
             description: 'Get current room temperature and setpoint for a specific thermostat or zone. Returns both the measured temperature and the target setpoint.',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    device_id: {
-                        type: 'string',
-                        description: 'ID of the device/zone to read temperature from'
-                    }
-                },
-                required: ['device_id']
-            }
+            inputSchema: z.object({
+                device_id: z.string().min(1).describe('ID of the device/zone to read temperature from'),
+                hub: hubArgument
+            }),
+            outputSchema: successOutput(z.object(temperatureReading), { freshness: freshnessSchema })
         },
-        async ({ device_id }: { device_id: string }) => {
+        async ({ device_id, hub }) => {
             try {
-                const client = connectionService.ensureConnected();
-                const data = await client.getDevices();
+                const { data, freshness } = await statePoller.getData(hub);
                 const device = data.entities[device_id];
                 
                 if (!device) {
@@ -123,7 +133,7 @@ export function registerTemperatureTools(registry: ToolRegistry, connectionServi
                     climate_mode: device.climate_mode
                 };
 
-                return successResponse(result);
+                return successResponse(result, { freshness });
             } catch (error) {
                 return errorResponse(error as Error);
             }
@@ -135,16 +145,24 @@ export function registerTemperatureTools(registry: ToolRegistry, connectionServi
         'get_all_temperatures',
         {
             title: 'Get All Temperatures',
-            description: 'Get current temperatures and setpoints for all thermostats and zones in the system. Returns comprehensive temperature data including measured values, setpoints, control states, and climate modes for every temperature-capable device.',
-            inputSchema: {
-                type: 'object',
-                properties: {}
-            }
+            category: 'read',
+            annotations: { readOnlyHint: true },
+            description: 'Get current temperatures and setpoints for all thermostats and zones in the system. Returns comprehensive temperature data including measured values, setpoints, control states, and climate modes for every temperature-capable device, plus binary states such as heating, flame (boiler burning), DHW and low battery.',
+            inputSchema: z.object({
+                hub: hubArgument
+            }),
+            outputSchema: successOutput(
+                z.array(z.object({
+                    ...temperatureReading,
+                    device_class: z.string(),
+                    binary_sensors: z.record(z.boolean()).optional()
+                })),
+                { freshness: freshnessSchema }
+            )
         },
-        async () => {
+        async ({ hub }) => {
             try {
-                const client = connectionService.ensureConnected();
-                const data = await client.getDevices();
+                const { data, freshness } = await statePoller.getData(hub);
 
                 const thermostats = Object.entries(data.entities)
                     .filter(([_, device]) => {
@@ -153,6 +171,7 @@ export function registerTemperatureTools(registry: ToolRegistry, connectionServi
                             devClass === 'zone_thermostat' ||
                             devClass === 'zone_thermometer' ||
                             devClass === 'thermostatic_radiator_valve' ||
+                            devClass === 'heater_central' ||
                             device.thermostat !== undefined ||
                             device.sensors?.temperature !== undefined;
                     })
@@ -165,10 +184,13 @@ export function registerTemperatureTools(registry: ToolRegistry, connectionServi
                         setpoint_low: device.thermostat?.setpoint_low,
                         setpoint_high: device.thermostat?.setpoint_high,
                         control_state: device.control_state,
-                        climate_mode: device.climate_mode
+                        climate_mode: device.climate_mode,
+                        binary_sensors: device.binary_sensors && Object.keys(device.binary_sensors).length > 0
+                            ? device.binary_sensors
+                            : undefined
                     }));
 
-                return successResponse(thermostats);
+                return successResponse(thermostats, { freshness });
             } catch (error) {
                 return errorResponse(error as Error);
             }
@@ -180,22 +202,28 @@ export function registerTemperatureTools(registry: ToolRegistry, connectionServi
         'get_temperature_offset',
         {
             title: 'Get Temperature Offset',
+            category: 'read',
+            annotations: { readOnlyHint: true },
             description: 'Get the temperature offset (calibration) for a thermostat device. The offset is used to calibrate the temperature sensor if it reads incorrectly. Returns the current offset value and its valid range.',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    device_id: {
-                        type: 'string',
-                        description: 'ID of the thermostat device to query'
-                    }
-                },
-                required: ['device_id']
-            }
+            inputSchema: z.object({
+                device_id: z.string().min(1).describe('ID of the thermostat device to query'),
+                hub: hubArgument
+            }),
+            outputSchema: successOutput(
+                z.object({
+                    device_id: z.string(),
+                    device_name: z.string(),
+                    offset: z.number().optional(),
+                    lower_bound: z.number().optional(),
+                    upper_bound: z.number().optional(),
+                    resolution: z.number().optional()
+                }),
+                { freshness: freshnessSchema }
+            )
         },
-        async ({ device_id }: { device_id: string }) => {
+        async ({ device_id, hub }) => {
             try {
-                const client = connectionService.ensureConnected();
-                const data = await client.getDevices();
+                const { data, freshness } = await statePoller.getData(hub);
                 const device = data.entities[device_id];
 
                 if (!device) {
@@ -215,7 +243,7 @@ export function registerTemperatureTools(registry: ToolRegistry, connectionServi
                     resolution: device.temperature_offset.resolution
                 };
 
-                return successResponse(result);
+                return successResponse(result, { freshness });
             } catch (error) {
                 return errorResponse(error as Error);
             }
@@ -227,26 +255,75 @@ export function registerTemperatureTools(registry: ToolRegistry, connectionServi
         'set_temperature_offset',
         {
             title: 'Set Temperature Offset',
+            category: 'climate',
+            annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
             description: 'Set the temperature offset (calibration) for a thermostat device. This adjusts the measured temperature by a fixed offset.',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    device_id: {
-                        type: 'string',
-                        description: 'ID of the thermostat device'
-                    },
-                    offset: {
-                        type: 'number',
-                        description: 'Temperature offset in °C (can be positive or negative)'
-                    }
-                },
-                required: ['device_id', 'offset']
-            }
+            inputSchema: z.object({
+                device_id: z.string().min(1).describe('ID of the thermostat device'),
+                offset: z.number().min(-10).max(10).describe('Temperature offset in °C (can be positive or negative)'),
+                hub: hubArgument
+            }),
+            outputSchema: acknowledgedOutput
         },
-        async ({ device_id, offset }: { device_id: string; offset: number }) => {
+        async ({ device_id, offset, hub }) => {
             try {
-                const client = connectionService.ensureConnected();
+                const client = await connectionService.ensureConnected(hub);
                 await client.setTemperatureOffset(device_id, offset);
+                statePoller.invalidate(hub);
+                return successResponse({ success: true });
+            } catch (error) {
+                return errorResponse(error as Error);
+            }
+        }
+    );
+
+    // Set Maximum Boiler Temperature Tool
+    registry.registerTool(
+        'set_max_boiler_temperature',
+        {
+            title: 'Set Maximum Boiler Temperature',
+            category: 'climate',
+            annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+            description: 'Set the maximum boiler (flow) temperature of the central heater. The value must lie within the bounds and resolution the heater advertises, see maximum_boiler_temperature on the heater_central device in get_devices.',
+            inputSchema: z.object({
+                temperature: z.number().min(0).max(100).describe('Maximum boiler flow temperature in Celsius'),
+                hub: hubArgument
+            }),
+            outputSchema: acknowledgedOutput
+        },
+        async ({ temperature, hub }) => {
+            try {
+                checkSafetyLimit('maximum boiler temperature', temperature, undefined, getSafetyLimits().max_boiler_temperature);
+                const client = await connectionService.ensureConnected(hub);
+                await client.setMaxBoilerTemperature(temperature);
+                statePoller.invalidate(hub);
+                return successResponse({ success: true });
+            } catch (error) {
+                return errorResponse(error as Error);
+            }
+        }
+    );
+
+    // Set DHW Temperature Tool
+    registry.registerTool(
+        'set_dhw_temperature',
+        {
+            title: 'Set DHW Temperature',
+            category: 'climate',
+            annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+            description: 'Set the domestic hot water (tap water) temperature setpoint of the central heater. The value must lie within the bounds and resolution the heater advertises, see max_dhw_temperature on the heater_central device in get_devices.',
+            inputSchema: z.object({
+                temperature: z.number().min(0).max(100).describe('Domestic hot water setpoint in Celsius'),
+                hub: hubArgument
+            }),
+            outputSchema: acknowledgedOutput
+        },
+        async ({ temperature, hub }) => {
+            try {
+                checkSafetyLimit('DHW temperature', temperature, undefined, getSafetyLimits().max_dhw_temperature);
+                const client = await connectionService.ensureConnected(hub);
+                await client.setDHWTemperature(temperature);
+                statePoller.invalidate(hub);
                 return successResponse({ success: true });
             } catch (error) {
                 return errorResponse(error as Error);
@@ -3,20 +3,114 @@
  * Common functions for MCP tool responses and error handling
  */
 
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { ConnectionService } from '../../services/connection.service.js';
 import { PlugwiseClient } from '../../client/plugwise-client.js';
 
-export interface ToolResponse {
-    content: Array<{ type: string; text: string }>;
-    structuredContent?: any;
-    isError?: boolean;
+/**
+ * Optional hub argument shared by all tools that talk to a gateway
+ */
+export const hubArgument = z.string().min(1).optional()
+    .describe('Name of the hub to use (see list_hubs). Defaults to the default hub.');
+
+/**
+ * Plausible temperature setpoints; the configured safety limits can narrow them further
+ */
+export const setpointArgument = z.number().min(0).max(40);
+
+/**
+ * Freshness of polled data (see StatePollerService)
+ */
+export const freshnessSchema = z.object({
+    hub: z.string(),
+    source: z.enum(['snapshot', 'live']),
+    fetched_at: z.string(),
+    age_seconds: z.number(),
+    stale: z.boolean(),
+    last_error: z.string().optional()
+});
+
+export const actuatorSchema = z.object({
+    setpoint: z.number().optional(),
+    setpoint_low: z.number().optional(),
+    setpoint_high: z.number().optional(),
+    lower_bound: z.number().optional(),
+    upper_bound: z.number().optional(),
+    resolution: z.number().optional()
+});
+
+/**
+ * A device or zone of PlugwiseData; only the common fields are listed
+ */
+export const entitySchema = z.object({
+    name: z.string(),
+    dev_class: z.string().optional(),
+    model: z.string().optional(),
+    location: z.string().optional(),
+    members: z.array(z.string()).optional(),
+    available: z.boolean().optional(),
+    sensors: z.record(z.number()).optional(),
+    binary_sensors: z.record(z.boolean()).optional(),
+    switches: z.record(z.boolean()).optional(),
+    thermostat: actuatorSchema.optional()
+}).passthrough();
+
+/**
+ * Output schema of successResponse with the given data and extra fields
+ */
+export function successOutput<T extends z.ZodTypeAny>(data: T, extra: z.ZodRawShape = {}) {
+    return z.object({ success: z.literal(true), data, ...extra });
 }
 
+/**
+ * Output of writes answering successResponse({ success: true })
+ */
+export const acknowledgedOutput = successOutput(z.object({ success: z.boolean() }));
+
+const RELATIVE_UNITS: Record<string, number> = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse an ISO 8601 time or a relative time such as -12h, -30m or -7d
+ */
+export function parseTime(value: string, now: Date): Date {
+    const relative = value.trim().match(/^-(\d+(?:\.\d+)?)([mhd])$/);
+    if (relative) {
+        return new Date(now.getTime() - parseFloat(relative[1]) * RELATIVE_UNITS[relative[2]]);
+    }
+
+    const time = new Date(value);
+    if (isNaN(time.getTime())) {
+        throw new Error(`Invalid time ${value}. Use ISO 8601 (2024-01-31T22:00:00Z) or a relative time like -12h`);
+    }
+    return time;
+}
+
+/**
+ * Reject a temperature outside a configured safety limit (see getSafetyLimits)
+ */
+export function checkSafetyLimit(label: string, value: number | undefined, min?: number, max?: number): void {
+    if (value === undefined) return;
+    if (min !== undefined && value < min) {
+        throw new Error(`The ${label} ${value} is below the configured safety limit of ${min}`);
+    }
+    if (max !== undefined && value > max) {
+        throw new Error(`The ${label} ${value} is above the configured safety limit of ${max}`);
+    }
+}
+
+export type ToolResponse = CallToolResult;
+
 /**
  * Create a success response
+ * Extra fields (e.g. freshness) are added next to data.
  */
-export function successResponse<T>(data: T): ToolResponse {
-    const output = { success: true, data };
+export function successResponse<T>(data: T, extra?: Record<string, unknown>): ToolResponse {
+    const output = { success: true, data, ...extra };
     return {
         content: [{ 
             type: 'text', 
@@ -49,10 +143,11 @@ export function errorResponse(error: Error | string): ToolResponse {
  */
 export async function withConnection<T>(
     connectionService: ConnectionService,
-    operation: (client: PlugwiseClient) => Promise<T>
+    operation: (client: PlugwiseClient) => Promise<T>,
+    hub?: string
 ): Promise<ToolResponse> {
     try {
-        const client = connectionService.ensureConnected();
+        const client = await connectionService.ensureConnected(hub);
         const data = await operation(client);
         return successResponse(data);
     } catch (error) {
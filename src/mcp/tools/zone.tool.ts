@@ -0,0 +1,161 @@
+/**
+ * Zone Tools
+ * Tools for inspecting zones (locations) with their member devices
+ */
+
+import { StatePollerService } from '../../services/state-poller.service.js';
+import { GatewayEntity } from '../../types/plugwise-types.js';
+import { z } from 'zod';
+import { ToolRegistry } from '../tool-registry.js';
+import { successResponse, errorResponse, hubArgument, successOutput, actuatorSchema, freshnessSchema } from './tool-helpers.js';
+
+const zoneSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    climate_mode: z.string().optional(),
+    active_preset: z.string().optional(),
+    select_schedule: z.string().optional(),
+    available_schedules: z.array(z.string()).optional(),
+    thermostat: actuatorSchema.optional(),
+    thermostats: z.object({
+        primary: z.array(z.string()),
+        secondary: z.array(z.string())
+    }),
+    readings: z.object({
+        temperature: z.number().optional(),
+        min_temperature: z.number().optional(),
+        max_temperature: z.number().optional(),
+        humidity: z.number().optional(),
+        valve_position: z.number().optional(),
+        setpoint: z.number().optional(),
+        low_battery: z.array(z.string()).describe('Names of members with a low battery')
+    }),
+    members: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        dev_class: z.string().optional(),
+        model: z.string().optional(),
+        thermostat_role: z.enum(['primary', 'secondary']).optional(),
+        sensors: z.record(z.number()).optional(),
+        binary_sensors: z.record(z.boolean()).optional()
+    }))
+});
+
+/**
+ * Find a zone by ID or (case-insensitive) name, or the zone of a device ID
+ */
+export function findZone(entities: Record<string, GatewayEntity>, zone: string): [string, GatewayEntity] | undefined {
+    const zones = Object.entries(entities).filter(([, entity]) => entity.dev_class === 'zone');
+
+    const byId = zones.find(([id]) => id === zone);
+    if (byId) return byId;
+
+    const deviceZone = entities[zone]?.location;
+    if (deviceZone) {
+        const byDevice = zones.find(([id]) => id === deviceZone);
+        if (byDevice) return byDevice;
+    }
+
+    return zones.find(([, entity]) => entity.name.toLowerCase() === zone.toLowerCase());
+}
+
+function average(values: number[]): number | undefined {
+    if (values.length === 0) return undefined;
+    return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length * 100) / 100;
+}
+
+/**
+ * Combine the readings of the zone and its members
+ */
+function aggregateReadings(zone: GatewayEntity, members: GatewayEntity[]) {
+    const temperatures = members
+        .map(member => member.sensors?.temperature)
+        .filter((value): value is number => value !== undefined);
+    const humidities = members
+        .map(member => member.sensors?.humidity)
+        .filter((value): value is number => value !== undefined);
+    const valvePositions = members
+        .map(member => member.sensors?.valve_position)
+        .filter((value): value is number => value !== undefined);
+
+    return {
+        temperature: zone.sensors?.temperature ?? average(temperatures),
+        min_temperature: temperatures.length > 0 ? Math.min(...temperatures) : undefined,
+        max_temperature: temperatures.length > 0 ? Math.max(...temperatures) : undefined,
+        humidity: average(humidities),
+        valve_position: average(valvePositions),
+        setpoint: zone.thermostat?.setpoint,
+        low_battery: members.filter(member => member.binary_sensors?.low_battery).map(member => member.name)
+    };
+}
+
+/**
+ * Describe a zone with its thermostats, members and aggregated readings
+ */
+export function describeZone(entities: Record<string, GatewayEntity>, zoneId: string, entity: GatewayEntity) {
+    const primary = entity.thermostats?.primary ?? [];
+    const secondary = entity.thermostats?.secondary ?? [];
+    const memberIds = (entity.members ?? []).filter(id => entities[id]);
+
+    const members = memberIds.map(id => {
+        const member = entities[id];
+        return {
+            id,
+            name: member.name,
+            dev_class: member.dev_class,
+            model: member.model,
+            thermostat_role: primary.includes(id) ? 'primary' : secondary.includes(id) ? 'secondary' : undefined,
+            sensors: member.sensors,
+            binary_sensors: member.binary_sensors
+        };
+    });
+
+    return {
+        id: zoneId,
+        name: entity.name,
+        climate_mode: entity.climate_mode,
+        active_preset: entity.active_preset,
+        select_schedule: entity.select_schedule,
+        available_schedules: entity.available_schedules,
+        thermostat: entity.thermostat,
+        thermostats: { primary, secondary },
+        readings: aggregateReadings(entity, memberIds.map(id => entities[id])),
+        members
+    };
+}
+
+export function registerZoneTools(registry: ToolRegistry, statePoller: StatePollerService) {
+    // Get Zone Tool
+    registry.registerTool(
+        'get_zone',
+        {
+            title: 'Get Zone',
+            category: 'read',
+            annotations: { readOnlyHint: true },
+            description: 'Get a zone (room) with its member devices and combined readings. Shows which devices are in the zone, which thermostats are primary (controlling) and secondary, the zone setpoint, preset and schedule, and temperature/humidity/valve readings aggregated over the members. Accepts a zone ID, a zone name, or the ID of a device in the zone.',
+            inputSchema: z.object({
+                zone: z.string().min(1).describe('Zone ID or name, or the ID of a device in the zone'),
+                hub: hubArgument
+            }),
+            outputSchema: successOutput(zoneSchema, { freshness: freshnessSchema })
+        },
+        async ({ zone, hub }) => {
+            try {
+                const { data, freshness } = await statePoller.getData(hub);
+                const found = findZone(data.entities, zone);
+
+                if (!found) {
+                    const names = Object.values(data.entities)
+                        .filter(entity => entity.dev_class === 'zone')
+                        .map(entity => entity.name);
+                    throw new Error(`Zone ${zone} not found. Available: ${names.join(', ') || 'none'}`);
+                }
+
+                const [zoneId, entity] = found;
+                return successResponse(describeZone(data.entities, zoneId, entity), { freshness });
+            } catch (error) {
+                return errorResponse(error as Error);
+            }
+        }
+    );
+}
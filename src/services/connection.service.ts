@@ -1,65 +1,213 @@
 /**
  * Connection Service
- * Manages the active Plugwise client connection
+ * Manages the pool of live Plugwise client connections
  */
 
 import { PlugwiseClient } from '../client/plugwise-client.js';
 import { PlugwiseConfig } from '../types/plugwise-types.js';
+import { getDefaultHubName } from '../config/environment.js';
+import { HubDiscoveryService, DiscoveredHub, hubAddress } from './hub-discovery.service.js';
+
+/**
+ * A live connection to one hub
+ */
+export interface HubConnection {
+    name: string;
+    client: PlugwiseClient;
+    config: PlugwiseConfig;
+    connectedAt: Date;
+}
 
 /**
  * Connection Service
- * Maintains a single active connection to a Plugwise gateway
+ * Keeps one connected client per hub, keyed by hub name, with a default hub
+ * for tool calls that do not name one
  */
 export class ConnectionService {
-    private client: PlugwiseClient | null = null;
-    private currentConfig: PlugwiseConfig | null = null;
+    private connections: Map<string, HubConnection> = new Map();
+    private pending: Map<string, Promise<PlugwiseClient>> = new Map();
+    private defaultHub: string | null = getDefaultHubName() ?? null;
+
+    constructor(private discoveryService?: HubDiscoveryService) {}
+
+    /**
+     * Get the client of a hub (or the default hub)
+     */
+    getClient(hub?: string): PlugwiseClient | null {
+        return this.findConnection(hub)?.client ?? null;
+    }
+
+    /**
+     * Get the connection configuration of a hub (or the default hub)
+     */
+    getConfig(hub?: string): PlugwiseConfig | null {
+        return this.findConnection(hub)?.config ?? null;
+    }
+
+    /**
+     * Check if a hub (or the default hub) is connected
+     */
+    isConnected(hub?: string): boolean {
+        return this.findConnection(hub)?.client.isConnected() ?? false;
+    }
+
+    /**
+     * Get all live connections
+     */
+    getConnections(): HubConnection[] {
+        return Array.from(this.connections.values());
+    }
 
     /**
-     * Get the active client instance
+     * Get the pool name of a connected client
      */
-    getClient(): PlugwiseClient | null {
-        return this.client;
+    getHubName(client: PlugwiseClient): string | undefined {
+        return this.getConnections().find(c => c.client === client)?.name;
     }
 
     /**
-     * Get the current connection configuration
+     * Get the pool name of a hub (or the default hub), or the given name if it is not connected
      */
-    getConfig(): PlugwiseConfig | null {
-        return this.currentConfig;
+    resolveHubName(hub?: string): string | null {
+        return this.findConnection(hub)?.name ?? hub ?? this.getDefaultHub();
     }
 
     /**
-     * Check if connected
+     * Name of the hub used when a tool call does not name one
      */
-    isConnected(): boolean {
-        return this.client !== null && this.client.isConnected();
+    getDefaultHub(): string | null {
+        if (this.defaultHub) {
+            return this.findConnection(this.defaultHub)?.name ?? this.defaultHub;
+        }
+        const first = this.connections.values().next();
+        return first.done ? null : first.value.name;
     }
 
     /**
-     * Connect to a Plugwise gateway
+     * Make a hub the default hub
      */
-    async connect(config: PlugwiseConfig): Promise<PlugwiseClient> {
-        this.currentConfig = config;
-        this.client = new PlugwiseClient(config);
-        await this.client.connect();
-        return this.client;
+    setDefaultHub(hub: string): void {
+        this.defaultHub = this.findConnection(hub)?.name ?? hub;
     }
 
     /**
-     * Disconnect from the current gateway
+     * Connect to a Plugwise gateway and add it to the pool
+     * Connecting a hub name that is already in the pool replaces its client.
      */
-    disconnect(): void {
-        this.client = null;
-        this.currentConfig = null;
+    async connect(config: PlugwiseConfig, hubName?: string): Promise<PlugwiseClient> {
+        const client = new PlugwiseClient(config);
+        const gatewayInfo = await client.connect();
+
+        const name = this.resolveName(
+            hubName
+                ?? this.discoveryService?.getHub(config.host, config.port ?? 80)?.name
+                ?? gatewayInfo.name
+                ?? config.host,
+            config,
+            gatewayInfo.hostname
+        );
+
+        this.connections.set(name, { name, client, config, connectedAt: new Date() });
+        console.error(`✓ Connected hub ${name} at ${config.host} (${this.connections.size} in pool)`);
+        return client;
     }
 
     /**
-     * Ensure a connection exists, throw if not
+     * Disconnect a hub (or the default hub) and remove it from the pool
      */
-    ensureConnected(): PlugwiseClient {
-        if (!this.client || !this.client.isConnected()) {
+    disconnect(hub?: string): void {
+        const connection = this.findConnection(hub);
+        if (!connection) return;
+
+        this.connections.delete(connection.name);
+        if (this.defaultHub === connection.name) {
+            this.defaultHub = null;
+        }
+    }
+
+    /**
+     * Disconnect all hubs
+     */
+    disconnectAll(): void {
+        this.connections.clear();
+    }
+
+    /**
+     * Get the client of a hub (or the default hub), connecting a discovered
+     * hub on first use; throws if the hub is unknown
+     */
+    async ensureConnected(hub?: string): Promise<PlugwiseClient> {
+        const connection = this.findConnection(hub);
+        if (connection && connection.client.isConnected()) {
+            return connection.client;
+        }
+
+        const target = hub ?? this.getDefaultHub();
+        const discovered = target ? this.findDiscoveredHub(target) : undefined;
+
+        if (!discovered) {
+            const connected = this.getConnections().map(c => c.name);
+            if (hub) {
+                throw new Error(
+                    `Hub ${hub} is not connected. Connected hubs: ${connected.join(', ') || 'none'}. Use list_hubs to see known hubs.`
+                );
+            }
             throw new Error('Not connected. Use the connect tool first.');
         }
-        return this.client;
+
+        let pending = this.pending.get(discovered.name);
+        if (!pending) {
+            pending = this.connect({
+                host: discovered.ip,
+                password: discovered.password,
+                port: discovered.port,
+                username: discovered.username
+            }, discovered.name)
+                .finally(() => this.pending.delete(discovered.name));
+            this.pending.set(discovered.name, pending);
+        }
+        return pending;
+    }
+
+    /**
+     * Find a pooled connection by (case-insensitive) hub name, alias or host
+     */
+    private findConnection(hub?: string): HubConnection | undefined {
+        const target = hub ?? this.getDefaultHub();
+        if (!target) return undefined;
+
+        const exact = this.connections.get(target);
+        if (exact) return exact;
+
+        const lower = target.toLowerCase();
+        const aliased = this.discoveryService?.getDiscoveredHubs().find(h => h.alias?.toLowerCase() === lower);
+        return this.getConnections().find(c =>
+            c.name.toLowerCase() === lower || c.config.host === target || c.name === aliased?.name
+        );
+    }
+
+    /**
+     * Find a discovered (registered) hub by name, alias or IP address
+     */
+    private findDiscoveredHub(hub: string): DiscoveredHub | undefined {
+        if (!this.discoveryService) return undefined;
+
+        const lower = hub.toLowerCase();
+        return this.discoveryService.getHub(hub)
+            ?? this.discoveryService.getDiscoveredHubs().find(h =>
+                h.name.toLowerCase() === lower || h.alias?.toLowerCase() === lower
+            );
+    }
+
+    /**
+     * Keep hub names unique: a second gateway with the same name is
+     * pooled under its hostname
+     */
+    private resolveName(name: string, config: PlugwiseConfig, hostname?: string): string {
+        const existing = this.connections.get(name);
+        if (!existing || hubAddress(existing.config.host, existing.config.port) === hubAddress(config.host, config.port)) {
+            return name;
+        }
+        return `${name} (${hostname || hubAddress(config.host, config.port)})`;
     }
 }
@@ -0,0 +1,171 @@
+/**
+ * Credential Vault Service
+ * Keeps hub passwords encrypted at rest with AES-256-GCM
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { getDataDirectory, getVaultKeyConfig, VaultKeyConfig } from '../config/environment.js';
+import { JsonStorageService } from './storage.service.js';
+
+/**
+ * One encrypted secret; all fields are base64
+ */
+interface EncryptedSecret {
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+interface VaultFileData {
+    version: 1;
+    secrets: Record<string, EncryptedSecret>;
+}
+
+const VAULT_FILE = 'vault';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+/** Salt for deriving a key from a passphrase; the passphrase is the secret */
+const PASSPHRASE_SALT = 'plugwise-mcp-credential-vault';
+
+/**
+ * Turn key material into a 256-bit key: 64 hex characters and base64 of 32
+ * bytes are used as is, anything else is treated as a passphrase
+ */
+function toKey(material: string): Buffer {
+    const value = material.trim();
+    if (/^[0-9a-f]{64}$/i.test(value)) {
+        return Buffer.from(value, 'hex');
+    }
+
+    const decoded = Buffer.from(value, 'base64');
+    if (decoded.length === KEY_LENGTH && decoded.toString('base64') === value) {
+        return decoded;
+    }
+
+    return scryptSync(value, PASSPHRASE_SALT, KEY_LENGTH);
+}
+
+/**
+ * Credential Vault Service
+ * Stores secrets by ID in credentials/vault.json of the data directory. The key
+ * comes from PLUGWISE_VAULT_KEY or PLUGWISE_VAULT_KEYFILE; without either a
+ * random key is generated in vault.key of the data directory.
+ */
+export class CredentialVaultService {
+    private storage: JsonStorageService<VaultFileData>;
+    private secrets: Record<string, EncryptedSecret> | null = null;
+    private key: Buffer | null = null;
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly keyConfig: VaultKeyConfig = getVaultKeyConfig(),
+        private readonly defaultKeyFile: string = path.join(getDataDirectory(), 'vault.key')
+    ) {
+        this.storage = new JsonStorageService<VaultFileData>('credentials');
+    }
+
+    /**
+     * Store a secret, replacing an existing one
+     */
+    async setSecret(id: string, secret: string): Promise<void> {
+        const key = await this.getKey();
+        const iv = randomBytes(IV_LENGTH);
+        const cipher = createCipheriv('aes-256-gcm', key, iv);
+        const data = Buffer.concat([cipher.update(secret, 'utf-8'), cipher.final()]);
+
+        const secrets = await this.loadSecrets();
+        secrets[id] = {
+            iv: iv.toString('base64'),
+            tag: cipher.getAuthTag().toString('base64'),
+            data: data.toString('base64')
+        };
+        await this.persist();
+    }
+
+    /**
+     * Get a secret, or undefined if none is stored
+     * Throws when the secret cannot be decrypted with the current key.
+     */
+    async getSecret(id: string): Promise<string | undefined> {
+        const encrypted = (await this.loadSecrets())[id];
+        if (!encrypted) return undefined;
+
+        try {
+            const decipher = createDecipheriv('aes-256-gcm', await this.getKey(), Buffer.from(encrypted.iv, 'base64'));
+            decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+            return Buffer.concat([
+                decipher.update(Buffer.from(encrypted.data, 'base64')),
+                decipher.final()
+            ]).toString('utf-8');
+        } catch {
+            throw new Error(`Cannot decrypt the credential of ${id}. Was the vault key changed?`);
+        }
+    }
+
+    async hasSecret(id: string): Promise<boolean> {
+        return (await this.loadSecrets())[id] !== undefined;
+    }
+
+    async deleteSecret(id: string): Promise<void> {
+        const secrets = await this.loadSecrets();
+        if (!secrets[id]) return;
+
+        delete secrets[id];
+        await this.persist();
+    }
+
+    private async loadSecrets(): Promise<Record<string, EncryptedSecret>> {
+        if (!this.secrets) {
+            const file = await this.storage.load(VAULT_FILE);
+            this.secrets = file?.secrets ?? {};
+        }
+        return this.secrets;
+    }
+
+    /**
+     * Write the vault; writes are serialized so concurrent updates are not lost
+     */
+    private persist(): Promise<void> {
+        const write = this.writes.then(() =>
+            this.storage.save(VAULT_FILE, { version: 1, secrets: this.secrets ?? {} })
+        );
+        this.writes = write.catch(() => undefined);
+        return write;
+    }
+
+    private async getKey(): Promise<Buffer> {
+        if (this.key) return this.key;
+
+        if (this.keyConfig.key) {
+            this.key = toKey(this.keyConfig.key);
+        } else if (this.keyConfig.keyFile) {
+            try {
+                this.key = toKey(await fs.readFile(this.keyConfig.keyFile, 'utf-8'));
+            } catch (error) {
+                throw new Error(`Cannot read vault keyfile ${this.keyConfig.keyFile}: ${(error as Error).message}`);
+            }
+        } else {
+            this.key = await this.loadOrCreateDefaultKey();
+        }
+        return this.key;
+    }
+
+    private async loadOrCreateDefaultKey(): Promise<Buffer> {
+        try {
+            return toKey(await fs.readFile(this.defaultKeyFile, 'utf-8'));
+        } catch {
+            const material = randomBytes(KEY_LENGTH).toString('hex');
+            await fs.mkdir(path.dirname(this.defaultKeyFile), { recursive: true });
+            await fs.writeFile(this.defaultKeyFile, material + '\n', { encoding: 'utf-8', mode: 0o600, flag: 'wx' })
+                .catch(error => {
+                    // Another process created it first
+                    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+                });
+            console.error(`⚠️  No PLUGWISE_VAULT_KEY or PLUGWISE_VAULT_KEYFILE set, using generated key ${this.defaultKeyFile}`);
+            return toKey(await fs.readFile(this.defaultKeyFile, 'utf-8'));
+        }
+    }
+}
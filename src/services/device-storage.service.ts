@@ -26,6 +26,7 @@ export interface StoredDevice {
 interface DeviceFileData {
     hubName: string;
     deviceId: string;
+    /** Plaintext hub password of files written before the credential vault; removed on startup */
     password?: string;
     device: StoredDevice;
 }
@@ -74,7 +75,7 @@ export class DeviceStorageService {
     /**
      * Save devices for a specific hub
      */
-    async saveDevices(hubName: string, entities: Record<string, GatewayEntity>, password?: string): Promise<void> {
+    async saveDevices(hubName: string, entities: Record<string, GatewayEntity>): Promise<void> {
         const devices: StoredDevice[] = Object.entries(entities).map(([id, entity]) =>
             this.convertToStoredDevice(id, entity, hubName)
         );
@@ -85,7 +86,6 @@ export class DeviceStorageService {
             const deviceData: DeviceFileData = {
                 hubName,
                 deviceId: device.id,
-                password,
                 device
             };
 
@@ -101,6 +101,31 @@ export class DeviceStorageService {
         console.error(`✓ Saved ${savedCount} devices for hub ${hubName}`);
     }
 
+    /**
+     * Remove hub passwords from device files; the hub files hold the
+     * credential through the vault
+     */
+    async migrateCredentials(): Promise<number> {
+        let migrated = 0;
+
+        for (const [fileName, deviceData] of await this.storage.loadAll()) {
+            if (deviceData.password === undefined) continue;
+
+            try {
+                const { password, ...rest } = deviceData;
+                await this.storage.save(fileName, rest);
+                migrated++;
+            } catch (error) {
+                console.error(`Failed to remove the password from device file ${fileName}:`, error);
+            }
+        }
+
+        if (migrated > 0) {
+            console.error(`🔐 Removed hub passwords from ${migrated} device file(s)`);
+        }
+        return migrated;
+    }
+
     /**
      * Load all devices from storage
      */
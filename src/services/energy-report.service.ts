@@ -0,0 +1,321 @@
+/**
+ * Energy Report Service
+ * Computes consumption, production and costs from recorded meter counters
+ */
+
+import { EnergyTariffs, getEnergyTariffs } from '../config/environment.js';
+import { HistoryService } from './history.service.js';
+
+export type ReportPeriod = 'day' | 'week' | 'month';
+
+export const REPORT_PERIODS: ReportPeriod[] = ['day', 'week', 'month'];
+
+/**
+ * Counter sensor keys per energy flow
+ */
+const COUNTERS = {
+    consumed_peak: 'electricity_consumed_peak_cumulative',
+    consumed_off_peak: 'electricity_consumed_off_peak_cumulative',
+    consumed: 'electricity_consumed_cumulative',
+    produced_peak: 'electricity_produced_peak_cumulative',
+    produced_off_peak: 'electricity_produced_off_peak_cumulative',
+    produced: 'electricity_produced_cumulative',
+    gas: 'gas_consumed_cumulative'
+} as const;
+
+type Counter = keyof typeof COUNTERS;
+
+/** Readings before the first period are searched this far back for a baseline */
+const BASELINE_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+/** Buckets shown when no start is given */
+const DEFAULT_BUCKETS: Record<ReportPeriod, number> = { day: 7, week: 4, month: 3 };
+
+export interface EnergyFigures {
+    consumption: {
+        electricity_kwh: number;
+        electricity_peak_kwh?: number;
+        electricity_off_peak_kwh?: number;
+        gas_m3?: number;
+    };
+    production: {
+        electricity_kwh: number;
+        electricity_peak_kwh?: number;
+        electricity_off_peak_kwh?: number;
+    };
+    net: {
+        electricity_kwh: number;
+    };
+    cost: {
+        electricity_peak?: number;
+        electricity_off_peak?: number;
+        electricity?: number;
+        gas?: number;
+        feed_in?: number;
+        total: number;
+        missing_tariffs?: string[];
+    };
+}
+
+export interface EnergyReportBucket extends EnergyFigures {
+    start: string;
+    end: string;
+    /** No reading before the start, or the period has not ended yet */
+    partial: boolean;
+}
+
+export interface EnergyReport {
+    hub: string;
+    device_id: string;
+    device_name: string;
+    period: ReportPeriod;
+    from: string;
+    to: string;
+    currency: string;
+    tariffs: EnergyTariffs;
+    periods: EnergyReportBucket[];
+    totals: EnergyFigures;
+}
+
+export interface EnergyReportOptions {
+    hub: string;
+    entity: string;
+    period: ReportPeriod;
+    from?: Date;
+    to?: Date;
+    tariffs?: Partial<EnergyTariffs>;
+}
+
+interface Reading {
+    t: number;
+    v: number;
+}
+
+type Deltas = Partial<Record<Counter, number>>;
+
+function round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+/**
+ * Start of the (local time) day, ISO week or month that contains a time
+ */
+export function periodStart(time: Date, period: ReportPeriod): Date {
+    const start = new Date(time.getFullYear(), time.getMonth(), period === 'month' ? 1 : time.getDate());
+    if (period === 'week') {
+        // Weeks start on Monday
+        start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    }
+    return start;
+}
+
+function nextPeriod(start: Date, period: ReportPeriod): Date {
+    const next = new Date(start);
+    if (period === 'day') next.setDate(next.getDate() + 1);
+    if (period === 'week') next.setDate(next.getDate() + 7);
+    if (period === 'month') next.setMonth(next.getMonth() + 1);
+    return next;
+}
+
+/**
+ * Energy Report Service
+ * Meter counters only go up; the usage of a period is the sum of the increases
+ * between consecutive readings ending in it, so a meter reset does not count
+ * as negative usage.
+ */
+export class EnergyReportService {
+    constructor(
+        private historyService: HistoryService,
+        private defaultTariffs: () => EnergyTariffs = getEnergyTariffs
+    ) {}
+
+    async getReport(options: EnergyReportOptions): Promise<EnergyReport> {
+        const { hub, entity, period } = options;
+        const now = new Date();
+        const to = options.to ?? now;
+        const from = periodStart(options.from ?? this.defaultStart(to, period), period);
+        if (from.getTime() >= to.getTime()) {
+            throw new Error('The start of the report must be before its end');
+        }
+
+        const entities = await this.historyService.getEntities(hub);
+        const device = entities[entity];
+        if (!device) {
+            throw new Error(`No history for ${entity} on hub ${hub}`);
+        }
+
+        const tariffs = { ...this.defaultTariffs(), ...this.definedTariffs(options.tariffs) };
+        tariffs.electricity ??= tariffs.electricity_peak;
+
+        // The P1 smart meter reports kWh, plugs report Wh
+        const scale = device.dev_class === 'smartmeter' ? 1 : 1 / 1000;
+        const readings = await this.loadReadings(hub, entity, from, to, scale);
+        if (Object.values(readings).every(series => series.length === 0)) {
+            throw new Error(`${device.name} has no recorded energy meter readings in this range`);
+        }
+
+        const periods: EnergyReportBucket[] = [];
+        const totals: Deltas = {};
+
+        for (let start = from; start.getTime() < to.getTime(); start = nextPeriod(start, period)) {
+            const end = nextPeriod(start, period);
+            const deltas: Deltas = {};
+            let hasBaseline = true;
+
+            for (const [counter, series] of Object.entries(readings) as [Counter, Reading[]][]) {
+                if (series.length === 0) continue;
+                if (!series.some(reading => reading.t < start.getTime())) hasBaseline = false;
+
+                const delta = this.increase(series, start.getTime(), end.getTime());
+                deltas[counter] = delta;
+                totals[counter] = (totals[counter] ?? 0) + delta;
+            }
+
+            periods.push({
+                start: start.toISOString(),
+                end: end.toISOString(),
+                partial: !hasBaseline || end.getTime() > to.getTime(),
+                ...this.figures(deltas, tariffs)
+            });
+        }
+
+        return {
+            hub,
+            device_id: entity,
+            device_name: device.name,
+            period,
+            from: from.toISOString(),
+            to: to.toISOString(),
+            currency: tariffs.currency,
+            tariffs,
+            periods,
+            totals: this.figures(totals, tariffs)
+        };
+    }
+
+    /**
+     * Find the smart meter of a hub, the device reported on when none is given
+     */
+    async findMeter(hub: string): Promise<string | undefined> {
+        const entities = await this.historyService.getEntities(hub);
+        return Object.keys(entities).find(id => entities[id].dev_class === 'smartmeter');
+    }
+
+    private defaultStart(to: Date, period: ReportPeriod): Date {
+        let start = periodStart(to, period);
+        for (let i = 1; i < DEFAULT_BUCKETS[period]; i++) {
+            start = periodStart(new Date(start.getTime() - 1), period);
+        }
+        return start;
+    }
+
+    private async loadReadings(
+        hub: string,
+        entity: string,
+        from: Date,
+        to: Date,
+        scale: number
+    ): Promise<Record<Counter, Reading[]>> {
+        const series = await this.historyService.query({
+            hub,
+            entity,
+            sensors: Object.values(COUNTERS),
+            from: new Date(from.getTime() - BASELINE_LOOKBACK_MS),
+            to,
+            maxPoints: Number.MAX_SAFE_INTEGER
+        });
+
+        const readings = {} as Record<Counter, Reading[]>;
+        for (const [counter, sensor] of Object.entries(COUNTERS) as [Counter, string][]) {
+            const found = series.find(s => s.sensor === sensor);
+            const isGas = counter === 'gas';
+            readings[counter] = (found?.points ?? []).map(point => ({
+                t: Date.parse(point.timestamp),
+                v: isGas ? point.value : point.value * scale
+            }));
+        }
+
+        // Meters with a tariff split also report the total; count it once
+        if (readings.consumed_peak.length > 0 || readings.consumed_off_peak.length > 0) readings.consumed = [];
+        if (readings.produced_peak.length > 0 || readings.produced_off_peak.length > 0) readings.produced = [];
+
+        return readings;
+    }
+
+    /**
+     * Sum of the counter increases between consecutive readings that end in [start, end)
+     * Hourly aggregates are stamped at the start of their hour, so they fall in the
+     * period of that hour.
+     */
+    private increase(series: Reading[], start: number, end: number): number {
+        let total = 0;
+        for (let i = 1; i < series.length; i++) {
+            const { t, v } = series[i];
+            if (t < start || t >= end) continue;
+            total += Math.max(0, v - series[i - 1].v);
+        }
+        return total;
+    }
+
+    private figures(deltas: Deltas, tariffs: EnergyTariffs): EnergyFigures {
+        const consumedPeak = deltas.consumed_peak;
+        const consumedOffPeak = deltas.consumed_off_peak;
+        const consumed = (consumedPeak ?? 0) + (consumedOffPeak ?? 0) + (deltas.consumed ?? 0);
+        const produced = (deltas.produced_peak ?? 0) + (deltas.produced_off_peak ?? 0) + (deltas.produced ?? 0);
+
+        const missing: string[] = [];
+        const cost = (amount: number | undefined, tariff: keyof EnergyTariffs): number | undefined => {
+            if (amount === undefined) return undefined;
+            const price = tariffs[tariff] as number | undefined;
+            if (price === undefined) {
+                if (amount > 0) missing.push(tariff);
+                return undefined;
+            }
+            return round(amount * price, 2);
+        };
+
+        const costs = {
+            electricity_peak: cost(consumedPeak, 'electricity_peak'),
+            electricity_off_peak: cost(consumedOffPeak, 'electricity_off_peak'),
+            electricity: cost(deltas.consumed, 'electricity'),
+            gas: cost(deltas.gas, 'gas'),
+            feed_in: cost(
+                deltas.produced_peak !== undefined || deltas.produced_off_peak !== undefined || deltas.produced !== undefined
+                    ? produced
+                    : undefined,
+                'feed_in'
+            )
+        };
+        const total = (costs.electricity_peak ?? 0) + (costs.electricity_off_peak ?? 0)
+            + (costs.electricity ?? 0) + (costs.gas ?? 0) - (costs.feed_in ?? 0);
+
+        return {
+            consumption: {
+                electricity_kwh: round(consumed, 3),
+                electricity_peak_kwh: consumedPeak !== undefined ? round(consumedPeak, 3) : undefined,
+                electricity_off_peak_kwh: consumedOffPeak !== undefined ? round(consumedOffPeak, 3) : undefined,
+                gas_m3: deltas.gas !== undefined ? round(deltas.gas, 3) : undefined
+            },
+            production: {
+                electricity_kwh: round(produced, 3),
+                electricity_peak_kwh: deltas.produced_peak !== undefined ? round(deltas.produced_peak, 3) : undefined,
+                electricity_off_peak_kwh: deltas.produced_off_peak !== undefined ? round(deltas.produced_off_peak, 3) : undefined
+            },
+            net: {
+                electricity_kwh: round(consumed - produced, 3)
+            },
+            cost: {
+                ...costs,
+                total: round(total, 2),
+                missing_tariffs: missing.length > 0 ? missing : undefined
+            }
+        };
+    }
+
+    private definedTariffs(tariffs?: Partial<EnergyTariffs>): Partial<EnergyTariffs> {
+        return Object.fromEntries(
+            Object.entries(tariffs ?? {}).filter(([, value]) => value !== undefined)
+        ) as Partial<EnergyTariffs>;
+    }
+}
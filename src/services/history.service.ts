@@ -0,0 +1,406 @@
+/**
+ * History Service
+ * Records sensor measurements of all hubs into append-only files and answers
+ * time range queries without the gateway
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PlugwiseData } from '../types/plugwise-types.js';
+import { getDataDirectory, getHistoryConfig, HistoryConfig } from '../config/environment.js';
+import { StatePollerService } from './state-poller.service.js';
+
+/**
+ * A raw measurement line: time, entity, sensor key, value
+ */
+interface RawRecord {
+    t: number;
+    e: string;
+    k: string;
+    v: number;
+}
+
+/**
+ * An hourly aggregate line; v is the mean, or the last value of cumulative meters
+ */
+interface HourlyRecord extends RawRecord {
+    min: number;
+    max: number;
+    n: number;
+}
+
+export interface HistoryEntity {
+    name: string;
+    dev_class?: string;
+}
+
+export interface HistoryPoint {
+    timestamp: string;
+    value: number;
+    min?: number;
+    max?: number;
+}
+
+export interface HistorySeries {
+    sensor: string;
+    resolution: 'raw' | 'hourly' | 'downsampled';
+    points: HistoryPoint[];
+}
+
+export interface HistoryQuery {
+    hub: string;
+    entity: string;
+    sensors?: string[];
+    from: Date;
+    to: Date;
+    /** Points per sensor above which the series is downsampled */
+    maxPoints?: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** An unchanged value is recorded again after this long, so gaps mean no data */
+const HEARTBEAT_MS = 15 * 60 * 1000;
+
+const DEFAULT_MAX_POINTS = 500;
+
+/**
+ * Meter readings that only go up; aggregates keep the last value instead of the mean
+ */
+function isCumulative(sensor: string): boolean {
+    return sensor.endsWith('_cumulative');
+}
+
+function dayKey(time: number): string {
+    return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * History Service
+ * Layout under <data directory>/history/<hub>/:
+ * raw/<YYYY-MM-DD>.jsonl, hourly/<YYYY-MM-DD>.jsonl and entities.json (UTC days)
+ */
+export class HistoryService {
+    private lastRecorded: Map<string, { v: number; t: number }> = new Map();
+    private entities: Map<string, Record<string, HistoryEntity>> = new Map();
+    private writes: Map<string, Promise<void>> = new Map();
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly config: HistoryConfig = getHistoryConfig(),
+        private readonly baseDirectory: string = path.join(getDataDirectory(), 'history')
+    ) {}
+
+    isEnabled(): boolean {
+        return this.config.enabled;
+    }
+
+    /**
+     * Record every snapshot of the poller and compact old data once an hour
+     */
+    start(poller: StatePollerService): void {
+        if (!this.config.enabled || this.timer) return;
+
+        poller.on('snapshot', snapshot => {
+            this.record(snapshot.hub, snapshot.data, snapshot.fetchedAt).catch(error =>
+                console.error(`Failed to record history of ${snapshot.hub}:`, error)
+            );
+        });
+
+        void this.compact();
+        this.timer = setInterval(() => void this.compact(), HOUR_MS);
+        this.timer.unref();
+        console.error(`✓ Recording history (raw ${this.config.rawRetentionDays}d, hourly ${this.config.hourlyRetentionDays}d)`);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Append the sensor and binary sensor values of a snapshot
+     * Values are only written when they change or the heartbeat is due.
+     */
+    async record(hub: string, data: PlugwiseData, at: Date = new Date()): Promise<number> {
+        const t = at.getTime();
+        const records: RawRecord[] = [];
+        const index = await this.loadEntities(hub);
+        let indexChanged = false;
+
+        for (const [id, entity] of Object.entries(data.entities)) {
+            const values: Record<string, number> = {};
+            for (const [key, value] of Object.entries(entity.sensors ?? {})) {
+                if (typeof value === 'number' && Number.isFinite(value)) values[key] = value;
+            }
+            for (const [key, value] of Object.entries(entity.binary_sensors ?? {})) {
+                if (typeof value === 'boolean') values[key] = value ? 1 : 0;
+            }
+            if (Object.keys(values).length === 0) continue;
+
+            if (index[id]?.name !== entity.name || index[id]?.dev_class !== entity.dev_class) {
+                index[id] = { name: entity.name, dev_class: entity.dev_class };
+                indexChanged = true;
+            }
+
+            for (const [k, v] of Object.entries(values)) {
+                const key = `${hub}|${id}|${k}`;
+                const last = this.lastRecorded.get(key);
+                if (last && last.v === v && t - last.t < HEARTBEAT_MS) continue;
+
+                this.lastRecorded.set(key, { v, t });
+                records.push({ t, e: id, k, v });
+            }
+        }
+
+        if (records.length === 0 && !indexChanged) return 0;
+
+        await this.enqueue(hub, async () => {
+            const directory = this.hubDirectory(hub);
+            await fs.mkdir(path.join(directory, 'raw'), { recursive: true });
+            if (records.length > 0) {
+                const lines = records.map(record => JSON.stringify(record)).join('\n') + '\n';
+                await fs.appendFile(path.join(directory, 'raw', `${dayKey(t)}.jsonl`), lines, 'utf-8');
+            }
+            if (indexChanged) {
+                await fs.writeFile(path.join(directory, 'entities.json'), JSON.stringify(index, null, 2), 'utf-8');
+            }
+        });
+
+        return records.length;
+    }
+
+    /**
+     * Entities with recorded history of a hub, keyed by ID
+     */
+    async getEntities(hub: string): Promise<Record<string, HistoryEntity>> {
+        return { ...(await this.loadEntities(hub)) };
+    }
+
+    /**
+     * Get the recorded values of an entity in a time range, per sensor key
+     * Raw data is used where it is still kept, hourly aggregates before that.
+     */
+    async query(query: HistoryQuery): Promise<HistorySeries[]> {
+        const { hub, entity, from, to } = query;
+        const maxPoints = query.maxPoints ?? DEFAULT_MAX_POINTS;
+        if (from.getTime() > to.getTime()) {
+            throw new Error('The start of the range must be before its end');
+        }
+
+        await this.writes.get(this.safeName(hub));
+
+        const series = new Map<string, { hourly: boolean; records: (RawRecord | HourlyRecord)[] }>();
+        const wanted = query.sensors && query.sensors.length > 0 ? new Set(query.sensors) : undefined;
+
+        // Nothing is kept past the hourly retention or recorded after now, so only the days in between are read
+        const now = Date.now();
+        const first = Math.max(from.getTime(), now - this.config.hourlyRetentionDays * DAY_MS);
+        const last = Math.min(to.getTime(), now);
+
+        for (let day = Date.parse(dayKey(first)); day <= last; day += DAY_MS) {
+            let records: (RawRecord | HourlyRecord)[] = await this.readDay(hub, 'raw', dayKey(day));
+            let hourly = false;
+            if (records.length === 0) {
+                records = await this.readDay(hub, 'hourly', dayKey(day));
+                hourly = records.length > 0;
+            }
+
+            for (const record of records) {
+                if (record.e !== entity || record.t < from.getTime() || record.t > to.getTime()) continue;
+                if (wanted && !wanted.has(record.k)) continue;
+
+                const entry = series.get(record.k) ?? { hourly: false, records: [] };
+                entry.hourly ||= hourly;
+                entry.records.push(record);
+                series.set(record.k, entry);
+            }
+        }
+
+        return Array.from(series.entries())
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([sensor, { hourly, records }]) => {
+                records.sort((a, b) => a.t - b.t);
+                if (records.length > maxPoints) {
+                    return { sensor, resolution: 'downsampled', points: this.downsample(sensor, records, from, new Date(last), maxPoints) };
+                }
+                return { sensor, resolution: hourly ? 'hourly' : 'raw', points: records.map(record => this.toPoint(record)) };
+            });
+    }
+
+    /**
+     * Downsample raw days past their retention to hourly aggregates and delete
+     * data past the hourly retention
+     */
+    async compact(now: Date = new Date()): Promise<void> {
+        const rawCutoff = dayKey(now.getTime() - this.config.rawRetentionDays * DAY_MS);
+        const hourlyCutoff = dayKey(now.getTime() - this.config.hourlyRetentionDays * DAY_MS);
+
+        let hubs: string[];
+        try {
+            hubs = await fs.readdir(this.baseDirectory);
+        } catch {
+            return;
+        }
+
+        for (const directory of hubs) {
+            await this.enqueue(directory, async () => {
+                const hubDirectory = path.join(this.baseDirectory, directory);
+
+                for (const day of await this.listDays(hubDirectory, 'raw')) {
+                    if (day >= rawCutoff) continue;
+                    const records = await this.readFile(path.join(hubDirectory, 'raw', `${day}.jsonl`));
+                    if (day >= hourlyCutoff) {
+                        await fs.mkdir(path.join(hubDirectory, 'hourly'), { recursive: true });
+                        const lines = this.aggregateHourly(records).map(record => JSON.stringify(record)).join('\n');
+                        await fs.writeFile(path.join(hubDirectory, 'hourly', `${day}.jsonl`), lines ? lines + '\n' : '', 'utf-8');
+                    }
+                    await fs.unlink(path.join(hubDirectory, 'raw', `${day}.jsonl`));
+                }
+
+                for (const day of await this.listDays(hubDirectory, 'hourly')) {
+                    if (day < hourlyCutoff) {
+                        await fs.unlink(path.join(hubDirectory, 'hourly', `${day}.jsonl`));
+                    }
+                }
+            });
+        }
+    }
+
+    /**
+     * Run file operations of a hub one after another
+     */
+    private enqueue(hub: string, task: () => Promise<void>): Promise<void> {
+        const key = this.safeName(hub);
+        const next = (this.writes.get(key) ?? Promise.resolve()).then(task);
+        const settled = next.catch(() => undefined);
+        this.writes.set(key, settled);
+        void settled.then(() => {
+            if (this.writes.get(key) === settled) this.writes.delete(key);
+        });
+        return next;
+    }
+
+    private aggregateHourly(records: RawRecord[]): HourlyRecord[] {
+        const buckets = new Map<string, RawRecord[]>();
+        for (const record of records) {
+            const hour = Math.floor(record.t / HOUR_MS) * HOUR_MS;
+            const key = `${hour}|${record.e}|${record.k}`;
+            const bucket = buckets.get(key) ?? [];
+            bucket.push(record);
+            buckets.set(key, bucket);
+        }
+
+        return Array.from(buckets.entries()).map(([key, bucket]) => {
+            const t = Number(key.split('|')[0]);
+            return { t, e: bucket[0].e, k: bucket[0].k, ...this.aggregate(bucket[0].k, bucket) };
+        });
+    }
+
+    /**
+     * Reduce a series to at most maxPoints equally wide buckets
+     */
+    private downsample(sensor: string, records: RawRecord[], from: Date, to: Date, maxPoints: number): HistoryPoint[] {
+        const start = Math.max(from.getTime(), records[0].t);
+        const width = Math.max(1, Math.ceil((to.getTime() - start + 1) / maxPoints));
+        const buckets = new Map<number, RawRecord[]>();
+
+        for (const record of records) {
+            const bucket = Math.floor((record.t - start) / width);
+            const items = buckets.get(bucket) ?? [];
+            items.push(record);
+            buckets.set(bucket, items);
+        }
+
+        return Array.from(buckets.entries()).map(([bucket, items]) => {
+            const { v, min, max } = this.aggregate(sensor, items);
+            return { timestamp: new Date(start + bucket * width).toISOString(), value: v, min, max };
+        });
+    }
+
+    private aggregate(sensor: string, records: RawRecord[]): { v: number; min: number; max: number; n: number } {
+        const mins = records.map(record => (record as HourlyRecord).min ?? record.v);
+        const maxs = records.map(record => (record as HourlyRecord).max ?? record.v);
+        const counts = records.map(record => (record as HourlyRecord).n ?? 1);
+        const n = counts.reduce((sum, count) => sum + count, 0);
+
+        const v = isCumulative(sensor)
+            ? records[records.length - 1].v
+            : records.reduce((sum, record, i) => sum + record.v * counts[i], 0) / n;
+
+        // Reduce instead of spreading, long ranges have more values than a call takes arguments
+        const min = mins.reduce((lowest, value) => Math.min(lowest, value), Infinity);
+        const max = maxs.reduce((highest, value) => Math.max(highest, value), -Infinity);
+
+        return { v: Math.round(v * 1000) / 1000, min, max, n };
+    }
+
+    private toPoint(record: RawRecord | HourlyRecord): HistoryPoint {
+        const point: HistoryPoint = { timestamp: new Date(record.t).toISOString(), value: record.v };
+        if ('min' in record) {
+            point.min = record.min;
+            point.max = record.max;
+        }
+        return point;
+    }
+
+    private async loadEntities(hub: string): Promise<Record<string, HistoryEntity>> {
+        // Keyed like the hub directory, whose entities.json it caches
+        const key = this.safeName(hub);
+        let index = this.entities.get(key);
+        if (!index) {
+            try {
+                const content = await fs.readFile(path.join(this.hubDirectory(hub), 'entities.json'), 'utf-8');
+                index = JSON.parse(content) as Record<string, HistoryEntity>;
+            } catch {
+                index = {};
+            }
+            this.entities.set(key, index);
+        }
+        return index;
+    }
+
+    private readDay(hub: string, resolution: 'raw' | 'hourly', day: string): Promise<(RawRecord | HourlyRecord)[]> {
+        return this.readFile(path.join(this.hubDirectory(hub), resolution, `${day}.jsonl`));
+    }
+
+    private async readFile(file: string): Promise<RawRecord[]> {
+        let content: string;
+        try {
+            content = await fs.readFile(file, 'utf-8');
+        } catch {
+            return [];
+        }
+
+        const records: RawRecord[] = [];
+        for (const line of content.split('\n')) {
+            if (!line) continue;
+            try {
+                records.push(JSON.parse(line));
+            } catch {
+                // A line cut off by a crash is skipped
+            }
+        }
+        return records;
+    }
+
+    private async listDays(hubDirectory: string, resolution: 'raw' | 'hourly'): Promise<string[]> {
+        try {
+            const files = await fs.readdir(path.join(hubDirectory, resolution));
+            return files.filter(file => file.endsWith('.jsonl')).map(file => file.replace('.jsonl', '')).sort();
+        } catch {
+            return [];
+        }
+    }
+
+    private hubDirectory(hub: string): string {
+        return path.join(this.baseDirectory, this.safeName(hub));
+    }
+
+    private safeName(hub: string): string {
+        return hub.replace(/[^A-Za-z0-9_-]/g, '_');
+    }
+}
@@ -5,22 +5,81 @@
 
 import { execSync } from 'child_process';
 import { PlugwiseClient } from '../client/plugwise-client.js';
-import { loadHubCredentials, HubCredentials } from '../config/environment.js';
+import { loadHubCredentials, HubCredentials, getScanConfig } from '../config/environment.js';
+import { expandScanTargets } from '../utils/cidr.js';
 import { JsonStorageService } from './storage.service.js';
+import { CredentialVaultService } from './credential-vault.service.js';
+import { MdnsDiscoveryService } from './mdns-discovery.service.js';
 
 export interface DiscoveredHub {
     name: string;
     ip: string;
     password: string;
+    port?: number;
+    username?: string;
+    alias?: string;
+    /** Defined in the configuration file; its name is kept */
+    configured?: boolean;
     model?: string;
     firmware?: string;
     discoveredAt: Date;
 }
 
+export interface ScanProgress {
+    scanned: number;
+    total: number;
+    found: number;
+}
+
+export interface ScanOptions {
+    /** CIDR ranges (/16 to /30), default: the configured ranges or the detected local /24 */
+    networks?: string[];
+    /** Addresses or ranges to skip, on top of the configured exclusions */
+    exclude?: string[];
+    /** Addresses probed at the same time */
+    concurrency?: number;
+    signal?: AbortSignal;
+    onProgress?: (progress: ScanProgress) => void;
+}
+
+/**
+ * Key of a hub in the registry; several gateways can share a host on different ports
+ */
+export function hubAddress(host: string, port?: number): string {
+    return `${host}:${port ?? 80}`;
+}
+
+/**
+ * Reject when a promise does not settle in time; the timer is cleared either way
+ * so it does not keep the process alive
+ */
+async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('timeout')), ms);
+    });
+
+    try {
+        return await Promise.race([promise, timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+export class ScanCancelledError extends Error {
+    constructor() {
+        super('Scan cancelled');
+        this.name = 'ScanCancelledError';
+    }
+}
+
 interface HubFileData {
     name: string;
     ip: string;
-    password: string;
+    /** Plaintext password of files written before the credential vault; migrated on startup */
+    password?: string;
+    port?: number;
+    username?: string;
     model?: string;
     firmware?: string;
     discoveredAt: string;
@@ -34,7 +93,10 @@ export class HubDiscoveryService {
     private discoveredHubs: Map<string, DiscoveredHub> = new Map();
     private storage: JsonStorageService<HubFileData>;
 
-    constructor() {
+    constructor(
+        private vault: CredentialVaultService = new CredentialVaultService(),
+        private mdns: MdnsDiscoveryService = new MdnsDiscoveryService()
+    ) {
         this.storage = new JsonStorageService<HubFileData>('hubs');
     }
 
@@ -46,28 +108,33 @@ export class HubDiscoveryService {
     }
 
     /**
-     * Get a hub by IP address
+     * Get a hub by IP address and port; without a port, the first hub at the address
      */
-    getHub(ip: string): DiscoveredHub | undefined {
-        return this.discoveredHubs.get(ip);
+    getHub(ip: string, port?: number): DiscoveredHub | undefined {
+        if (port !== undefined) {
+            return this.discoveredHubs.get(hubAddress(ip, port));
+        }
+        return this.getDiscoveredHubs().find(hub => hub.ip === ip);
     }
 
     /**
      * Add or update a hub in the registry
      */
     addHub(hub: DiscoveredHub): void {
-        this.discoveredHubs.set(hub.ip, hub);
+        this.discoveredHubs.set(hubAddress(hub.ip, hub.port), hub);
     }
 
     /**
-     * Save a hub to storage
+     * Save a hub to storage, with its password in the credential vault
      */
     private async saveHubToFile(hubName: string, hub: DiscoveredHub): Promise<void> {
         try {
+            await this.vault.setSecret(hubName, hub.password);
             const hubData: HubFileData = {
                 name: hub.name,
                 ip: hub.ip,
-                password: hub.password,
+                port: hub.port,
+                username: hub.username,
                 model: hub.model,
                 firmware: hub.firmware,
                 discoveredAt: hub.discoveredAt.toISOString()
@@ -87,20 +154,60 @@ export class HubDiscoveryService {
         try {
             const hubData = await this.storage.load(hubName);
             if (!hubData) return null;
-            
-            return {
-                name: hubData.name,
-                ip: hubData.ip,
-                password: hubData.password,
-                model: hubData.model,
-                firmware: hubData.firmware,
-                discoveredAt: new Date(hubData.discoveredAt)
-            };
+
+            return await this.toDiscoveredHub(hubName, hubData);
         } catch (error) {
             return null;
         }
     }
 
+    /**
+     * Build a hub from its file, taking the password from the vault
+     */
+    private async toDiscoveredHub(hubName: string, hubData: HubFileData): Promise<DiscoveredHub | null> {
+        const password = hubData.password ?? await this.vault.getSecret(hubName);
+        if (!password) {
+            console.error(`⚠️  No stored credential for hub ${hubName}, use add_hub to add it again`);
+            return null;
+        }
+
+        return {
+            name: hubData.name,
+            ip: hubData.ip,
+            password,
+            port: hubData.port,
+            username: hubData.username,
+            model: hubData.model,
+            firmware: hubData.firmware,
+            discoveredAt: new Date(hubData.discoveredAt)
+        };
+    }
+
+    /**
+     * Move plaintext passwords of hub files into the credential vault
+     */
+    async migrateCredentials(): Promise<number> {
+        let migrated = 0;
+
+        for (const [hubName, hubData] of await this.storage.loadAll()) {
+            if (!hubData.password) continue;
+
+            try {
+                const { password, ...rest } = hubData;
+                await this.vault.setSecret(hubName, password);
+                await this.storage.save(hubName, rest);
+                migrated++;
+            } catch (error) {
+                console.error(`Failed to migrate the credential of hub ${hubName}:`, error);
+            }
+        }
+
+        if (migrated > 0) {
+            console.error(`🔐 Moved ${migrated} hub password(s) into the credential vault`);
+        }
+        return migrated;
+    }
+
     /**
      * Load all hubs from storage
      */
@@ -109,14 +216,15 @@ export class HubDiscoveryService {
             const allHubs = await this.storage.loadAll();
 
             for (const [hubName, hubData] of allHubs) {
-                const hub: DiscoveredHub = {
-                    name: hubData.name,
-                    ip: hubData.ip,
-                    password: hubData.password,
-                    model: hubData.model,
-                    firmware: hubData.firmware,
-                    discoveredAt: new Date(hubData.discoveredAt)
-                };
+                const hub = await this.toDiscoveredHub(hubName, hubData).catch(error => {
+                    console.error(`⚠️  Cannot load hub ${hubName}: ${(error as Error).message}`);
+                    return null;
+                });
+                if (!hub) continue;
+
+                // The configuration file wins over stored files
+                if (this.discoveredHubs.get(hubAddress(hub.ip, hub.port))?.configured) continue;
+
                 this.addHub(hub);
                 console.error(`✓ Loaded hub from file: ${hubName} at ${hub.ip}`);
             }
@@ -128,7 +236,7 @@ export class HubDiscoveryService {
     /**
      * Verify a hub is still accessible at its IP, or find it on the network
      */
-    async verifyHub(hub: DiscoveredHub): Promise<DiscoveredHub | null> {
+    async verifyHub(hub: DiscoveredHub, options: ScanOptions = {}): Promise<DiscoveredHub | null> {
         console.error(`\n🔍 Verifying hub: ${hub.name} (${hub.ip})`);
 
         // 1. Try to connect to existing IP
@@ -136,25 +244,19 @@ export class HubDiscoveryService {
             const testClient = new PlugwiseClient({
                 host: hub.ip,
                 password: hub.password,
-                username: 'smile'
+                port: hub.port,
+                username: hub.username
             });
 
             // Short timeout for verification
-            const timeoutPromise = new Promise<never>((_, reject) =>
-                setTimeout(() => reject(new Error('timeout')), 2000)
-            );
-
-            const gatewayInfo = await Promise.race([
-                testClient.connect(),
-                timeoutPromise
-            ]);
+            const gatewayInfo = await withTimeout(testClient.connect(), 2000);
 
             if (gatewayInfo) {
                 console.error(`✅ Hub verified at ${hub.ip}`);
                 // Update details if changed
                 const updatedHub: DiscoveredHub = {
                     ...hub,
-                    name: gatewayInfo.name || hub.name,
+                    name: hub.configured ? hub.name : gatewayInfo.name || hub.name,
                     model: gatewayInfo.model || hub.model,
                     firmware: gatewayInfo.version || hub.firmware,
                     discoveredAt: new Date()
@@ -167,18 +269,21 @@ export class HubDiscoveryService {
             console.error(`⚠️  Hub not reachable at ${hub.ip}: ${(error as Error).message}`);
         }
 
-        // 2. If not found, scan network
-        console.error(`🔄 Scanning network for hub with password/ID: ${hub.password}`);
-        const networkToScan = this.detectLocalNetwork();
-        const foundHub = await this.scanForHub(networkToScan, hub.password, hub.name);
+        // 2. If not found, look it up via mDNS, then scan the network
+        console.error(`🔄 Searching for hub ${hub.name}...`);
+        const foundHub = await this.findHubViaMdns(hub.password, hub.name)
+            ?? await this.scanForHub(hub.password, hub.name, options);
 
         if (foundHub) {
             console.error(`✅ Hub relocated at ${foundHub.ip}`);
             // Preserve original name if the scan didn't find a better one or if we want to keep the file name
             const updatedHub = {
                 ...foundHub,
-                name: hub.name // Keep the original name/ID used for the file
+                name: hub.name, // Keep the original name/ID used for the file
+                alias: hub.alias,
+                configured: hub.configured
             };
+            this.discoveredHubs.delete(hubAddress(hub.ip, hub.port));
             this.addHub(updatedHub);
             await this.saveHubToFile(hub.name, updatedHub);
             return updatedHub;
@@ -191,7 +296,7 @@ export class HubDiscoveryService {
     /**
      * Add a hub by scanning the network with a specific hub name/password
      */
-    async addHubByName(hubName: string): Promise<{
+    async addHubByName(hubName: string, options: ScanOptions = {}): Promise<{
         success: boolean;
         hub?: DiscoveredHub;
         error?: string;
@@ -207,7 +312,7 @@ export class HubDiscoveryService {
             if (existingHub) {
                 console.error(`✓ Found saved hub at ${existingHub.ip}`)
                 // Use verifyHub logic
-                const verifiedHub = await this.verifyHub(existingHub);
+                const verifiedHub = await this.verifyHub(existingHub, options);
                 if (verifiedHub) {
                     return { success: true, hub: verifiedHub };
                 }
@@ -218,12 +323,13 @@ export class HubDiscoveryService {
                 console.error(`ℹ️  No saved configuration found\n`);
             }
 
-            // Scan the network to find the hub
-            const networkToScan = this.detectLocalNetwork();
-            console.error(`📡 Network to scan: ${networkToScan}\n`);
+            // Use hubName as password/ID; gateways announced via mDNS are tried first
+            let hub = await this.findHubViaMdns(hubName, hubName);
+            if (options.signal?.aborted) throw new ScanCancelledError();
 
-            // Use hubName as password/ID
-            const hub = await this.scanForHub(networkToScan, hubName, hubName);
+            if (!hub) {
+                hub = await this.scanForHub(hubName, hubName, options);
+            }
 
             if (hub) {
                 this.addHub(hub);
@@ -231,7 +337,7 @@ export class HubDiscoveryService {
                 console.error(`\n✅ Hub successfully added and saved!\n`);
                 return { success: true, hub };
             } else {
-                const errorMsg = `Hub "${hubName}" not found on network ${networkToScan}. Please ensure the hub is connected and the name is correct.`;
+                const errorMsg = `Hub "${hubName}" not found via mDNS or on network ${this.scanNetworks(options).join(', ')}. Please ensure the hub is connected and the name is correct.`;
                 console.error(`\n❌ ${errorMsg}\n`);
                 return {
                     success: false,
@@ -249,109 +355,188 @@ export class HubDiscoveryService {
     }
 
     /**
-     * Scan network for a specific hub by password (ID)
+     * Find a hub by password (ID) among the gateways announced via mDNS
+     */
+    private async findHubViaMdns(password: string, knownName?: string): Promise<DiscoveredHub | null> {
+        if (!this.mdns.isEnabled()) return null;
+
+        const gateways = await this.mdns.browse();
+        if (gateways.length === 0) {
+            console.error('📡 No gateways announced via mDNS');
+            return null;
+        }
+        console.error(`📡 Found ${gateways.length} gateway(s) via mDNS: ${gateways.map(g => `${g.name} (${g.host})`).join(', ')}`);
+
+        const attempts = gateways.map(async (gateway): Promise<DiscoveredHub> => {
+            const testClient = new PlugwiseClient({
+                host: gateway.host,
+                port: gateway.port,
+                password
+            });
+
+            const gatewayInfo = await withTimeout(testClient.connect(), 3000);
+
+            return {
+                name: gatewayInfo.name || knownName || gateway.name,
+                ip: gateway.host,
+                password,
+                port: gateway.port,
+                model: gatewayInfo.model || gateway.model,
+                firmware: gatewayInfo.version || gateway.firmware,
+                discoveredAt: new Date()
+            };
+        });
+
+        const results = await Promise.allSettled(attempts);
+        const found = results.find((result): result is PromiseFulfilledResult<DiscoveredHub> => result.status === 'fulfilled');
+        if (!found) {
+            console.error('📡 None of the mDNS gateways accepted the password');
+            return null;
+        }
+
+        console.error(`✅ Found hub via mDNS at ${found.value.ip}: ${found.value.name} (${found.value.model})`);
+        return found.value;
+    }
+
+    /**
+     * Scan networks for a specific hub by password (ID), stopping at the first match
      */
     private async scanForHub(
-        network: string,
         password: string,
-        knownName?: string
+        knownName: string | undefined,
+        options: ScanOptions
     ): Promise<DiscoveredHub | null> {
-        const [baseIp] = network.split('/');
-        const [octet1, octet2, octet3] = baseIp.split('.');
-        const networkBase = `${octet1}.${octet2}.${octet3}`;
+        const networks = this.scanNetworks(options);
+        const addresses = this.scanTargets(networks, options);
 
-        console.error(`🔍 Starting network scan on ${networkBase}.1-254 for hub: ${knownName || password}`);
-        console.error(`⏱️  Timeout per IP: 3 seconds`);
-        console.error(`📊 Total IPs to scan: 254`);
-
-        let foundHub: DiscoveredHub | null = null;
-        let scannedCount = 0;
-        let activeScans = 0;
+        console.error(`🔍 Scanning ${addresses.length} address(es) on ${networks.join(', ')} for hub: ${knownName || 'unknown'}`);
         const startTime = Date.now();
 
-        const scanPromises: Promise<DiscoveredHub | null>[] = [];
-
-        for (let lastOctet = 1; lastOctet <= 254; lastOctet++) {
-            const ip = `${networkBase}.${lastOctet}`;
-
-            scanPromises.push(
-                (async () => {
-                    // Early exit if hub already found
-                    if (foundHub) {
-                        return null;
-                    }
-
-                    activeScans++;
-                    try {
-                        const testClient = new PlugwiseClient({
-                            host: ip,
-                            password: password,
-                            username: 'smile'
-                        });
-
-                        // Increased timeout from 2s to 3s for better reliability
-                        const timeoutPromise = new Promise<never>((_, reject) =>
-                            setTimeout(() => reject(new Error('timeout')), 3000)
-                        );
-
-                        const gatewayInfo = await Promise.race([
-                            testClient.connect(),
-                            timeoutPromise
-                        ]);
-
-                        if (gatewayInfo) {
-                            const hub: DiscoveredHub = {
-                                name: gatewayInfo.name || knownName || 'Unknown',
-                                ip,
-                                password: password,
-                                model: gatewayInfo.model,
-                                firmware: gatewayInfo.version,
-                                discoveredAt: new Date()
-                            };
-
-                            if (!foundHub) {
-                                foundHub = hub;
-                                const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-                                console.error(`✅ SUCCESS! Found hub at ${ip}: ${hub.name} (${hub.model})`);
-                                console.error(`   Firmware: ${hub.firmware}`);
-                                console.error(`   Scan time: ${elapsed}s, IPs checked: ${scannedCount}`);
-                            }
-                            return hub;
-                        }
-                    } catch (error) {
-                        // Log detailed errors for debugging
-                        const errorMsg = (error as Error).message;
-                        if (errorMsg !== 'timeout' && !errorMsg.includes('ECONNREFUSED') && !errorMsg.includes('ETIMEDOUT')) {
-                            // console.error(`   ⚠️  ${ip}: ${errorMsg}`);
-                        }
-                    } finally {
-                        activeScans--;
-                        scannedCount++;
-
-                        // Progress logging every 50 IPs
-                        if (scannedCount % 50 === 0) {
-                            const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-                            console.error(`   📊 Progress: ${scannedCount}/254 IPs scanned (${elapsed}s elapsed, ${activeScans} active)`);
-                        }
-                    }
-                    return null;
-                })()
-            );
+        const [foundHub] = await this.probeAddresses(
+            addresses,
+            ip => this.probeAddress(ip, [password], knownName),
+            { ...options, stopOnFirst: true }
+        );
+
+        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+        if (foundHub) {
+            console.error(`✅ SUCCESS! Found hub at ${foundHub.ip}: ${foundHub.name} (${foundHub.model}) in ${elapsed}s`);
+            return foundHub;
         }
 
-        // Wait for all scans to complete or hub to be found
-        await Promise.all(scanPromises);
+        console.error(`❌ Scan completed - no hub found in ${elapsed}s`);
+        return null;
+    }
 
-        const totalElapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+    /**
+     * Networks to scan: the given ranges, the configured ranges or the detected local network
+     */
+    private scanNetworks(options: ScanOptions): string[] {
+        if (options.networks && options.networks.length > 0) return options.networks;
 
-        if (foundHub) {
-            console.error(`🎉 Scan completed successfully in ${totalElapsed}s`);
-            return foundHub;
-        } else {
-            console.error(`❌ Scan completed - no hub found in ${totalElapsed}s`);
-            console.error(`   Scanned ${scannedCount} IPs on network ${networkBase}.0/24`);
-            return null;
+        const configured = getScanConfig().networks;
+        return configured.length > 0 ? configured : [this.detectLocalNetwork()];
+    }
+
+    private scanTargets(networks: string[], options: ScanOptions): string[] {
+        return expandScanTargets(networks, [...getScanConfig().exclude, ...(options.exclude ?? [])]);
+    }
+
+    /**
+     * Try passwords on an address one after another, resolving with the hub or null
+     */
+    private async probeAddress(ip: string, passwords: string[], knownName?: string): Promise<DiscoveredHub | null> {
+        for (const password of passwords) {
+            try {
+                // The client timeout aborts requests to silent addresses
+                const testClient = new PlugwiseClient({
+                    host: ip,
+                    password,
+                    timeout: getScanConfig().timeoutMs
+                });
+                const gatewayInfo = await testClient.connect();
+
+                return {
+                    name: gatewayInfo.name || knownName || 'Unknown',
+                    ip,
+                    password,
+                    model: gatewayInfo.model,
+                    firmware: gatewayInfo.version,
+                    discoveredAt: new Date()
+                };
+            } catch (error) {
+                // No gateway, or not this password
+            }
         }
+        return null;
+    }
+
+    /**
+     * Probe addresses with at most `concurrency` probes in flight
+     * With stopOnFirst the scan ends at the first hub found; an aborted signal
+     * rejects with a ScanCancelledError. Probes in flight are left to time out.
+     */
+    private probeAddresses(
+        addresses: string[],
+        probe: (ip: string) => Promise<DiscoveredHub | null>,
+        options: ScanOptions & { stopOnFirst: boolean }
+    ): Promise<DiscoveredHub[]> {
+        const { signal, onProgress, stopOnFirst } = options;
+        const concurrency = Math.max(1, options.concurrency ?? getScanConfig().concurrency);
+        const total = addresses.length;
+        // Report about every percent
+        const reportEvery = Math.max(1, Math.floor(total / 100));
+
+        return new Promise((resolve, reject) => {
+            const found: DiscoveredHub[] = [];
+            let next = 0;
+            let active = 0;
+            let scanned = 0;
+            let done = false;
+
+            const finish = (error?: Error) => {
+                if (done) return;
+                done = true;
+                signal?.removeEventListener('abort', onAbort);
+                if (error) reject(error);
+                else resolve(found);
+            };
+            const onAbort = () => finish(new ScanCancelledError());
+
+            if (signal?.aborted) return onAbort();
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            const launch = () => {
+                if (done) return;
+                if (next >= total && active === 0) {
+                    onProgress?.({ scanned, total, found: found.length });
+                    return finish();
+                }
+
+                while (active < concurrency && next < total) {
+                    const ip = addresses[next++];
+                    active++;
+
+                    probe(ip).catch(() => null).then(hub => {
+                        active--;
+                        scanned++;
+                        if (done) return;
+
+                        if (hub) found.push(hub);
+                        if (hub || scanned % reportEvery === 0) {
+                            onProgress?.({ scanned, total, found: found.length });
+                        }
+                        if (scanned % 50 === 0) {
+                            console.error(`   📊 Progress: ${scanned}/${total} addresses scanned (${active} active)`);
+                        }
+                        if (hub && stopOnFirst) return finish();
+                        launch();
+                    });
+                }
+            };
+
+            launch();
+        });
     }
 
     /**
@@ -370,85 +555,93 @@ export class HubDiscoveryService {
     }
 
     /**
-     * Load HUB configurations from environment variables
-     * Reads HUBx and HUBxIP variables and pre-populates discoveredHubs
+     * Load hubs from the configuration file and HUBx/HUBxIP variables
+     * and pre-populate discoveredHubs
      */
     async loadFromEnvironment(): Promise<void> {
-        console.error('Loading HUB configurations from .env...');
+        console.error('Loading hub configurations...');
 
         const credentials = loadHubCredentials();
 
-        if (credentials.size === 0) {
-            console.error('No HUBx/HUBxIP pairs found in .env file');
+        if (credentials.length === 0) {
+            console.error('No hubs in the configuration file and no HUBx/HUBxIP pairs in .env');
             return;
         }
 
-        for (const [index, creds] of credentials.entries()) {
+        for (const creds of credentials) {
             if (creds.password && creds.ip) {
+                const base = {
+                    ip: creds.ip,
+                    password: creds.password,
+                    port: creds.port,
+                    username: creds.username,
+                    alias: creds.alias,
+                    configured: creds.name !== undefined
+                };
+
                 try {
                     // Try to connect to get gateway info
                     const testClient = new PlugwiseClient({
                         host: creds.ip,
                         password: creds.password,
-                        username: 'smile'
+                        port: creds.port,
+                        username: creds.username
                     });
 
                     const gatewayInfo = await testClient.connect();
 
                     const hub: DiscoveredHub = {
-                        name: gatewayInfo.name || `Hub ${index}`,
-                        ip: creds.ip,
-                        password: creds.password,
+                        ...base,
+                        name: creds.name || gatewayInfo.name || creds.label,
                         model: gatewayInfo.model,
                         firmware: gatewayInfo.version,
                         discoveredAt: new Date()
                     };
 
                     this.addHub(hub);
-                    console.error(`✓ Loaded HUB${index} at ${creds.ip}: ${hub.name} (${hub.model})`);
+                    console.error(`✓ Loaded ${creds.label} at ${creds.ip}: ${hub.name} (${hub.model})`);
                 } catch (error) {
                     // If connection fails, still store the hub with basic info
                     const hub: DiscoveredHub = {
-                        name: `Hub ${index}`,
-                        ip: creds.ip,
-                        password: creds.password,
+                        ...base,
+                        name: creds.name || creds.label,
                         discoveredAt: new Date()
                     };
 
                     this.addHub(hub);
-                    console.error(`⚠ Loaded HUB${index} at ${creds.ip} (connection failed, stored credentials only)`);
+                    console.error(`⚠ Loaded ${creds.label} at ${creds.ip} (connection failed, stored credentials only)`);
                 }
             }
         }
 
-        console.error(`✓ Loaded ${this.discoveredHubs.size} hub(s) from .env`);
+        console.error(`✓ Loaded ${this.discoveredHubs.size} hub(s) from configuration`);
     }
 
     /**
-     * Scan network for Plugwise hubs
+     * Scan networks for Plugwise hubs with any of the configured passwords
      */
-    async scanNetwork(network?: string): Promise<{
+    async scanNetwork(options: ScanOptions = {}): Promise<{
         discovered: DiscoveredHub[];
         scannedCount: number;
     }> {
         const hubConfigs = loadHubCredentials();
 
-        if (hubConfigs.size === 0) {
-            throw new Error('No HUBx passwords found in .env file. Please add HUB1, HUB2, etc.');
+        if (hubConfigs.length === 0) {
+            throw new Error('No hub passwords configured. Add hubs to the configuration file or HUB1, HUB2, etc. to .env');
         }
 
         const discovered: DiscoveredHub[] = [];
         let scannedCount = 0;
 
         // Strategy 1: Test known IPs from HUBxIP variables
-        const knownIPs = Array.from(hubConfigs.values())
+        const knownIPs = hubConfigs
             .filter(h => h.ip)
             .map(h => h.ip!);
 
         if (knownIPs.length > 0) {
             console.error(`Testing ${knownIPs.length} known hub IP(s)...`);
 
-            for (const [index, config] of hubConfigs.entries()) {
+            for (const config of hubConfigs) {
                 if (!config.ip) continue;
 
                 scannedCount++;
@@ -456,15 +649,20 @@ export class HubDiscoveryService {
                     const testClient = new PlugwiseClient({
                         host: config.ip,
                         password: config.password,
-                        username: 'smile'
+                        port: config.port,
+                        username: config.username
                     });
 
                     const gatewayInfo = await testClient.connect();
 
                     const hub: DiscoveredHub = {
-                        name: gatewayInfo.name || 'Unknown',
+                        name: config.name || gatewayInfo.name || 'Unknown',
                         ip: config.ip,
                         password: config.password,
+                        port: config.port,
+                        username: config.username,
+                        alias: config.alias,
+                        configured: config.name !== undefined,
                         model: gatewayInfo.model,
                         firmware: gatewayInfo.version,
                         discoveredAt: new Date()
@@ -479,13 +677,10 @@ export class HubDiscoveryService {
         }
 
         // Strategy 2: Network scanning if requested or no known IPs
-        const shouldScanNetwork = network || knownIPs.length === 0;
+        const shouldScanNetwork = (options.networks && options.networks.length > 0) || knownIPs.length === 0;
 
         if (shouldScanNetwork) {
-            const networkToScan = network || this.detectLocalNetwork();
-            console.error(`Scanning network ${networkToScan}...`);
-
-            const scanResults = await this.scanNetworkRange(networkToScan, hubConfigs);
+            const scanResults = await this.scanNetworkRange(hubConfigs, options);
             discovered.push(...scanResults.discovered);
             scannedCount += scanResults.scannedCount;
         }
@@ -524,81 +719,31 @@ export class HubDiscoveryService {
     }
 
     /**
-     * Scan a network range for hubs
+     * Scan network ranges for hubs, trying every password on each address
      */
     private async scanNetworkRange(
-        network: string,
-        credentials: Map<number, HubCredentials>
+        credentials: HubCredentials[],
+        options: ScanOptions
     ): Promise<{
         discovered: DiscoveredHub[];
         scannedCount: number;
     }> {
-        const discovered: DiscoveredHub[] = [];
-        let scannedCount = 0;
-
-        // Extract network base
-        const [baseIp] = network.split('/');
-        const [octet1, octet2, octet3] = baseIp.split('.');
-        const networkBase = `${octet1}.${octet2}.${octet3}`;
-
-        const scanPromises: Promise<void>[] = [];
-        const allPasswords = Array.from(credentials.values()).map(h => h.password);
-
-        for (let lastOctet = 1; lastOctet <= 254; lastOctet++) {
-            const ip = `${networkBase}.${lastOctet}`;
-
-            // Skip already discovered IPs
-            if (discovered.some(h => h.ip === ip)) {
-                continue;
-            }
-
-            scannedCount++;
-
-            // Test each password for this IP
-            for (const password of allPasswords) {
-                scanPromises.push(
-                    (async () => {
-                        try {
-                            const testClient = new PlugwiseClient({
-                                host: ip,
-                                password,
-                                username: 'smile'
-                            });
-
-                            // Set a short timeout for scanning
-                            const timeoutPromise = new Promise((_, reject) =>
-                                setTimeout(() => reject(new Error('timeout')), 1500)
-                            );
-
-                            const gatewayInfo = await Promise.race([
-                                testClient.connect(),
-                                timeoutPromise
-                            ]);
-
-                            if (gatewayInfo) {
-                                const hub: DiscoveredHub = {
-                                    name: (gatewayInfo as any).name || 'Unknown',
-                                    ip,
-                                    password,
-                                    model: (gatewayInfo as any).model,
-                                    firmware: (gatewayInfo as any).version,
-                                    discoveredAt: new Date()
-                                };
-                                discovered.push(hub);
-                                this.addHub(hub);
-                                console.error(`✓ Found hub at ${ip}: ${hub.name}`);
-                            }
-                        } catch (error) {
-                            // Ignore connection failures during scan
-                        }
-                    })()
-                );
-            }
+        const networks = this.scanNetworks(options);
+        const addresses = this.scanTargets(networks, options);
+        const allPasswords = Array.from(new Set(credentials.map(h => h.password)));
+
+        console.error(`Scanning ${addresses.length} address(es) on ${networks.join(', ')}...`);
+
+        const discovered = await this.probeAddresses(
+            addresses,
+            ip => this.probeAddress(ip, allPasswords),
+            { ...options, stopOnFirst: false }
+        );
+        for (const hub of discovered) {
+            this.addHub(hub);
+            console.error(`✓ Found hub at ${hub.ip}: ${hub.name}`);
         }
 
-        // Wait for all scans to complete
-        await Promise.all(scanPromises);
-
-        return { discovered, scannedCount };
+        return { discovered, scannedCount: addresses.length };
     }
 }
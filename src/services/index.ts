@@ -1,2 +1,6 @@
 export { ConnectionService } from './connection.service.js';
 export { HubDiscoveryService } from './hub-discovery.service.js';
+export { StatePollerService } from './state-poller.service.js';
+export { HistoryService } from './history.service.js';
+export { EnergyReportService } from './energy-report.service.js';
+export { CredentialVaultService } from './credential-vault.service.js';
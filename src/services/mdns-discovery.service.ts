@@ -0,0 +1,87 @@
+/**
+ * mDNS Discovery Service
+ * Finds Plugwise gateways announcing themselves as _plugwise._tcp
+ */
+
+import Bonjour from 'bonjour-service';
+import { isMdnsEnabled } from '../config/environment.js';
+
+export interface MdnsGateway {
+    /** Service instance name, e.g. smile123abc */
+    name: string;
+    /** IPv4 address, or the .local hostname when none was announced */
+    host: string;
+    hostname: string;
+    port: number;
+    /** Product from the TXT record, e.g. smile_open_therm */
+    model?: string;
+    /** Firmware version from the TXT record */
+    firmware?: string;
+}
+
+const IPV4 = /^\d+\.\d+\.\d+\.\d+$/;
+
+function txtValue(txt: unknown, key: string): string | undefined {
+    const value = (txt as Record<string, unknown> | undefined)?.[key];
+    if (value === undefined || value === null) return undefined;
+    return Buffer.isBuffer(value) ? value.toString('utf-8') : String(value);
+}
+
+function toGateway(service: Bonjour.Service): MdnsGateway {
+    return {
+        name: service.name,
+        host: service.addresses?.find(address => IPV4.test(address))
+            ?? service.referer?.address
+            ?? service.host,
+        hostname: service.host,
+        port: service.port,
+        model: txtValue(service.txt, 'product'),
+        firmware: txtValue(service.txt, 'version')
+    };
+}
+
+/**
+ * mDNS Discovery Service
+ * Browsing listens for a few seconds; failures (no multicast, port 5353 in
+ * use) are logged and yield no gateways, so callers fall back to scanning.
+ */
+export class MdnsDiscoveryService {
+    constructor(private readonly enabled: boolean = isMdnsEnabled()) {}
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Collect the gateways announced within the timeout
+     */
+    browse(timeoutMs: number = 3000): Promise<MdnsGateway[]> {
+        if (!this.enabled) return Promise.resolve([]);
+
+        return new Promise(resolve => {
+            const gateways = new Map<string, MdnsGateway>();
+            let bonjour: Bonjour;
+
+            try {
+                bonjour = new Bonjour({}, (error: Error) => {
+                    console.error(`⚠️  mDNS discovery failed: ${error.message}`);
+                });
+            } catch (error) {
+                console.error(`⚠️  mDNS discovery unavailable: ${(error as Error).message}`);
+                resolve([]);
+                return;
+            }
+
+            const browser = bonjour.find({ type: 'plugwise' }, service => {
+                const gateway = toGateway(service);
+                gateways.set(gateway.hostname || gateway.name, gateway);
+            });
+
+            setTimeout(() => {
+                browser.stop();
+                bonjour.destroy();
+                resolve(Array.from(gateways.values()));
+            }, timeoutMs);
+        });
+    }
+}
@@ -0,0 +1,298 @@
+/**
+ * State Poller Service
+ * Keeps an in-memory snapshot of every connected hub and emits change events
+ */
+
+import { EventEmitter } from 'events';
+import { GatewayEntity, PlugwiseData } from '../types/plugwise-types.js';
+import { getPollInterval } from '../config/environment.js';
+import { ConnectionService } from './connection.service.js';
+
+/**
+ * Last known state of a hub
+ */
+export interface HubSnapshot {
+    hub: string;
+    data: PlugwiseData;
+    fetchedAt: Date;
+    /** Error of the last poll if it failed; the data is then from an earlier poll */
+    error?: string;
+}
+
+/**
+ * How fresh the data returned to a tool is
+ */
+export interface Freshness {
+    hub: string;
+    source: 'snapshot' | 'live';
+    fetched_at: string;
+    age_seconds: number;
+    stale: boolean;
+    last_error?: string;
+}
+
+interface ChangeEventBase {
+    hub: string;
+    device_id: string;
+    device_name: string;
+    timestamp: string;
+}
+
+export interface SetpointChangedEvent extends ChangeEventBase {
+    type: 'setpoint_changed';
+    field: 'setpoint' | 'setpoint_low' | 'setpoint_high';
+    previous?: number;
+    current?: number;
+}
+
+export interface RelayToggledEvent extends ChangeEventBase {
+    type: 'relay_toggled';
+    previous?: boolean;
+    current?: boolean;
+}
+
+export interface DeviceAvailabilityEvent extends ChangeEventBase {
+    type: 'device_unavailable' | 'device_available';
+}
+
+export type StateChangeEvent = SetpointChangedEvent | RelayToggledEvent | DeviceAvailabilityEvent;
+
+const SETPOINT_FIELDS = ['setpoint', 'setpoint_low', 'setpoint_high'] as const;
+
+/**
+ * Compare two snapshots of a hub and describe what changed
+ */
+export function diffSnapshots(hub: string, previous: PlugwiseData, current: PlugwiseData, at: Date): StateChangeEvent[] {
+    const events: StateChangeEvent[] = [];
+    const timestamp = at.toISOString();
+
+    const base = (id: string, entity: GatewayEntity) => ({
+        hub,
+        device_id: id,
+        device_name: entity.name,
+        timestamp
+    });
+
+    for (const [id, before] of Object.entries(previous.entities)) {
+        const after = current.entities[id];
+        const wasAvailable = before.available !== false;
+
+        if (!after || after.available === false) {
+            if (wasAvailable) {
+                events.push({ ...base(id, before), type: 'device_unavailable' });
+            }
+            continue;
+        }
+
+        if (!wasAvailable) {
+            events.push({ ...base(id, after), type: 'device_available' });
+        }
+
+        for (const field of SETPOINT_FIELDS) {
+            const from = before.thermostat?.[field];
+            const to = after.thermostat?.[field];
+            if (from !== to) {
+                events.push({ ...base(id, after), type: 'setpoint_changed', field, previous: from, current: to });
+            }
+        }
+
+        if (before.switches?.relay !== after.switches?.relay) {
+            events.push({
+                ...base(id, after),
+                type: 'relay_toggled',
+                previous: before.switches?.relay,
+                current: after.switches?.relay
+            });
+        }
+    }
+
+    // Devices that were missing from the previous snapshot are back
+    for (const [id, after] of Object.entries(current.entities)) {
+        if (!previous.entities[id] && after.available !== false) {
+            events.push({ ...base(id, after), type: 'device_available' });
+        }
+    }
+
+    return events;
+}
+
+/**
+ * State Poller Service
+ * Polls all hubs in the connection pool at a fixed interval, keeps their
+ * latest PlugwiseData, emits 'snapshot' after every successful poll and a
+ * 'change' event per detected change
+ */
+export class StatePollerService extends EventEmitter {
+    private snapshots: Map<string, HubSnapshot> = new Map();
+    private inFlight: Map<string, Promise<HubSnapshot>> = new Map();
+    private invalidatedAt: Map<string, number> = new Map();
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private connectionService: ConnectionService,
+        private readonly intervalMs: number = getPollInterval() * 1000
+    ) {
+        super();
+    }
+
+    /**
+     * Start polling; the first poll runs immediately
+     */
+    start(): void {
+        if (this.timer) return;
+
+        console.error(`✓ Polling hubs every ${this.intervalMs / 1000}s`);
+        void this.pollAll();
+        this.timer = setInterval(() => void this.pollAll(), this.intervalMs);
+        this.timer.unref();
+    }
+
+    /**
+     * Stop polling
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    isRunning(): boolean {
+        return this.timer !== null;
+    }
+
+    /**
+     * Poll every connected hub and forget hubs that left the pool
+     */
+    async pollAll(): Promise<void> {
+        const hubs = this.connectionService.getConnections().map(connection => connection.name);
+
+        for (const hub of this.snapshots.keys()) {
+            if (!hubs.includes(hub)) this.snapshots.delete(hub);
+        }
+
+        await Promise.all(hubs.map(hub => this.poll(hub).catch(() => undefined)));
+    }
+
+    /**
+     * Fetch the state of a hub now, update its snapshot and emit changes
+     * Concurrent polls of the same hub share one request.
+     */
+    poll(hub: string): Promise<HubSnapshot> {
+        const existing = this.inFlight.get(hub);
+        if (existing) return existing;
+
+        const pending: Promise<HubSnapshot> = this.fetch(hub).finally(() => {
+            if (this.inFlight.get(hub) === pending) this.inFlight.delete(hub);
+        });
+        this.inFlight.set(hub, pending);
+        return pending;
+    }
+
+    /**
+     * Get the last snapshot of a hub (or the default hub) without polling
+     */
+    getSnapshot(hub?: string): HubSnapshot | undefined {
+        const name = hub ?? this.connectionService.getDefaultHub();
+        if (!name) return undefined;
+        return this.snapshots.get(name)
+            ?? Array.from(this.snapshots.values()).find(s => s.hub.toLowerCase() === name.toLowerCase());
+    }
+
+    /**
+     * Get the state of a hub (or the default hub) for a tool
+     * Uses the snapshot while it is younger than two poll intervals, and
+     * fetches live otherwise.
+     */
+    async getData(hub?: string): Promise<{ data: PlugwiseData; freshness: Freshness }> {
+        const client = await this.connectionService.ensureConnected(hub);
+        const name = this.connectionService.getHubName(client)!;
+
+        const snapshot = this.snapshots.get(name);
+        if (snapshot && !snapshot.error && this.isCurrent(snapshot) && this.ageMs(snapshot) <= this.intervalMs * 2) {
+            return { data: snapshot.data, freshness: this.freshness(snapshot, 'snapshot') };
+        }
+
+        try {
+            const fresh = await this.poll(name);
+            return { data: fresh.data, freshness: this.freshness(fresh, 'live') };
+        } catch (error) {
+            // Better an old snapshot than nothing; the freshness marks it stale
+            const last = this.snapshots.get(name);
+            if (last) {
+                return { data: last.data, freshness: this.freshness(last, 'snapshot') };
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Mark the snapshot of a hub as outdated, e.g. after a write
+     */
+    invalidate(hub?: string): void {
+        const name = this.getSnapshot(hub)?.hub ?? hub ?? this.connectionService.getDefaultHub();
+        if (!name) return;
+
+        // A poll that started before the write may return the old state
+        this.invalidatedAt.set(name, Date.now());
+        this.inFlight.delete(name);
+    }
+
+    override on(event: 'change', listener: (change: StateChangeEvent) => void): this;
+    override on(event: 'snapshot', listener: (snapshot: HubSnapshot) => void): this;
+    override on(event: 'error', listener: (error: Error, hub: string) => void): this;
+    override on(event: string, listener: (...args: any[]) => void): this {
+        return super.on(event, listener);
+    }
+
+    private async fetch(hub: string): Promise<HubSnapshot> {
+        const previous = this.snapshots.get(hub);
+        const requestedAt = new Date();
+
+        try {
+            const client = await this.connectionService.ensureConnected(hub);
+            const data = await client.getDevices();
+            const snapshot: HubSnapshot = { hub, data, fetchedAt: requestedAt };
+
+            // The hub may have been disconnected while the request ran
+            if (!this.connectionService.getClient(hub)) return snapshot;
+            this.snapshots.set(hub, snapshot);
+            this.emit('snapshot', snapshot);
+
+            if (previous) {
+                for (const change of diffSnapshots(hub, previous.data, data, snapshot.fetchedAt)) {
+                    this.emit('change', change);
+                }
+            }
+            return snapshot;
+        } catch (error) {
+            if (previous) {
+                this.snapshots.set(hub, { ...previous, error: (error as Error).message });
+            }
+            if (this.listenerCount('error') > 0) {
+                this.emit('error', error as Error, hub);
+            }
+            throw error;
+        }
+    }
+
+    private isCurrent(snapshot: HubSnapshot): boolean {
+        return snapshot.fetchedAt.getTime() > (this.invalidatedAt.get(snapshot.hub) ?? 0);
+    }
+
+    private ageMs(snapshot: HubSnapshot): number {
+        return Date.now() - snapshot.fetchedAt.getTime();
+    }
+
+    private freshness(snapshot: HubSnapshot, source: Freshness['source']): Freshness {
+        const age = this.ageMs(snapshot);
+        return {
+            hub: snapshot.hub,
+            source,
+            fetched_at: snapshot.fetchedAt.toISOString(),
+            age_seconds: Math.round(age / 1000),
+            stale: snapshot.error !== undefined || !this.isCurrent(snapshot) || age > this.intervalMs * 2,
+            last_error: snapshot.error
+        };
+    }
+}
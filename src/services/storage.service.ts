@@ -5,12 +5,13 @@
 
 import { promises as fs } from 'fs';
 import * as path from 'path';
+import { getDataDirectory } from '../config/environment.js';
 
 export class JsonStorageService<T> {
     private baseDirectory: string;
 
     constructor(subdirectory: string) {
-        this.baseDirectory = path.join(process.cwd(), 'mcp_data', 'plugwise', subdirectory);
+        this.baseDirectory = path.join(getDataDirectory(), subdirectory);
         this.ensureDirectory();
     }
 
@@ -0,0 +1,428 @@
+/**
+ * Gateway Simulator
+ * Fake Plugwise gateway serving the HTTP XML API from a mutable scenario
+ *
+ * Reads return the current scenario state, writes are applied to that state so
+ * subsequent reads reflect them, just like a real Smile/Adam/Anna/P1/Stretch.
+ */
+
+import { randomUUID } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { parseStringPromise } from 'xml2js';
+import {
+    SimulatorScenario,
+    SimulatedAppliance,
+    SimulatedLocation,
+    SimulatedFunctionality,
+    SimulatedDirective,
+    SimulatedRule
+} from './scenario-types.js';
+import { XmlRenderer } from './xml-renderer.js';
+
+export interface GatewaySimulatorOptions {
+    scenario: SimulatorScenario;
+    port?: number;
+    host?: string;
+    username?: string;
+    password?: string;
+}
+
+export interface SimulatorRequestLogEntry {
+    method: string;
+    path: string;
+    status: number;
+    body?: string;
+}
+
+/**
+ * Error carrying the HTTP status the simulated gateway responds with
+ */
+class SimulatorHttpError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+        this.name = 'SimulatorHttpError';
+    }
+}
+
+interface ParsedTarget {
+    collection: 'appliances' | 'locations';
+    selector: { key: string; value: string };
+    functionality?: string;
+    functionalitySelector?: { key: string; value: string };
+}
+
+export class GatewaySimulator {
+    private scenario: SimulatorScenario;
+    private server: Server | null = null;
+    private renderer = new XmlRenderer();
+    private requestLog: SimulatorRequestLogEntry[] = [];
+    private rebootCount = 0;
+    private options: Required<Omit<GatewaySimulatorOptions, 'scenario'>>;
+
+    constructor(options: GatewaySimulatorOptions) {
+        this.scenario = structuredClone(options.scenario);
+        this.options = {
+            port: options.port ?? 0,
+            host: options.host ?? '127.0.0.1',
+            username: options.username ?? options.scenario.username,
+            password: options.password ?? options.scenario.password
+        };
+    }
+
+    /**
+     * Start listening, resolves with the bound port
+     */
+    async start(): Promise<number> {
+        this.server = createServer((req, res) => {
+            this.handleRequest(req, res).catch(error => {
+                this.respond(req, res, 500, `Internal simulator error: ${(error as Error).message}`);
+            });
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            this.server!.once('error', reject);
+            this.server!.listen(this.options.port, this.options.host, () => resolve());
+        });
+
+        return (this.server.address() as AddressInfo).port;
+    }
+
+    /**
+     * Stop the HTTP server
+     */
+    async stop(): Promise<void> {
+        if (!this.server) return;
+        const server = this.server;
+        this.server = null;
+        await new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+    }
+
+    /**
+     * Get the current (mutated) scenario state
+     */
+    getState(): SimulatorScenario {
+        return this.scenario;
+    }
+
+    /**
+     * Get all requests handled so far
+     */
+    getRequestLog(): SimulatorRequestLogEntry[] {
+        return [...this.requestLog];
+    }
+
+    /**
+     * Get the number of reboots requested
+     */
+    getRebootCount(): number {
+        return this.rebootCount;
+    }
+
+    private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        if (!this.isAuthorized(req)) {
+            res.setHeader('WWW-Authenticate', 'Basic realm="Plugwise"');
+            this.respond(req, res, 401, 'Unauthorized');
+            return;
+        }
+
+        const body = await this.readBody(req);
+        const path = decodeURIComponent((req.url || '/').split('?')[0]);
+
+        try {
+            const xml = await this.route(req.method || 'GET', path, body);
+            this.respond(req, res, 200, xml, body);
+        } catch (error) {
+            const status = error instanceof SimulatorHttpError ? error.status : 500;
+            this.respond(req, res, status, (error as Error).message, body);
+        }
+    }
+
+    private async route(method: string, path: string, body: string): Promise<string> {
+        if (method === 'GET' && path === '/core/domain_objects') {
+            return this.renderer.renderDomainObjects(this.scenario);
+        }
+
+        if (method === 'GET' && path === '/core/appliances') {
+            return this.renderer.renderAppliances(this.scenario);
+        }
+
+        if (method === 'GET' && path === '/core/locations') {
+            return this.renderer.renderLocations(this.scenario);
+        }
+
+        if (method === 'GET' && path === '/core/modules') {
+            return this.renderer.renderModules(this.scenario);
+        }
+
+        if (method === 'GET' && path === '/system' && this.scenario.legacy) {
+            return this.renderer.renderSystem(this.scenario);
+        }
+
+        if (method === 'POST' && path === '/core/gateways;@reboot') {
+            this.rebootCount++;
+            return '';
+        }
+
+        if (method === 'DELETE' && path === '/core/notifications') {
+            this.scenario.notifications = [];
+            return '';
+        }
+
+        if (method === 'DELETE' && path.startsWith('/core/notifications;id=')) {
+            const id = path.slice('/core/notifications;id='.length);
+            if (!this.scenario.notifications.some(notification => notification.id === id)) {
+                throw new SimulatorHttpError(404, `No notification with id=${id}`);
+            }
+            this.scenario.notifications = this.scenario.notifications.filter(notification => notification.id !== id);
+            return '';
+        }
+
+        if (method === 'POST' && path === '/core/rules') {
+            await this.createRule(body);
+            return '';
+        }
+
+        if (method === 'PUT' && path.startsWith('/core/rules;id=')) {
+            await this.applyRuleUpdate(path.slice('/core/rules;id='.length), body);
+            return '';
+        }
+
+        // Legacy firmware takes the rule id from the body
+        if (method === 'PUT' && path === '/core/rules') {
+            await this.applyRuleUpdate(undefined, body);
+            return '';
+        }
+
+        if (method === 'PUT' && (path.startsWith('/core/appliances;') || path.startsWith('/core/locations;'))) {
+            await this.applyUpdate(this.parseTarget(path), body);
+            return '';
+        }
+
+        throw new SimulatorHttpError(404, `No handler for ${method} ${path}`);
+    }
+
+    /**
+     * Parse paths like /core/locations;id=X/thermostat;id=Y or /core/appliances;type=gateway/regulation_mode_control
+     */
+    private parseTarget(path: string): ParsedTarget {
+        const [, , collectionPart, functionalityPart] = path.split('/');
+        const [collection, selector] = collectionPart.split(';');
+        const [functionality, functionalitySelector] = (functionalityPart || '').split(';');
+
+        return {
+            collection: collection as ParsedTarget['collection'],
+            selector: this.parseSelector(selector),
+            functionality: functionality || undefined,
+            functionalitySelector: functionalitySelector ? this.parseSelector(functionalitySelector) : undefined
+        };
+    }
+
+    private parseSelector(selector: string | undefined): { key: string; value: string } {
+        const [key, value] = (selector || '').split('=');
+        if (!key || !value) {
+            throw new SimulatorHttpError(400, `Invalid selector: ${selector}`);
+        }
+        return { key, value };
+    }
+
+    private async applyUpdate(target: ParsedTarget, body: string): Promise<void> {
+        const parsed = await this.parseBody(body);
+        const owner = this.findOwner(target);
+
+        if (!target.functionality) {
+            // Location update (preset, name) sent as <locations><location>...</location></locations>
+            const location = parsed.locations?.location;
+            if (target.collection !== 'locations' || !location) {
+                throw new SimulatorHttpError(400, 'Expected a <locations> document');
+            }
+            const simulated = owner as SimulatedLocation;
+            if (location.preset !== undefined) simulated.preset = location.preset;
+            if (location.name) simulated.name = location.name;
+            return;
+        }
+
+        const [rootTag] = Object.keys(parsed);
+        const functionality = this.findFunctionality(owner, rootTag, target);
+        const update = parsed[rootTag] || {};
+
+        for (const [key, value] of Object.entries(update)) {
+            if (key === 'id' || typeof value === 'object') continue;
+            functionality.properties[key] = value as string;
+        }
+
+        this.mirrorToLogs(owner, functionality);
+    }
+
+    /**
+     * Apply a <rules><rule id="..."> update (name, active state, contexts, directives)
+     * The rule is taken from the path, or from the body when no id is given in the path
+     */
+    private async applyRuleUpdate(ruleId: string | undefined, body: string): Promise<void> {
+        const parsed = await this.parseBody(body);
+        const update = parsed.rules?.rule;
+        if (!update) {
+            throw new SimulatorHttpError(400, 'Expected a <rules> document');
+        }
+
+        const id = ruleId ?? update.id;
+        const rule = this.scenario.rules.find(item => item.id === id);
+        if (!rule) {
+            throw new SimulatorHttpError(404, `No rule with id=${id}`);
+        }
+
+        if (update.name) rule.name = update.name;
+        if (update.description !== undefined) rule.description = update.description;
+        if (update.active !== undefined) rule.active = update.active === 'true';
+        if (rule.active && this.isPresetRule(rule)) {
+            // Legacy presets are rules, only one of them is active
+            for (const other of this.scenario.rules) {
+                if (other !== rule && this.isPresetRule(other)) other.active = false;
+            }
+        }
+        if (update.contexts !== undefined) rule.locations = this.parseContextLocations(update.contexts);
+        if (update.directives !== undefined) rule.directives = this.parseDirectives(update.directives);
+    }
+
+    /**
+     * Create a rule from a <rules><rule> document, the template is referenced by id or tag
+     */
+    private async createRule(body: string): Promise<void> {
+        const parsed = await this.parseBody(body);
+        const rule = parsed.rules?.rule;
+
+        if (!rule?.name || !rule.template) {
+            throw new SimulatorHttpError(400, 'A rule needs a name and a template');
+        }
+
+        const known = this.scenario.rules.find(item =>
+            item.template && (item.template.id === rule.template.id || item.template.tag === rule.template.tag)
+        );
+
+        this.scenario.rules.push({
+            id: randomUUID().replace(/-/g, ''),
+            name: rule.name,
+            description: rule.description || undefined,
+            template: {
+                id: rule.template.id ?? known?.template?.id ?? randomUUID().replace(/-/g, ''),
+                tag: rule.template.tag ?? known?.template?.tag ?? ''
+            },
+            active: rule.active === 'true',
+            locations: this.parseContextLocations(rule.contexts),
+            directives: this.parseDirectives(rule.directives)
+        });
+    }
+
+    private isPresetRule(rule: SimulatedRule): boolean {
+        return rule.directives.some(directive => directive.then.icon !== undefined);
+    }
+
+    private parseContextLocations(contexts: any): string[] {
+        return this.toArray(contexts?.context)
+            .flatMap(context => this.toArray(context?.zone?.location))
+            .map(location => location.id)
+            .filter(Boolean);
+    }
+
+    private parseDirectives(directives: any): SimulatedDirective[] {
+        return this.toArray(directives?.when).map(when => {
+            const { time, then } = when;
+            return { time, then: { ...(then || {}) } };
+        });
+    }
+
+    private toArray(value: any): any[] {
+        if (!value) return [];
+        return Array.isArray(value) ? value : [value];
+    }
+
+    private findOwner(target: ParsedTarget): SimulatedAppliance | SimulatedLocation {
+        const { key, value } = target.selector;
+        const items: Array<SimulatedAppliance | SimulatedLocation> = target.collection === 'appliances'
+            ? this.scenario.appliances
+            : this.scenario.locations;
+
+        const owner = items.find(item => (item as any)[key] === value);
+        if (!owner) {
+            throw new SimulatorHttpError(404, `No ${target.collection} with ${key}=${value}`);
+        }
+        return owner;
+    }
+
+    private findFunctionality(
+        owner: SimulatedAppliance | SimulatedLocation,
+        rootTag: string,
+        target: ParsedTarget
+    ): SimulatedFunctionality {
+        // Legacy actuators are tagged "relay"/"thermostat" but written as "<thermostat_functionality>" too
+        const candidates = owner.actuators.filter(func => func.tag === rootTag || `${func.tag}_functionality` === rootTag);
+        const selector = target.functionalitySelector;
+
+        const match = candidates.find(func => {
+            if (!selector) return true;
+            if (selector.key === 'id') return func.id === selector.value;
+            return String(func.properties[selector.key]) === selector.value;
+        });
+
+        if (!match) {
+            throw new SimulatorHttpError(404, `${owner.name} has no ${rootTag}${selector ? ` with ${selector.key}=${selector.value}` : ''}`);
+        }
+        return match;
+    }
+
+    /**
+     * Keep the point logs in sync with actuator changes, as the real gateway does
+     */
+    private mirrorToLogs(owner: SimulatedAppliance | SimulatedLocation, functionality: SimulatedFunctionality): void {
+        const mirrors: Record<string, { logType: string; property: string }> = {
+            thermostat_functionality: { logType: 'thermostat', property: 'setpoint' },
+            relay_functionality: { logType: 'relay', property: 'state' },
+            thermostat: { logType: 'thermostat', property: 'setpoint' },
+            relay: { logType: 'relay', property: 'state' }
+        };
+
+        const mirror = mirrors[functionality.tag];
+        if (!mirror) return;
+        if (functionality.properties.type !== undefined && functionality.properties.type !== mirror.logType) return;
+
+        const value = functionality.properties[mirror.property];
+        const log = owner.logs.find(item => item.kind === 'point' && item.type === mirror.logType);
+        if (log && value !== undefined) {
+            log.measurements = [{ value: String(value) }];
+        }
+    }
+
+    private async parseBody(body: string): Promise<any> {
+        if (!body) {
+            throw new SimulatorHttpError(400, 'Missing request body');
+        }
+        try {
+            return await parseStringPromise(body, { explicitArray: false, mergeAttrs: true, trim: true });
+        } catch (error) {
+            throw new SimulatorHttpError(400, `Malformed XML: ${(error as Error).message}`);
+        }
+    }
+
+    private isAuthorized(req: IncomingMessage): boolean {
+        const header = req.headers.authorization || '';
+        if (!header.startsWith('Basic ')) return false;
+
+        const [username, password] = Buffer.from(header.slice(6), 'base64').toString('utf-8').split(':');
+        return username === this.options.username && password === this.options.password;
+    }
+
+    private async readBody(req: IncomingMessage): Promise<string> {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) {
+            chunks.push(chunk as Buffer);
+        }
+        return Buffer.concat(chunks).toString('utf-8');
+    }
+
+    private respond(req: IncomingMessage, res: ServerResponse, status: number, text: string, body?: string): void {
+        this.requestLog.push({ method: req.method || 'GET', path: req.url || '/', status, body: body || undefined });
+        res.statusCode = status;
+        res.setHeader('Content-Type', 'text/xml');
+        res.end(text);
+    }
+}
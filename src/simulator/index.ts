@@ -0,0 +1,3 @@
+export { GatewaySimulator } from './gateway-simulator.js';
+export { getScenario, listScenarios } from './scenarios/index.js';
+export * from './scenario-types.js';
@@ -0,0 +1,120 @@
+/**
+ * Simulator Scenario Types
+ * Data model describing the state served by the gateway simulator
+ */
+
+export type SimulatedLogKind = 'point' | 'cumulative' | 'interval';
+
+export interface SimulatedMeasurement {
+    value: number | string;
+    tariff?: string;
+}
+
+export interface SimulatedLog {
+    id: string;
+    kind: SimulatedLogKind;
+    type: string;
+    unit?: string;
+    measurements: SimulatedMeasurement[];
+    // Meter/service reference linking the log to a module, e.g. electricity_point_meter
+    meter?: { tag: string; id: string };
+}
+
+/**
+ * A child element value of a functionality.
+ * Arrays are rendered as repeated child elements, e.g. allowed_modes/mode.
+ */
+export type SimulatedValue = string | number | boolean | { [key: string]: string[] };
+
+export interface SimulatedFunctionality {
+    id: string;
+    tag: string;
+    properties: Record<string, SimulatedValue>;
+}
+
+export interface SimulatedAppliance {
+    id: string;
+    type: string;
+    name: string;
+    description?: string;
+    vendor_name?: string;
+    vendor_model?: string;
+    firmware_version?: string;
+    hardware_version?: string;
+    mac_address?: string;
+    zigbee_mac_address?: string;
+    location?: string;
+    logs: SimulatedLog[];
+    actuators: SimulatedFunctionality[];
+}
+
+export interface SimulatedLocation {
+    id: string;
+    name: string;
+    type: string;
+    preset?: string;
+    appliances: string[];
+    logs: SimulatedLog[];
+    actuators: SimulatedFunctionality[];
+}
+
+export interface SimulatedGateway {
+    id: string;
+    name: string;
+    description?: string;
+    vendor_name: string;
+    vendor_model: string;
+    firmware_version: string;
+    hardware_version?: string;
+    hostname: string;
+    mac_address: string;
+}
+
+export interface SimulatedNotification {
+    id: string;
+    type: string;
+    message: string;
+    timestamp: string;
+}
+
+export interface SimulatedModule {
+    id: string;
+    vendor_name: string;
+    vendor_model: string;
+    hardware_version?: string;
+    firmware_version?: string;
+    zigbee_mac_address?: string;
+    services: Array<{ tag: string; id: string }>;
+}
+
+export interface SimulatedDirective {
+    time?: string;
+    then: Record<string, string | number>;
+}
+
+export interface SimulatedRule {
+    id: string;
+    name: string;
+    description?: string;
+    // Legacy preset rules have no template
+    template?: { id: string; tag: string };
+    active: boolean;
+    locations: string[];
+    directives: SimulatedDirective[];
+}
+
+export interface SimulatorScenario {
+    key: string;
+    description: string;
+    username: string;
+    password: string;
+    gateway: SimulatedGateway;
+    appliances: SimulatedAppliance[];
+    locations: SimulatedLocation[];
+    notifications: SimulatedNotification[];
+    rules: SimulatedRule[];
+    // Legacy firmware: no <gateway> in domain objects, <actuators> instead of
+    // <actuator_functionalities>, gateway details served from /system
+    legacy?: boolean;
+    modules?: SimulatedModule[];
+}
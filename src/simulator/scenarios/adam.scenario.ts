@@ -0,0 +1,280 @@
+/**
+ * Adam Scenario
+ * Adam with an OpenTherm boiler, two heating zones and a Plug
+ */
+
+import { SimulatorScenario } from '../scenario-types.js';
+import { dayProgram, functionality, pointLog } from './scenario-builders.js';
+
+const GATEWAY_ID = 'fe799307f1624099878210aa0b9f1475';
+const HEATER_ID = '90986d591dcd426cae3ec3e8111ff730';
+const LISA_ID = 'ad4838d7d35c4d6ea796ee12ae5aedf8';
+const TOM_ID = 'e2f4322d57924fa090fbbc48b3a140dc';
+const PLUG_ID = '675416a629f343c495449970e2ca37b5';
+
+const HOME_ID = 'c50f167537524366a5af7aa3942feb1e';
+const LIVING_ROOM_ID = '12493538af164a409c6a1c79e38afe1c';
+const BEDROOM_ID = '82fa13f017d240daa0d0ea1775420f24';
+
+export const adamScenario: SimulatorScenario = {
+    key: 'adam',
+    description: 'Adam with OpenTherm boiler, Lisa and Tom zones and a Plug',
+    username: 'smile',
+    password: 'adamsim1',
+    gateway: {
+        id: 'a270735e4ccd45239424badc0578a2b1',
+        name: 'Adam',
+        vendor_name: 'Plugwise',
+        vendor_model: 'smile_open_therm',
+        firmware_version: '3.7.8',
+        hardware_version: 'AME Smile 2.0 board',
+        hostname: 'smile000001',
+        mac_address: '012345670001'
+    },
+    appliances: [
+        {
+            id: GATEWAY_ID,
+            type: 'gateway',
+            name: 'Adam',
+            description: 'Container for variables logged about the Gateway in general.',
+            vendor_name: 'Plugwise',
+            vendor_model: 'Gateway',
+            firmware_version: '3.7.8',
+            hardware_version: 'AME Smile 2.0 board',
+            mac_address: '012345670001',
+            zigbee_mac_address: 'ABCD012345670101',
+            location: HOME_ID,
+            logs: [
+                pointLog('f8e4a5c8b5a44b6e9b1b2c0e5ec6d3a1', 'outdoor_temperature', 7.69, 'C')
+            ],
+            actuators: [
+                functionality('bc93488efab249e5bc54fd7e175a6f91', 'gateway_mode_control_functionality', {
+                    mode: 'full',
+                    allowed_modes: { mode: ['away', 'full', 'vacation'] }
+                }),
+                functionality('d1d2a1c3e9f84d4ca5c4f5b7a9e3b1c2', 'regulation_mode_control_functionality', {
+                    mode: 'heating',
+                    allowed_modes: { mode: ['bleeding_cold', 'heating', 'off', 'bleeding_hot'] }
+                })
+            ]
+        },
+        {
+            id: HEATER_ID,
+            type: 'heater_central',
+            name: 'OpenTherm',
+            description: 'Central heating boiler',
+            vendor_name: 'Remeha B.V.',
+            vendor_model: '173',
+            location: HOME_ID,
+            logs: [
+                pointLog('2a1c6f1e3d8a4c58a6b0f1d9e7c5b3a1', 'boiler_temperature', 37.2, 'C'),
+                pointLog('3b2d7a2f4e9b5d69b7c1a2e0f8d6c4b2', 'intended_boiler_temperature', 38.1, 'C'),
+                pointLog('4c3e8b3a5fac6e7ac8d2b3f1a9e7d5c3', 'return_water_temperature', 32.0, 'C'),
+                pointLog('5d4f9c4b6abd7f8bd9e3c4a2bafe6d45', 'modulation_level', 48, '%'),
+                pointLog('6e5aad5c7bce8a9cea14d5b3cbaf7e56', 'central_heater_water_pressure', 1.6, 'bar'),
+                pointLog('7f6bbe6d8cdf9babfb25e6c4dcba8f67', 'boiler_state', 'on'),
+                pointLog('8a7ccf7e9dea0cbc0c36f7d5edcb9a78', 'central_heater_state', 'on'),
+                pointLog('9b8dd08faefb1dcd1d4708e6fedcab89', 'domestic_hot_water_state', 'off')
+            ],
+            actuators: [
+                functionality('e4684553153b44afbef2200885f379dc', 'thermostat_functionality', {
+                    type: 'maximum_boiler_temperature',
+                    setpoint: 60,
+                    lower_bound: 25,
+                    upper_bound: 95,
+                    resolution: 0.01
+                }),
+                functionality('a49adb4ac2f947f2a02c5ac8b4e2c1b4', 'thermostat_functionality', {
+                    type: 'domestic_hot_water_setpoint',
+                    setpoint: 60,
+                    lower_bound: 40,
+                    upper_bound: 60,
+                    resolution: 0.01
+                }),
+                functionality('b5baec5bd3a048f3b13d6bd9c5f3d2c5', 'domestic_hot_water_mode_control_functionality', {
+                    mode: 'auto',
+                    allowed_modes: { mode: ['auto', 'boost', 'comfort', 'off'] }
+                })
+            ]
+        },
+        {
+            id: LISA_ID,
+            type: 'zone_thermostat',
+            name: 'Lisa Living room',
+            vendor_name: 'Plugwise',
+            vendor_model: 'Lisa',
+            firmware_version: '2016-10-27T02:00:00+02:00',
+            hardware_version: '255',
+            zigbee_mac_address: 'ABCD012345670102',
+            location: LIVING_ROOM_ID,
+            logs: [
+                pointLog('c1c2d3e4f5a6478899aabbccddeeff01', 'temperature', 20.9, 'C'),
+                pointLog('c1c2d3e4f5a6478899aabbccddeeff02', 'thermostat', 21.5, 'C'),
+                pointLog('c1c2d3e4f5a6478899aabbccddeeff03', 'battery', 67, '%')
+            ],
+            actuators: [
+                functionality('f871b8c4d63549319221e294e4f88074', 'thermostat_functionality', {
+                    type: 'thermostat',
+                    setpoint: 21.5,
+                    lower_bound: 0,
+                    upper_bound: 99.9,
+                    resolution: 0.01
+                }),
+                functionality('9e3aa1a53c8d4ab5bb4c5e1c6d2f7a81', 'offset_functionality', {
+                    type: 'temperature_offset',
+                    offset: 0.0
+                })
+            ]
+        },
+        {
+            id: TOM_ID,
+            type: 'thermostatic_radiator_valve',
+            name: 'Tom Bedroom',
+            vendor_name: 'Plugwise',
+            vendor_model: 'Tom/Floor',
+            firmware_version: '2020-11-04T01:00:00+01:00',
+            hardware_version: '1',
+            zigbee_mac_address: 'ABCD012345670103',
+            location: BEDROOM_ID,
+            logs: [
+                pointLog('d1d2e3f4a5b6479899aabbccddeeff11', 'temperature', 18.6, 'C'),
+                pointLog('d1d2e3f4a5b6479899aabbccddeeff12', 'thermostat', 18.0, 'C'),
+                pointLog('d1d2e3f4a5b6479899aabbccddeeff13', 'valve_position', 0, '%'),
+                pointLog('d1d2e3f4a5b6479899aabbccddeeff14', 'temperature_difference', -0.4, 'C'),
+                pointLog('d1d2e3f4a5b6479899aabbccddeeff15', 'battery', 12, '%')
+            ],
+            actuators: [
+                functionality('a2c3d4e5f6a7489899aabbccddeeff21', 'thermostat_functionality', {
+                    type: 'thermostat',
+                    setpoint: 18.0,
+                    lower_bound: 0,
+                    upper_bound: 99.9,
+                    resolution: 0.01
+                }),
+                functionality('a2c3d4e5f6a7489899aabbccddeeff22', 'offset_functionality', {
+                    type: 'temperature_offset',
+                    offset: 0.0
+                })
+            ]
+        },
+        {
+            id: PLUG_ID,
+            type: 'zz_misc',
+            name: 'Plug Media',
+            vendor_name: 'Plugwise',
+            vendor_model: 'Plug',
+            firmware_version: '2019-06-21T02:00:00+02:00',
+            zigbee_mac_address: 'ABCD012345670104',
+            location: LIVING_ROOM_ID,
+            logs: [
+                pointLog('e1e2e3e4f5a6479899aabbccddeeff31', 'electricity_consumed', 12.4, 'W'),
+                pointLog('e1e2e3e4f5a6479899aabbccddeeff32', 'electricity_produced', 0, 'W'),
+                pointLog('e1e2e3e4f5a6479899aabbccddeeff33', 'relay', 'on')
+            ],
+            actuators: [
+                functionality('2e0579b50b5f4c28a1d9d5e0e3c7f4a1', 'relay_functionality', {
+                    lock: 'false',
+                    state: 'on'
+                })
+            ]
+        }
+    ],
+    locations: [
+        {
+            id: HOME_ID,
+            name: 'Home',
+            type: 'building',
+            appliances: [GATEWAY_ID, HEATER_ID],
+            logs: [
+                pointLog('f1f2f3f4a5b6479899aabbccddeeff41', 'outdoor_temperature', 7.69, 'C')
+            ],
+            actuators: []
+        },
+        {
+            id: LIVING_ROOM_ID,
+            name: 'Living room',
+            type: 'livingroom',
+            preset: 'home',
+            appliances: [LISA_ID, PLUG_ID],
+            logs: [
+                pointLog('a9b8c7d6e5f4439899aabbccddeeff51', 'temperature', 20.9, 'C'),
+                pointLog('a9b8c7d6e5f4439899aabbccddeeff52', 'thermostat', 21.5, 'C'),
+                pointLog('a9b8c7d6e5f4439899aabbccddeeff53', 'electricity_consumed', 12.4, 'W')
+            ],
+            actuators: [
+                functionality('7d1f4c1a8b5e4d93a6f2b8c9d0e1f2a3', 'thermostat_functionality', {
+                    type: 'thermostat',
+                    setpoint: 21.5,
+                    lower_bound: 0,
+                    upper_bound: 35,
+                    resolution: 0.01
+                })
+            ]
+        },
+        {
+            id: BEDROOM_ID,
+            name: 'Bedroom',
+            type: 'bedroom',
+            preset: 'asleep',
+            appliances: [TOM_ID],
+            logs: [
+                pointLog('b9c8d7e6f5a4439899aabbccddeeff61', 'temperature', 18.6, 'C'),
+                pointLog('b9c8d7e6f5a4439899aabbccddeeff62', 'thermostat', 18.0, 'C')
+            ],
+            actuators: [
+                functionality('8e2a5d2b9c6f4ea4b7a3c9dae1f2a3b4', 'thermostat_functionality', {
+                    type: 'thermostat',
+                    setpoint: 18.0,
+                    lower_bound: 0,
+                    upper_bound: 35,
+                    resolution: 0.01
+                })
+            ]
+        }
+    ],
+    notifications: [
+        {
+            id: '97a04c0c263049b29350a660b4cdd01e',
+            type: 'warning',
+            message: 'The Zigbee device Tom Bedroom is running low on battery.',
+            timestamp: '2025-11-20T07:12:04.000+01:00'
+        }
+    ],
+    rules: [
+        {
+            id: 'e7f0befacab442c1af7ca33a7d5c2d31',
+            name: 'Weekschema',
+            description: 'Weekdays away during office hours',
+            template: { id: '2ed3d9d3bb8d4e6a93b3bf0b0b0bfb2c', tag: 'zone_preset_based_on_time_and_presence_with_override' },
+            active: true,
+            locations: [LIVING_ROOM_ID],
+            directives: [
+                ...dayProgram(['mo', 'tu', 'we', 'th', 'fr'], [
+                    ['00:00', '07:00', { preset: 'asleep' }],
+                    ['07:00', '08:30', { preset: 'home' }],
+                    ['08:30', '17:00', { preset: 'away' }],
+                    ['17:00', '22:30', { preset: 'home' }],
+                    ['22:30', '24:00', { preset: 'asleep' }]
+                ]),
+                ...dayProgram(['sa', 'su'], [
+                    ['00:00', '08:00', { preset: 'asleep' }],
+                    ['08:00', '23:00', { preset: 'home' }],
+                    ['23:00', '24:00', { preset: 'asleep' }]
+                ])
+            ]
+        },
+        {
+            id: 'f8a1cfabdbc5430281d7a44b8e6d3e42',
+            name: 'Thuiswerken',
+            description: 'Home all day',
+            template: { id: '2ed3d9d3bb8d4e6a93b3bf0b0b0bfb2c', tag: 'zone_preset_based_on_time_and_presence_with_override' },
+            active: false,
+            locations: [],
+            directives: dayProgram(['mo', 'tu', 'we', 'th', 'fr', 'sa', 'su'], [
+                ['00:00', '07:00', { preset: 'asleep' }],
+                ['07:00', '23:00', { preset: 'home' }],
+                ['23:00', '24:00', { preset: 'asleep' }]
+            ])
+        }
+    ]
+};
@@ -0,0 +1,152 @@
+/**
+ * Anna Heat Pump Scenario
+ * Smile Anna with an Elga hybrid heat pump that is cooling
+ */
+
+import { SimulatorScenario } from '../scenario-types.js';
+import { dayProgram, functionality, pointLog } from './scenario-builders.js';
+
+const GATEWAY_ID = '015ae9ea3f964e668e490fa39da3870b';
+const HEATER_ID = '1cbf783bb11e4a7c8a6843dee3a86927';
+const ANNA_ID = '3cb70739631c4d17a86b8b12e8a5161c';
+
+const HOME_ID = 'a57efe5f145f498c9be62a9b63626fbf';
+const LIVING_ROOM_ID = 'c784ee9fdab44e1395b8dee7d7a497d6';
+
+export const annaHeatPumpScenario: SimulatorScenario = {
+    key: 'anna-heatpump',
+    description: 'Smile Anna with an Elga heat pump in cooling mode',
+    username: 'smile',
+    password: 'annahp12',
+    gateway: {
+        id: '4f8e2c3b1a0d4e5f8a9b0c1d2e3f4a5c',
+        name: 'Smile Anna',
+        vendor_name: 'Plugwise',
+        vendor_model: 'smile_thermo',
+        firmware_version: '4.0.15',
+        hardware_version: 'AME Smile 2.0 board',
+        hostname: 'smile000007',
+        mac_address: '012345670007'
+    },
+    appliances: [
+        {
+            id: GATEWAY_ID,
+            type: 'gateway',
+            name: 'Smile Anna',
+            description: 'Container for variables logged about the Gateway in general.',
+            vendor_name: 'Plugwise',
+            vendor_model: 'Gateway',
+            firmware_version: '4.0.15',
+            hardware_version: 'AME Smile 2.0 board',
+            mac_address: '012345670007',
+            location: HOME_ID,
+            logs: [
+                pointLog('b7c7d7e7f7a7407797b7c7d7e7f7a701', 'outdoor_temperature', 28.2, 'C')
+            ],
+            actuators: []
+        },
+        {
+            id: HEATER_ID,
+            type: 'heater_central',
+            name: 'OpenTherm',
+            description: 'Heat pump',
+            vendor_name: 'Techneco',
+            vendor_model: 'Generic heater/cooler',
+            location: HOME_ID,
+            logs: [
+                pointLog('b8c8d8e8f8a8408898b8c8d8e8f8a801', 'water_temperature', 22.7, 'C'),
+                pointLog('b8c8d8e8f8a8408898b8c8d8e8f8a802', 'intended_boiler_temperature', 0, 'C'),
+                pointLog('b8c8d8e8f8a8408898b8c8d8e8f8a803', 'return_water_temperature', 23.4, 'C'),
+                pointLog('b8c8d8e8f8a8408898b8c8d8e8f8a804', 'modulation_level', 40, '%'),
+                pointLog('b8c8d8e8f8a8408898b8c8d8e8f8a805', 'central_heater_water_pressure', 1.6, 'bar'),
+                pointLog('b8c8d8e8f8a8408898b8c8d8e8f8a806', 'outdoor_air_temperature', 28.0, 'C'),
+                pointLog('b8c8d8e8f8a8408898b8c8d8e8f8a807', 'elga_status_code', 8),
+                pointLog('b8c8d8e8f8a8408898b8c8d8e8f8a808', 'compressor_state', 'on'),
+                pointLog('b8c8d8e8f8a8408898b8c8d8e8f8a809', 'central_heater_state', 'off'),
+                pointLog('b8c8d8e8f8a8408898b8c8d8e8f8a810', 'domestic_hot_water_state', 'off')
+            ],
+            actuators: [
+                functionality('b8c8d8e8f8a8408898b8c8d8e8f8a811', 'thermostat_functionality', {
+                    type: 'maximum_boiler_temperature',
+                    setpoint: 60,
+                    lower_bound: 0,
+                    upper_bound: 100,
+                    resolution: 1
+                })
+            ]
+        },
+        {
+            id: ANNA_ID,
+            type: 'thermostat',
+            name: 'Anna',
+            vendor_name: 'Plugwise',
+            vendor_model: 'ThermoTouch',
+            firmware_version: '2018-02-08T11:15:53+01:00',
+            hardware_version: '6539-1301-5002',
+            location: LIVING_ROOM_ID,
+            logs: [
+                pointLog('b9c9d9e9f9a9409999b9c9d9e9f9a901', 'temperature', 24.9, 'C'),
+                pointLog('b9c9d9e9f9a9409999b9c9d9e9f9a902', 'thermostat', 24.0, 'C'),
+                pointLog('b9c9d9e9f9a9409999b9c9d9e9f9a903', 'illuminance', 312, 'lx'),
+                pointLog('b9c9d9e9f9a9409999b9c9d9e9f9a904', 'cooling_activation_outdoor_temperature', 21.0, 'C'),
+                pointLog('b9c9d9e9f9a9409999b9c9d9e9f9a905', 'cooling_deactivation_threshold', 4, 'C')
+            ],
+            actuators: [
+                functionality('b9c9d9e9f9a9409999b9c9d9e9f9a911', 'thermostat_functionality', {
+                    type: 'thermostat',
+                    setpoint: 24.0,
+                    lower_bound: 4,
+                    upper_bound: 30,
+                    resolution: 0.1
+                })
+            ]
+        }
+    ],
+    locations: [
+        {
+            id: HOME_ID,
+            name: 'Home',
+            type: 'building',
+            appliances: [GATEWAY_ID, HEATER_ID],
+            logs: [
+                pointLog('bac0dae0fab04a00aac0dae0fab04a01', 'outdoor_temperature', 28.2, 'C')
+            ],
+            actuators: []
+        },
+        {
+            id: LIVING_ROOM_ID,
+            name: 'Living room',
+            type: 'livingroom',
+            preset: 'home',
+            appliances: [ANNA_ID],
+            logs: [
+                pointLog('bbc1dbe1fbb14b11abc1dbe1fbb14b01', 'temperature', 24.9, 'C'),
+                pointLog('bbc1dbe1fbb14b11abc1dbe1fbb14b02', 'thermostat', 24.0, 'C')
+            ],
+            actuators: [
+                functionality('bbc1dbe1fbb14b11abc1dbe1fbb14b11', 'thermostat_functionality', {
+                    type: 'thermostat',
+                    setpoint: 24.0,
+                    lower_bound: 4,
+                    upper_bound: 30,
+                    resolution: 0.1
+                })
+            ]
+        }
+    ],
+    notifications: [],
+    rules: [
+        {
+            id: 'bcc2dce2fcb24c22acc2dce2fcb24c01',
+            name: 'Standaard',
+            template: { id: 'bcc2dce2fcb24c22acc2dce2fcb24c02', tag: 'zone_preset_based_on_time_and_presence_with_override' },
+            active: false,
+            locations: [],
+            directives: dayProgram(['mo', 'tu', 'we', 'th', 'fr', 'sa', 'su'], [
+                ['00:00', '07:00', { setpoint: 18 }],
+                ['07:00', '22:00', { setpoint: 21 }],
+                ['22:00', '24:00', { setpoint: 18 }]
+            ])
+        }
+    ]
+};
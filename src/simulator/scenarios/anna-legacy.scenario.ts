@@ -0,0 +1,113 @@
+/**
+ * Legacy Anna Scenario
+ * Smile Anna on firmware 1.8: no <gateway> object, presets are rules, details in /system
+ */
+
+import { SimulatorScenario } from '../scenario-types.js';
+import { functionality, pointLog } from './scenario-builders.js';
+
+const HEATER_ID = 'a8b9c0d1e2f34a5b8c6d7e8f9a0b1c2d';
+const ANNA_ID = '0d7a3e4f5a6b4c7d8e9f0a1b2c3d4e5f';
+
+const HOME_ID = 'e1f2a3b4c5d64e7f8a9b0c1d2e3f4a5b';
+
+/**
+ * A legacy preset rule, the active one determines the preset
+ */
+function presetRule(id: string, preset: string, temperature: number, active: boolean) {
+    return {
+        id,
+        name: preset,
+        active,
+        locations: [],
+        directives: [{ then: { icon: preset, temperature } }]
+    };
+}
+
+export const annaLegacyScenario: SimulatorScenario = {
+    key: 'anna-legacy',
+    description: 'Smile Anna on legacy firmware 1.8 with an OpenTherm boiler',
+    username: 'smile',
+    password: 'annaleg1',
+    legacy: true,
+    gateway: {
+        id: 'f0e1d2c3b4a54968a7b6c5d4e3f2a1b0',
+        name: 'Smile Anna',
+        vendor_name: 'Plugwise',
+        vendor_model: 'smile_thermo',
+        firmware_version: '1.8.22',
+        hostname: 'smile000005',
+        mac_address: '012345670005'
+    },
+    appliances: [
+        {
+            id: HEATER_ID,
+            type: 'heater_central',
+            name: 'OpenTherm',
+            description: 'Central heating boiler',
+            logs: [
+                { ...pointLog('b1c2d3e4f5a64b7c8d9e0f1a2b3c4d01', 'boiler_state', 'on'), meter: { tag: 'boiler_state', id: 'b1c2d3e4f5a64b7c8d9e0f1a2b3c4d11' } },
+                pointLog('b1c2d3e4f5a64b7c8d9e0f1a2b3c4d02', 'boiler_temperature', 52.0, 'C'),
+                pointLog('b1c2d3e4f5a64b7c8d9e0f1a2b3c4d03', 'central_heater_water_pressure', 1.7, 'bar'),
+                pointLog('b1c2d3e4f5a64b7c8d9e0f1a2b3c4d04', 'modulation_level', 35, '%'),
+                pointLog('b1c2d3e4f5a64b7c8d9e0f1a2b3c4d05', 'domestic_hot_water_state', 'off')
+            ],
+            actuators: []
+        },
+        {
+            id: ANNA_ID,
+            type: 'thermostat',
+            name: 'Anna',
+            description: 'Thermostat',
+            logs: [
+                pointLog('c1d2e3f4a5b64c7d8e9f0a1b2c3d4e01', 'temperature', 20.4, 'C'),
+                { ...pointLog('c1d2e3f4a5b64c7d8e9f0a1b2c3d4e02', 'thermostat', 20.5, 'C'), meter: { tag: 'thermostat', id: 'c1d2e3f4a5b64c7d8e9f0a1b2c3d4e11' } },
+                pointLog('c1d2e3f4a5b64c7d8e9f0a1b2c3d4e03', 'illuminance', 151, 'lx')
+            ],
+            actuators: [
+                functionality('c1d2e3f4a5b64c7d8e9f0a1b2c3d4e21', 'thermostat', {
+                    setpoint: 20.5,
+                    lower_bound: 4,
+                    upper_bound: 30,
+                    resolution: 0.1
+                })
+            ]
+        }
+    ],
+    locations: [
+        {
+            id: HOME_ID,
+            name: 'Home',
+            type: 'building',
+            appliances: [HEATER_ID, ANNA_ID],
+            logs: [
+                pointLog('d1e2f3a4b5c64d7e8f9a0b1c2d3e4f01', 'outdoor_temperature', 9.5, 'C')
+            ],
+            actuators: []
+        }
+    ],
+    modules: [
+        {
+            id: 'e0f1a2b3c4d54e6f7a8b9c0d1e2f3a01',
+            vendor_name: 'Plugwise',
+            vendor_model: 'ThermoTouch',
+            hardware_version: '6539-1301-5002',
+            firmware_version: '2018-02-08T11:15:53+01:00',
+            services: [{ tag: 'thermostat', id: 'c1d2e3f4a5b64c7d8e9f0a1b2c3d4e11' }]
+        },
+        {
+            id: 'e0f1a2b3c4d54e6f7a8b9c0d1e2f3a02',
+            vendor_name: 'Remeha B.V.',
+            vendor_model: 'Generic heater',
+            services: [{ tag: 'boiler_state', id: 'b1c2d3e4f5a64b7c8d9e0f1a2b3c4d11' }]
+        }
+    ],
+    notifications: [],
+    rules: [
+        presetRule('f1a2b3c4d5e64f7a8b9c0d1e2f3a4b01', 'home', 20.5, true),
+        presetRule('f1a2b3c4d5e64f7a8b9c0d1e2f3a4b02', 'away', 16, false),
+        presetRule('f1a2b3c4d5e64f7a8b9c0d1e2f3a4b03', 'asleep', 17, false),
+        presetRule('f1a2b3c4d5e64f7a8b9c0d1e2f3a4b04', 'vacation', 15, false),
+        presetRule('f1a2b3c4d5e64f7a8b9c0d1e2f3a4b05', 'no_frost', 10, false)
+    ]
+};
@@ -0,0 +1,159 @@
+/**
+ * Anna Scenario
+ * Smile Anna thermostat with an OpenTherm boiler
+ */
+
+import { SimulatorScenario } from '../scenario-types.js';
+import { dayProgram, functionality, pointLog } from './scenario-builders.js';
+
+const GATEWAY_ID = '0466eae8520144c78afb29628384edeb';
+const HEATER_ID = 'cd0e6156b1f04d5f952349ffbe397481';
+const ANNA_ID = '3cb70739631c4d17a86b8b12e8a5161b';
+
+const HOME_ID = '07d618f0bb80412687f065b8698ce3e7';
+const LIVING_ROOM_ID = 'c784ee9fdab44e1395b8dee7d7a497d5';
+
+export const annaScenario: SimulatorScenario = {
+    key: 'anna',
+    description: 'Smile Anna with an OpenTherm boiler in a single living room zone',
+    username: 'smile',
+    password: 'annasim1',
+    gateway: {
+        id: '7e4bd3d1b9e74b46a56e2b5cbb3c6f32',
+        name: 'Smile Anna',
+        vendor_name: 'Plugwise',
+        vendor_model: 'smile_thermo',
+        firmware_version: '4.0.15',
+        hardware_version: 'AME Smile 2.0 board',
+        hostname: 'smile000002',
+        mac_address: '012345670002'
+    },
+    appliances: [
+        {
+            id: GATEWAY_ID,
+            type: 'gateway',
+            name: 'Smile Anna',
+            description: 'Container for variables logged about the Gateway in general.',
+            vendor_name: 'Plugwise',
+            vendor_model: 'Gateway',
+            firmware_version: '4.0.15',
+            hardware_version: 'AME Smile 2.0 board',
+            mac_address: '012345670002',
+            location: HOME_ID,
+            logs: [
+                pointLog('a1b1c1d1e1f1401191a1b1c1d1e1f101', 'outdoor_temperature', 11.2, 'C')
+            ],
+            actuators: []
+        },
+        {
+            id: HEATER_ID,
+            type: 'heater_central',
+            name: 'OpenTherm',
+            description: 'Central heating boiler',
+            vendor_name: 'Bosch Thermotechniek B.V.',
+            vendor_model: 'Generic heater',
+            location: HOME_ID,
+            logs: [
+                pointLog('a2b2c2d2e2f2402292a2b2c2d2e2f201', 'boiler_temperature', 29.1, 'C'),
+                pointLog('a2b2c2d2e2f2402292a2b2c2d2e2f202', 'intended_boiler_temperature', 0, 'C'),
+                pointLog('a2b2c2d2e2f2402292a2b2c2d2e2f203', 'return_water_temperature', 25.1, 'C'),
+                pointLog('a2b2c2d2e2f2402292a2b2c2d2e2f204', 'modulation_level', 0, '%'),
+                pointLog('a2b2c2d2e2f2402292a2b2c2d2e2f205', 'central_heater_water_pressure', 1.57, 'bar'),
+                pointLog('a2b2c2d2e2f2402292a2b2c2d2e2f206', 'boiler_state', 'off'),
+                pointLog('a2b2c2d2e2f2402292a2b2c2d2e2f207', 'central_heater_state', 'off'),
+                pointLog('a2b2c2d2e2f2402292a2b2c2d2e2f208', 'domestic_hot_water_state', 'off')
+            ],
+            actuators: [
+                functionality('a2b2c2d2e2f2402292a2b2c2d2e2f211', 'thermostat_functionality', {
+                    type: 'maximum_boiler_temperature',
+                    setpoint: 60,
+                    lower_bound: 0,
+                    upper_bound: 100,
+                    resolution: 1
+                }),
+                functionality('a2b2c2d2e2f2402292a2b2c2d2e2f212', 'thermostat_functionality', {
+                    type: 'domestic_hot_water_setpoint',
+                    setpoint: 50,
+                    lower_bound: 30,
+                    upper_bound: 60,
+                    resolution: 0.01
+                })
+            ]
+        },
+        {
+            id: ANNA_ID,
+            type: 'thermostat',
+            name: 'Anna',
+            vendor_name: 'Plugwise',
+            vendor_model: 'ThermoTouch',
+            firmware_version: '2018-02-08T11:15:53+01:00',
+            hardware_version: '6539-1301-5002',
+            location: LIVING_ROOM_ID,
+            logs: [
+                pointLog('a3b3c3d3e3f3403393a3b3c3d3e3f301', 'temperature', 19.3, 'C'),
+                pointLog('a3b3c3d3e3f3403393a3b3c3d3e3f302', 'thermostat', 20.5, 'C'),
+                pointLog('a3b3c3d3e3f3403393a3b3c3d3e3f303', 'illuminance', 86, 'lx')
+            ],
+            actuators: [
+                functionality('a3b3c3d3e3f3403393a3b3c3d3e3f311', 'thermostat_functionality', {
+                    type: 'thermostat',
+                    setpoint: 20.5,
+                    lower_bound: 4,
+                    upper_bound: 30,
+                    resolution: 0.1
+                }),
+                functionality('a3b3c3d3e3f3403393a3b3c3d3e3f312', 'offset_functionality', {
+                    type: 'temperature_offset',
+                    offset: 0.0
+                })
+            ]
+        }
+    ],
+    locations: [
+        {
+            id: HOME_ID,
+            name: 'Home',
+            type: 'building',
+            appliances: [GATEWAY_ID, HEATER_ID],
+            logs: [
+                pointLog('a4b4c4d4e4f4404494a4b4c4d4e4f401', 'outdoor_temperature', 11.2, 'C')
+            ],
+            actuators: []
+        },
+        {
+            id: LIVING_ROOM_ID,
+            name: 'Living room',
+            type: 'livingroom',
+            preset: 'home',
+            appliances: [ANNA_ID],
+            logs: [
+                pointLog('a5b5c5d5e5f5405595a5b5c5d5e5f501', 'temperature', 19.3, 'C'),
+                pointLog('a5b5c5d5e5f5405595a5b5c5d5e5f502', 'thermostat', 20.5, 'C')
+            ],
+            actuators: [
+                functionality('a5b5c5d5e5f5405595a5b5c5d5e5f511', 'thermostat_functionality', {
+                    type: 'thermostat',
+                    setpoint: 20.5,
+                    lower_bound: 4,
+                    upper_bound: 30,
+                    resolution: 0.1
+                })
+            ]
+        }
+    ],
+    notifications: [],
+    rules: [
+        {
+            id: '9b0c1d2e3f40415293a4b5c6d7e8f901',
+            name: 'Standaard',
+            template: { id: '9b0c1d2e3f40415293a4b5c6d7e8f902', tag: 'zone_preset_based_on_time_and_presence_with_override' },
+            active: true,
+            locations: [LIVING_ROOM_ID],
+            directives: dayProgram(['mo', 'tu', 'we', 'th', 'fr', 'sa', 'su'], [
+                ['00:00', '06:30', { setpoint: 16 }],
+                ['06:30', '22:00', { setpoint: 20.5 }],
+                ['22:00', '24:00', { setpoint: 16 }]
+            ])
+        }
+    ]
+};
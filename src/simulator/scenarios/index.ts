@@ -0,0 +1,37 @@
+/**
+ * Scenarios Index
+ * Registry of gateway scenarios available to the simulator
+ */
+
+import { SimulatorScenario } from '../scenario-types.js';
+import { adamScenario } from './adam.scenario.js';
+import { annaScenario } from './anna.scenario.js';
+import { annaLegacyScenario } from './anna-legacy.scenario.js';
+import { annaHeatPumpScenario } from './anna-heatpump.scenario.js';
+import { p1Scenario } from './p1.scenario.js';
+import { stretchScenario } from './stretch.scenario.js';
+import { stretchLegacyScenario } from './stretch-legacy.scenario.js';
+
+const scenarios: Record<string, SimulatorScenario> = {
+    [adamScenario.key]: adamScenario,
+    [annaScenario.key]: annaScenario,
+    [annaHeatPumpScenario.key]: annaHeatPumpScenario,
+    [p1Scenario.key]: p1Scenario,
+    [stretchScenario.key]: stretchScenario,
+    [annaLegacyScenario.key]: annaLegacyScenario,
+    [stretchLegacyScenario.key]: stretchLegacyScenario
+};
+
+/**
+ * Get a scenario by key
+ */
+export function getScenario(key: string): SimulatorScenario | undefined {
+    return scenarios[key];
+}
+
+/**
+ * List all available scenarios
+ */
+export function listScenarios(): SimulatorScenario[] {
+    return Object.values(scenarios);
+}
@@ -0,0 +1,107 @@
+/**
+ * Smile P1 Scenario
+ * Smart meter gateway with peak/off-peak electricity, solar production and gas
+ */
+
+import { SimulatorScenario } from '../scenario-types.js';
+import { pointLog, tariffLog } from './scenario-builders.js';
+
+const GATEWAY_ID = 'aaaa0000aaaa0000aaaa0000aaaa0000';
+const HOME_ID = '938696c4bcdb4b8a9a595cb38ed43913';
+const METER_ID = 'c2d2e2f2a2b2402292c2d2e2f2a2b202';
+
+export const p1Scenario: SimulatorScenario = {
+    key: 'p1',
+    description: 'Smile P1 with a three-phase smart meter, solar production and gas',
+    username: 'smile',
+    password: 'p1sim123',
+    gateway: {
+        id: '4c9b2a4c1d8e4b3aa6f1e2d3c4b5a697',
+        name: 'Smile P1',
+        vendor_name: 'Plugwise',
+        vendor_model: 'smile',
+        firmware_version: '4.4.2',
+        hardware_version: 'AME Smile 2.0 board',
+        hostname: 'smile000003',
+        mac_address: '012345670003'
+    },
+    appliances: [
+        {
+            id: GATEWAY_ID,
+            type: 'gateway',
+            name: 'Smile P1',
+            description: 'Container for variables logged about the Gateway in general.',
+            vendor_name: 'Plugwise',
+            vendor_model: 'Gateway',
+            firmware_version: '4.4.2',
+            hardware_version: 'AME Smile 2.0 board',
+            mac_address: '012345670003',
+            location: HOME_ID,
+            logs: [],
+            actuators: []
+        }
+    ],
+    locations: [
+        {
+            id: HOME_ID,
+            name: 'Home',
+            type: 'building',
+            appliances: [GATEWAY_ID],
+            logs: [
+                {
+                    ...tariffLog('b1c1d1e1f1a1401191b1c1d1e1f1a101', 'point', 'electricity_consumed', [
+                        { value: 486, tariff: 'nl_peak' },
+                        { value: 0, tariff: 'nl_offpeak' }
+                    ], 'W'),
+                    meter: { tag: 'electricity_point_meter', id: METER_ID }
+                },
+                tariffLog('b1c1d1e1f1a1401191b1c1d1e1f1a102', 'point', 'electricity_produced', [
+                    { value: 0, tariff: 'nl_peak' },
+                    { value: 0, tariff: 'nl_offpeak' }
+                ], 'W'),
+                tariffLog('b1c1d1e1f1a1401191b1c1d1e1f1a103', 'cumulative', 'electricity_consumed', [
+                    { value: 17643423, tariff: 'nl_peak' },
+                    { value: 25958285, tariff: 'nl_offpeak' }
+                ], 'Wh'),
+                tariffLog('b1c1d1e1f1a1401191b1c1d1e1f1a104', 'cumulative', 'electricity_produced', [
+                    { value: 5418012, tariff: 'nl_peak' },
+                    { value: 2189340, tariff: 'nl_offpeak' }
+                ], 'Wh'),
+                tariffLog('b1c1d1e1f1a1401191b1c1d1e1f1a105', 'interval', 'electricity_consumed', [
+                    { value: 219, tariff: 'nl_peak' },
+                    { value: 0, tariff: 'nl_offpeak' }
+                ], 'Wh'),
+                tariffLog('b1c1d1e1f1a1401191b1c1d1e1f1a106', 'interval', 'electricity_produced', [
+                    { value: 0, tariff: 'nl_peak' },
+                    { value: 0, tariff: 'nl_offpeak' }
+                ], 'Wh'),
+                tariffLog('b1c1d1e1f1a1401191b1c1d1e1f1a107', 'cumulative', 'gas_consumed', [
+                    { value: 3257.98 }
+                ], 'm3'),
+                tariffLog('b1c1d1e1f1a1401191b1c1d1e1f1a108', 'interval', 'gas_consumed', [
+                    { value: 0.07 }
+                ], 'm3'),
+                pointLog('b1c1d1e1f1a1401191b1c1d1e1f1a109', 'electricity_phase_one_consumed', 198, 'W'),
+                pointLog('b1c1d1e1f1a1401191b1c1d1e1f1a110', 'electricity_phase_two_consumed', 164, 'W'),
+                pointLog('b1c1d1e1f1a1401191b1c1d1e1f1a111', 'electricity_phase_three_consumed', 124, 'W'),
+                pointLog('b1c1d1e1f1a1401191b1c1d1e1f1a112', 'electricity_phase_one_produced', 0, 'W'),
+                pointLog('b1c1d1e1f1a1401191b1c1d1e1f1a113', 'electricity_phase_two_produced', 0, 'W'),
+                pointLog('b1c1d1e1f1a1401191b1c1d1e1f1a114', 'electricity_phase_three_produced', 0, 'W'),
+                pointLog('b1c1d1e1f1a1401191b1c1d1e1f1a115', 'voltage_phase_one', 233.2, 'V'),
+                pointLog('b1c1d1e1f1a1401191b1c1d1e1f1a116', 'voltage_phase_two', 234.4, 'V'),
+                pointLog('b1c1d1e1f1a1401191b1c1d1e1f1a117', 'voltage_phase_three', 234.7, 'V')
+            ],
+            actuators: []
+        }
+    ],
+    notifications: [],
+    rules: [],
+    modules: [
+        {
+            id: 'd3e3f3a3b3c3403393d3e3f3a3b3c303',
+            vendor_name: 'SHENZHEN KAIFA TECHNOLOGY',
+            vendor_model: 'KFM5KAIFA-METER',
+            services: [{ tag: 'electricity_point_meter', id: METER_ID }]
+        }
+    ]
+};
@@ -0,0 +1,74 @@
+/**
+ * Scenario Builders
+ * Small helpers to keep scenario fixtures compact and readable
+ */
+
+import {
+    SimulatedDirective,
+    SimulatedFunctionality,
+    SimulatedLog,
+    SimulatedLogKind,
+    SimulatedMeasurement,
+    SimulatedValue
+} from '../scenario-types.js';
+
+/**
+ * Build a log with a single measurement
+ */
+export function log(
+    id: string,
+    kind: SimulatedLogKind,
+    type: string,
+    value: number | string,
+    unit?: string
+): SimulatedLog {
+    return { id, kind, type, unit, measurements: [{ value }] };
+}
+
+/**
+ * Build a point log with a single measurement
+ */
+export function pointLog(id: string, type: string, value: number | string, unit?: string): SimulatedLog {
+    return log(id, 'point', type, value, unit);
+}
+
+/**
+ * Build a log with one measurement per tariff (P1 smart meters)
+ */
+export function tariffLog(
+    id: string,
+    kind: SimulatedLogKind,
+    type: string,
+    measurements: SimulatedMeasurement[],
+    unit?: string
+): SimulatedLog {
+    return { id, kind, type, unit, measurements };
+}
+
+/**
+ * Build an actuator functionality
+ */
+export function functionality(
+    id: string,
+    tag: string,
+    properties: Record<string, SimulatedValue>
+): SimulatedFunctionality {
+    return { id, tag, properties };
+}
+
+const WEEK_DAYS = ['mo', 'tu', 'we', 'th', 'fr', 'sa', 'su'];
+
+/**
+ * Build schedule directives repeating the same day program on the given days.
+ * A slot ending at 24:00 is written as ending at 00:00 the next day, like the gateway does.
+ */
+export function dayProgram(
+    days: string[],
+    slots: Array<[start: string, end: string, then: Record<string, string | number>]>
+): SimulatedDirective[] {
+    return days.flatMap(day => slots.map(([start, end, then]) => {
+        const endDay = end === '24:00' ? WEEK_DAYS[(WEEK_DAYS.indexOf(day) + 1) % WEEK_DAYS.length] : day;
+        const endTime = end === '24:00' ? '00:00' : end;
+        return { time: `[${day} ${start},${endDay} ${endTime})`, then };
+    }));
+}
@@ -0,0 +1,95 @@
+/**
+ * Legacy Stretch Scenario
+ * Stretch v2 firmware: no <gateway> object, module details in /core/modules
+ */
+
+import { SimulatorScenario } from '../scenario-types.js';
+import { functionality, log, pointLog } from './scenario-builders.js';
+
+const WASHER_ID = '1a2b3c4d5e6f4a7b8c9d0e1f2a3b4c5d';
+const LAMP_ID = '2b3c4d5e6f7a4b8c9d0e1f2a3b4c5d6e';
+
+const HOME_ID = '3c4d5e6f7a8b4c9d0e1f2a3b4c5d6e7f';
+
+export const stretchLegacyScenario: SimulatorScenario = {
+    key: 'stretch-legacy',
+    description: 'Stretch on legacy firmware 2.3 with two Circles',
+    username: 'stretch',
+    password: 'strleg12',
+    legacy: true,
+    gateway: {
+        id: '4d5e6f7a8b9c4d0e1f2a3b4c5d6e7f80',
+        name: 'Stretch',
+        vendor_name: 'Plugwise',
+        vendor_model: 'stretch',
+        firmware_version: '2.3.12',
+        hostname: 'stretch000006',
+        mac_address: '012345670006'
+    },
+    appliances: [
+        {
+            id: WASHER_ID,
+            type: 'washingmachine',
+            name: 'Wasmachine',
+            logs: [
+                { ...pointLog('5e6f7a8b9c0d4e1f2a3b4c5d6e7f8a01', 'electricity_consumed', 1840.5, 'W'), meter: { tag: 'electricity_point_meter', id: '5e6f7a8b9c0d4e1f2a3b4c5d6e7f8a11' } },
+                log('5e6f7a8b9c0d4e1f2a3b4c5d6e7f8a02', 'interval', 'electricity_consumed', 153, 'Wh'),
+                pointLog('5e6f7a8b9c0d4e1f2a3b4c5d6e7f8a03', 'relay', 'on')
+            ],
+            actuators: [
+                functionality('5e6f7a8b9c0d4e1f2a3b4c5d6e7f8a21', 'relay', {
+                    lock: 'true',
+                    state: 'on'
+                })
+            ]
+        },
+        {
+            id: LAMP_ID,
+            type: 'lamp',
+            name: 'Schemerlamp',
+            logs: [
+                { ...pointLog('6f7a8b9c0d1e4f2a3b4c5d6e7f8a9b01', 'electricity_consumed', 0, 'W'), meter: { tag: 'electricity_point_meter', id: '6f7a8b9c0d1e4f2a3b4c5d6e7f8a9b11' } },
+                log('6f7a8b9c0d1e4f2a3b4c5d6e7f8a9b02', 'interval', 'electricity_consumed', 0, 'Wh'),
+                pointLog('6f7a8b9c0d1e4f2a3b4c5d6e7f8a9b03', 'relay', 'off')
+            ],
+            actuators: [
+                functionality('6f7a8b9c0d1e4f2a3b4c5d6e7f8a9b21', 'relay', {
+                    lock: 'false',
+                    state: 'off'
+                })
+            ]
+        }
+    ],
+    locations: [
+        {
+            id: HOME_ID,
+            name: 'Home',
+            type: 'building',
+            appliances: [WASHER_ID, LAMP_ID],
+            logs: [],
+            actuators: []
+        }
+    ],
+    modules: [
+        {
+            id: '7a8b9c0d1e2f4a3b4c5d6e7f8a9b0c01',
+            vendor_name: 'Plugwise',
+            vendor_model: '160-01',
+            hardware_version: '6539-0701-4026',
+            firmware_version: '2011-05-13T09:19:23+02:00',
+            zigbee_mac_address: '000D6F0000000011',
+            services: [{ tag: 'electricity_point_meter', id: '5e6f7a8b9c0d4e1f2a3b4c5d6e7f8a11' }]
+        },
+        {
+            id: '7a8b9c0d1e2f4a3b4c5d6e7f8a9b0c02',
+            vendor_name: 'Plugwise',
+            vendor_model: '160-01',
+            hardware_version: '6539-0701-4026',
+            firmware_version: '2011-06-27T10:47:37+02:00',
+            zigbee_mac_address: '000D6F0000000012',
+            services: [{ tag: 'electricity_point_meter', id: '6f7a8b9c0d1e4f2a3b4c5d6e7f8a9b11' }]
+        }
+    ],
+    notifications: [],
+    rules: []
+};
@@ -0,0 +1,99 @@
+/**
+ * Stretch Scenario
+ * Stretch with Circle+ and Circle smart plugs grouped in a room
+ */
+
+import { SimulatorScenario } from '../scenario-types.js';
+import { functionality, log, pointLog } from './scenario-builders.js';
+
+const GATEWAY_ID = '0d266432d64443e283b5d708ae98b455';
+const CIRCLE_PLUS_ID = '5871317346d045bc9f6b987ef25ee638';
+const CIRCLE_ID = 'aac7b735042c4832ac9ff33aae4f453b';
+
+const LIVING_ROOM_ID = '0000aaaa0000aaaa0000aaaa0000aaaa';
+
+export const stretchScenario: SimulatorScenario = {
+    key: 'stretch',
+    description: 'Stretch with a Circle+ and a Circle',
+    username: 'stretch',
+    password: 'strsim12',
+    gateway: {
+        id: '2d2a1f2a7e7b4b6e9ff6a4b1c5d3e8f9',
+        name: 'Stretch',
+        vendor_name: 'Plugwise',
+        vendor_model: 'stretch',
+        firmware_version: '3.1.11',
+        hardware_version: '6539-0701-4028',
+        hostname: 'stretch000004',
+        mac_address: '012345670004'
+    },
+    appliances: [
+        {
+            id: GATEWAY_ID,
+            type: 'gateway',
+            name: 'Stretch',
+            vendor_name: 'Plugwise',
+            vendor_model: 'Gateway',
+            firmware_version: '3.1.11',
+            mac_address: '012345670004',
+            logs: [],
+            actuators: []
+        },
+        {
+            id: CIRCLE_PLUS_ID,
+            type: 'computer_desktop',
+            name: 'Circle+ Desk',
+            vendor_name: 'Plugwise',
+            vendor_model: 'Circle+',
+            firmware_version: '2011-06-27T10:52:18+02:00',
+            zigbee_mac_address: '000D6F0000000001',
+            location: LIVING_ROOM_ID,
+            logs: [
+                pointLog('c1d1e1f1a1b1401191c1d1e1f1a1b101', 'electricity_consumed', 84.6, 'W'),
+                pointLog('c1d1e1f1a1b1401191c1d1e1f1a1b102', 'electricity_produced', 0, 'W'),
+                log('c1d1e1f1a1b1401191c1d1e1f1a1b103', 'interval', 'electricity_consumed', 21, 'Wh'),
+                pointLog('c1d1e1f1a1b1401191c1d1e1f1a1b104', 'relay', 'on')
+            ],
+            actuators: [
+                functionality('c1d1e1f1a1b1401191c1d1e1f1a1b111', 'relay_functionality', {
+                    lock: 'false',
+                    state: 'on'
+                })
+            ]
+        },
+        {
+            id: CIRCLE_ID,
+            type: 'lamp',
+            name: 'Circle Lamp',
+            vendor_name: 'Plugwise',
+            vendor_model: 'Circle',
+            firmware_version: '2011-06-27T10:47:37+02:00',
+            zigbee_mac_address: '000D6F0000000002',
+            location: LIVING_ROOM_ID,
+            logs: [
+                pointLog('c2d2e2f2a2b2402292c2d2e2f2a2b201', 'electricity_consumed', 0, 'W'),
+                pointLog('c2d2e2f2a2b2402292c2d2e2f2a2b202', 'electricity_produced', 0, 'W'),
+                log('c2d2e2f2a2b2402292c2d2e2f2a2b203', 'interval', 'electricity_consumed', 0, 'Wh'),
+                pointLog('c2d2e2f2a2b2402292c2d2e2f2a2b204', 'relay', 'off')
+            ],
+            actuators: [
+                functionality('c2d2e2f2a2b2402292c2d2e2f2a2b211', 'relay_functionality', {
+                    lock: 'false',
+                    state: 'off'
+                })
+            ]
+        }
+    ],
+    locations: [
+        {
+            id: LIVING_ROOM_ID,
+            name: 'Living room',
+            type: 'livingroom',
+            appliances: [CIRCLE_PLUS_ID, CIRCLE_ID],
+            logs: [],
+            actuators: []
+        }
+    ],
+    notifications: [],
+    rules: []
+};
@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+/**
+ * Gateway Simulator CLI
+ * Runs a fake Plugwise gateway for offline development and testing
+ */
+
+import { GatewaySimulator } from './gateway-simulator.js';
+import { getScenario, listScenarios } from './scenarios/index.js';
+
+interface SimulatorCliOptions {
+    scenario: string;
+    port: number;
+    host: string;
+    password?: string;
+}
+
+function printHelp(): void {
+    const scenarios = listScenarios()
+        .map(scenario => `  ${scenario.key.padEnd(16)}${scenario.description} (password: ${scenario.password})`)
+        .join('\n');
+
+    console.log(`
+Plugwise Gateway Simulator - Fake gateway for offline development
+
+Usage:
+  simulator-cli [options]
+
+Options:
+  --scenario <key>    Gateway scenario to serve (default: adam)
+  --port <number>     Port to listen on (default: 8080)
+  --host <address>    Address to bind to (default: 127.0.0.1)
+  --password <value>  Override the scenario password
+  --help, -h          Show this help message
+
+Scenarios:
+${scenarios}
+`);
+}
+
+function parseArgs(): SimulatorCliOptions {
+    const args = process.argv.slice(2);
+
+    if (args.includes('--help') || args.includes('-h')) {
+        printHelp();
+        process.exit(0);
+    }
+
+    const options: SimulatorCliOptions = {
+        scenario: 'adam',
+        port: 8080,
+        host: '127.0.0.1'
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const value = args[i + 1];
+
+        if (arg === '--scenario' && value) {
+            options.scenario = value;
+            i++;
+        } else if (arg === '--port' && value) {
+            options.port = parseInt(value);
+            i++;
+        } else if (arg === '--host' && value) {
+            options.host = value;
+            i++;
+        } else if (arg === '--password' && value) {
+            options.password = value;
+            i++;
+        }
+    }
+
+    return options;
+}
+
+async function main(): Promise<void> {
+    const options = parseArgs();
+    const scenario = getScenario(options.scenario);
+
+    if (!scenario) {
+        console.error(`Error: Unknown scenario "${options.scenario}"`);
+        console.error(`Available scenarios: ${listScenarios().map(s => s.key).join(', ')}`);
+        process.exit(1);
+    }
+
+    const simulator = new GatewaySimulator({
+        scenario,
+        port: options.port,
+        host: options.host,
+        password: options.password
+    });
+
+    const port = await simulator.start();
+    const password = options.password || scenario.password;
+
+    console.error(`🧪 Plugwise gateway simulator running`);
+    console.error(`   Scenario: ${scenario.key} - ${scenario.description}`);
+    console.error(`   URL:      http://${options.host}:${port}/core/domain_objects`);
+    console.error(`   Login:    ${scenario.username} / ${password}`);
+
+    const shutdown = async () => {
+        await simulator.stop();
+        process.exit(0);
+    };
+
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+    console.error('Failed to start gateway simulator:', error);
+    process.exit(1);
+});
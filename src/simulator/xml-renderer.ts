@@ -0,0 +1,225 @@
+/**
+ * Simulator XML Renderer
+ * Renders the simulated scenario state as Plugwise-style XML documents
+ */
+
+import { Builder } from 'xml2js';
+import {
+    SimulatorScenario,
+    SimulatedAppliance,
+    SimulatedLocation,
+    SimulatedLog,
+    SimulatedFunctionality,
+    SimulatedModule,
+    SimulatedRule,
+    SimulatedValue
+} from './scenario-types.js';
+
+export class XmlRenderer {
+    private builder = new Builder({ xmldec: { version: '1.0', encoding: 'UTF-8' } });
+
+    /**
+     * Render the full /core/domain_objects document
+     */
+    renderDomainObjects(scenario: SimulatorScenario): string {
+        const { gateway } = scenario;
+
+        return this.builder.buildObject({
+            domain_objects: {
+                ...(!scenario.legacy && {
+                    gateway: {
+                        $: { id: gateway.id },
+                        name: gateway.name,
+                        description: gateway.description ?? '',
+                        vendor_name: gateway.vendor_name,
+                        vendor_model: gateway.vendor_model,
+                        hardware_version: gateway.hardware_version ?? '',
+                        firmware_version: gateway.firmware_version,
+                        hostname: gateway.hostname,
+                        mac_address: gateway.mac_address
+                    }
+                }),
+                appliance: scenario.appliances.map(appliance => this.renderAppliance(appliance, scenario.legacy)),
+                location: scenario.locations.map(location => this.renderLocation(location)),
+                module: (scenario.modules ?? []).map(module => this.renderModule(module)),
+                rule: scenario.rules.map(rule => this.renderRule(rule)),
+                notification: scenario.notifications.map(notification => ({
+                    $: { id: notification.id },
+                    type: notification.type,
+                    message: notification.message,
+                    timestamp: notification.timestamp
+                }))
+            }
+        });
+    }
+
+    /**
+     * Render /core/appliances
+     */
+    renderAppliances(scenario: SimulatorScenario): string {
+        return this.builder.buildObject({
+            appliances: { appliance: scenario.appliances.map(appliance => this.renderAppliance(appliance, scenario.legacy)) }
+        });
+    }
+
+    /**
+     * Render /core/locations
+     */
+    renderLocations(scenario: SimulatorScenario): string {
+        return this.builder.buildObject({
+            locations: { location: scenario.locations.map(location => this.renderLocation(location)) }
+        });
+    }
+
+    /**
+     * Render /core/modules
+     */
+    renderModules(scenario: SimulatorScenario): string {
+        return this.builder.buildObject({
+            modules: { module: (scenario.modules ?? []).map(module => this.renderModule(module)) }
+        });
+    }
+
+    /**
+     * Render /system, used by legacy firmware to describe the gateway
+     */
+    renderSystem(scenario: SimulatorScenario): string {
+        const { gateway } = scenario;
+
+        return this.builder.buildObject({
+            system: {
+                gateway: {
+                    product: gateway.vendor_model,
+                    firmware: gateway.firmware_version,
+                    hostname: gateway.hostname
+                },
+                eth0: { mac: gateway.mac_address }
+            }
+        });
+    }
+
+    private renderAppliance(appliance: SimulatedAppliance, legacy = false): any {
+        return {
+            $: { id: appliance.id },
+            name: appliance.name,
+            description: appliance.description ?? '',
+            type: appliance.type,
+            ...(appliance.vendor_name && { vendor_name: appliance.vendor_name }),
+            ...(appliance.vendor_model && { vendor_model: appliance.vendor_model }),
+            ...(appliance.firmware_version && { firmware_version: appliance.firmware_version }),
+            ...(appliance.hardware_version && { hardware_version: appliance.hardware_version }),
+            ...(appliance.mac_address && { mac_address: appliance.mac_address }),
+            ...(appliance.zigbee_mac_address && { zigbee_mac_address: appliance.zigbee_mac_address }),
+            ...(appliance.location && { location: { $: { id: appliance.location } } }),
+            logs: this.renderLogs(appliance.logs),
+            [legacy ? 'actuators' : 'actuator_functionalities']: this.renderFunctionalities(appliance.actuators)
+        };
+    }
+
+    private renderLocation(location: SimulatedLocation): any {
+        return {
+            $: { id: location.id },
+            name: location.name,
+            description: '',
+            type: location.type,
+            ...(location.preset && { preset: location.preset }),
+            appliances: {
+                appliance: location.appliances.map(id => ({ $: { id } }))
+            },
+            logs: this.renderLogs(location.logs),
+            actuator_functionalities: this.renderFunctionalities(location.actuators)
+        };
+    }
+
+    private renderModule(module: SimulatedModule): any {
+        const services: Record<string, any[]> = {};
+        for (const service of module.services) {
+            if (!services[service.tag]) services[service.tag] = [];
+            services[service.tag].push({ $: { id: service.id } });
+        }
+
+        return {
+            $: { id: module.id },
+            vendor_name: module.vendor_name,
+            vendor_model: module.vendor_model,
+            hardware_version: module.hardware_version ?? '',
+            firmware_version: module.firmware_version ?? '',
+            services,
+            ...(module.zigbee_mac_address && {
+                protocols: { zig_bee_node: { mac_address: module.zigbee_mac_address } }
+            })
+        };
+    }
+
+    private renderRule(rule: SimulatedRule): any {
+        return {
+            $: { id: rule.id },
+            name: rule.name,
+            description: rule.description ?? '',
+            ...(rule.template && { template: { $: { id: rule.template.id, tag: rule.template.tag } } }),
+            active: String(rule.active),
+            directives: {
+                when: rule.directives.map(directive => ({
+                    ...(directive.time && { $: { time: directive.time } }),
+                    then: { $: directive.then }
+                }))
+            },
+            contexts: {
+                context: rule.locations.map(id => ({ zone: { location: { $: { id } } } }))
+            }
+        };
+    }
+
+    private renderLogs(logs: SimulatedLog[]): any {
+        const now = new Date().toISOString();
+        const rendered: Record<string, any[]> = {};
+
+        for (const log of logs) {
+            const tag = `${log.kind}_log`;
+            if (!rendered[tag]) rendered[tag] = [];
+
+            rendered[tag].push({
+                $: { id: log.id },
+                type: log.type,
+                ...(log.unit && { unit: log.unit }),
+                updated_date: now,
+                ...(log.meter && { [log.meter.tag]: { $: { id: log.meter.id } } }),
+                period: {
+                    $: { start_date: now, end_date: now },
+                    measurement: log.measurements.map(measurement => ({
+                        $: {
+                            log_date: now,
+                            ...(measurement.tariff && { tariff: measurement.tariff })
+                        },
+                        _: String(measurement.value)
+                    }))
+                }
+            });
+        }
+
+        return rendered;
+    }
+
+    private renderFunctionalities(functionalities: SimulatedFunctionality[]): any {
+        const rendered: Record<string, any[]> = {};
+
+        for (const functionality of functionalities) {
+            if (!rendered[functionality.tag]) rendered[functionality.tag] = [];
+
+            const element: Record<string, any> = { $: { id: functionality.id } };
+            for (const [key, value] of Object.entries(functionality.properties)) {
+                element[key] = this.renderValue(value);
+            }
+            rendered[functionality.tag].push(element);
+        }
+
+        return rendered;
+    }
+
+    private renderValue(value: SimulatedValue): any {
+        if (typeof value === 'object') {
+            return value;
+        }
+        return String(value);
+    }
+}
@@ -70,6 +70,8 @@ export interface SmileSensors {
     voltage_phase_three?: number;
     water_pressure?: number;
     water_temperature?: number;
+    /** Other measurements, keyed by log type, tariff and kind */
+    [key: string]: number | undefined;
 }
 
 export interface SmileBinarySensors {
@@ -82,6 +84,8 @@ export interface SmileBinarySensors {
     low_battery?: boolean;
     plugwise_notification?: boolean;
     secondary_boiler_state?: boolean;
+    /** Other on/off point logs, keyed by log type */
+    [key: string]: boolean | undefined;
 }
 
 export interface SmileSwitches {
@@ -164,6 +168,13 @@ export interface GatewayInfo {
     zigbee_mac_address?: string;
 }
 
+export interface PlugwiseNotification {
+    id: string;
+    type: string;
+    message: string;
+    timestamp?: string;
+}
+
 export interface PlugwiseData {
     gateway_id: string;
     heater_id?: string;
@@ -184,9 +195,49 @@ export interface SetSwitchParams {
     model?: string;
 }
 
-export type GatewayMode = 'home' | 'away' | 'vacation';
-export type DHWMode = 'auto' | 'boost' | 'comfort' | 'off';
-export type RegulationMode = 'heating' | 'off' | 'bleeding_cold' | 'bleeding_hot';
+export type ScheduleDay = 'mo' | 'tu' | 'we' | 'th' | 'fr' | 'sa' | 'su';
+
+export interface ScheduleBlock {
+    day: ScheduleDay;
+    start: string;
+    end: string;
+    preset?: string;
+    setpoint?: number;
+}
+
+export interface Schedule {
+    id: string;
+    name: string;
+    description?: string;
+    template_id?: string;
+    active: boolean;
+    locations: string[];
+    blocks: ScheduleBlock[];
+}
+
+export interface SaveScheduleParams {
+    name: string;
+    description?: string;
+    blocks: ScheduleBlock[];
+    // Preset or setpoint used for every period not covered by a block
+    fill?: Pick<ScheduleBlock, 'preset' | 'setpoint'>;
+    // Zones to apply the schedule to, existing zones are kept when omitted
+    location_ids?: string[];
+}
+
+export interface ModeOptions {
+    selected?: string;
+    options: string[];
+}
+
+export interface GatewayStatus {
+    gateway_id: string;
+    gateway_info: GatewayInfo;
+    gateway_mode?: ModeOptions;
+    regulation_mode?: ModeOptions;
+    dhw_mode?: ModeOptions;
+    notification_count: number;
+}
 
 export class PlugwiseError extends Error {
     constructor(message: string) {
@@ -215,3 +266,10 @@ export class InvalidSetupError extends PlugwiseError {
         this.name = 'InvalidSetupError';
     }
 }
+
+export class ScheduleValidationError extends PlugwiseError {
+    constructor(public readonly issues: string[]) {
+        super(`Invalid schedule: ${issues.join('; ')}`);
+        this.name = 'ScheduleValidationError';
+    }
+}
@@ -0,0 +1,99 @@
+/**
+ * CIDR Helper Utilities
+ * Parse IPv4 ranges and list the host addresses of a network scan
+ */
+
+/** Largest network a scan covers (65534 hosts) */
+export const MIN_SCAN_PREFIX = 16;
+
+/** Smallest network a scan covers (2 hosts) */
+export const MAX_SCAN_PREFIX = 30;
+
+export interface Ipv4Range {
+    /** Normalized range, e.g. 192.168.1.0/24 */
+    cidr: string;
+    prefix: number;
+    /** First and last host address as unsigned 32-bit numbers */
+    first: number;
+    last: number;
+}
+
+/**
+ * Convert a dotted IPv4 address to an unsigned 32-bit number
+ */
+export function ipToNumber(ip: string): number {
+    const octets = ip.trim().split('.');
+    if (octets.length !== 4 || octets.some(octet => !/^\d{1,3}$/.test(octet) || Number(octet) > 255)) {
+        throw new Error(`Invalid IPv4 address ${ip}`);
+    }
+    return octets.reduce((result, octet) => result * 256 + Number(octet), 0);
+}
+
+export function numberToIp(value: number): string {
+    return [24, 16, 8, 0].map(shift => Math.floor(value / 2 ** shift) % 256).join('.');
+}
+
+/**
+ * Parse a CIDR range; a bare address is a /32
+ * The network and broadcast addresses are not hosts, except in /31 and /32.
+ */
+export function parseCidr(value: string, minPrefix = 0, maxPrefix = 32): Ipv4Range {
+    const [address, prefixText, extra] = value.trim().split('/');
+    const prefix = prefixText === undefined ? 32 : Number(prefixText);
+
+    if (extra !== undefined || (prefixText !== undefined && !/^\d{1,2}$/.test(prefixText)) || prefix > 32) {
+        throw new Error(`Invalid CIDR range ${value}`);
+    }
+    const ip = ipToNumber(address);
+    if (prefix < minPrefix || prefix > maxPrefix) {
+        throw new Error(`Range ${value} must have a prefix from /${minPrefix} to /${maxPrefix}`);
+    }
+
+    const size = 2 ** (32 - prefix);
+    const network = Math.floor(ip / size) * size;
+    const hostsOnly = prefix <= 30;
+
+    return {
+        cidr: `${numberToIp(network)}/${prefix}`,
+        prefix,
+        first: hostsOnly ? network + 1 : network,
+        last: hostsOnly ? network + size - 2 : network + size - 1
+    };
+}
+
+/**
+ * Split a comma or whitespace separated list of ranges
+ */
+export function splitRanges(value: string | string[] | undefined): string[] {
+    const values = Array.isArray(value) ? value : value ? [value] : [];
+    return values.flatMap(item => item.split(/[\s,]+/)).filter(item => item.length > 0);
+}
+
+/**
+ * List the host addresses of scan ranges (/16 to /30) in order, without
+ * duplicates and without excluded addresses or ranges
+ */
+export function expandScanTargets(networks: string[], exclude: string[] = []): string[] {
+    const ranges = networks.map(network => parseCidr(network, MIN_SCAN_PREFIX, MAX_SCAN_PREFIX));
+    const excluded = exclude.map(range => {
+        const parsed = parseCidr(range);
+        // An excluded range also drops its network and broadcast address
+        const size = 2 ** (32 - parsed.prefix);
+        const network = ipToNumber(parsed.cidr.split('/')[0]);
+        return { first: network, last: network + size - 1 };
+    });
+
+    const seen = new Set<number>();
+    const addresses: string[] = [];
+
+    for (const range of ranges) {
+        for (let address = range.first; address <= range.last; address++) {
+            if (seen.has(address)) continue;
+            seen.add(address);
+            if (excluded.some(ex => address >= ex.first && address <= ex.last)) continue;
+            addresses.push(numberToIp(address));
+        }
+    }
+
+    return addresses;
+}
@@ -0,0 +1,37 @@
+/**
+ * Validation Helper Utilities
+ * Format zod issues and publish zod schemas as JSON Schema
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+/**
+ * Format an issue path like hubs[0].password
+ */
+export function formatIssuePath(issuePath: (string | number)[]): string {
+    return issuePath.reduce<string>(
+        (result, key) => typeof key === 'number' ? `${result}[${key}]` : result ? `${result}.${key}` : key,
+        ''
+    ) || '(root)';
+}
+
+/**
+ * One "path: message" line per issue
+ */
+export function formatIssues(error: z.ZodError): string[] {
+    return error.issues.map(issue => `${formatIssuePath(issue.path)}: ${issue.message}`);
+}
+
+/**
+ * JSON Schema of a zod schema with references inlined
+ * Objects do not forbid additional properties: unknown arguments are stripped
+ * and results may carry more fields than the schema lists.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+    const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+        $refStrategy: 'none',
+        rejectedAdditionalProperties: undefined
+    }) as Record<string, unknown>;
+    return jsonSchema;
+}
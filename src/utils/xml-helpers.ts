@@ -28,6 +28,80 @@ export function extractMeasurement(log: any): number | undefined {
     return isNaN(num) ? undefined : num;
 }
 
+/**
+ * Extract an on/off measurement from XML log entry
+ * Returns undefined for non-boolean measurements
+ */
+export function extractBooleanMeasurement(log: any): boolean | undefined {
+    const source = log.period?.measurement ?? log.measurement;
+    if (source === undefined || source === null) return undefined;
+
+    const value = typeof source === 'object' ? source._ : source;
+    if (typeof value !== 'string') return undefined;
+
+    switch (value.toLowerCase()) {
+        case 'on':
+        case 'true':
+            return true;
+        case 'off':
+        case 'false':
+            return false;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Extract all measurements of an XML log entry with their tariff
+ * P1 smart meters log one measurement per tariff (nl_peak, nl_offpeak)
+ */
+export function extractTariffMeasurements(log: any): Array<{ tariff?: string; value: number }> {
+    const source = log.period?.measurement ?? log.measurement;
+    const measurements: Array<{ tariff?: string; value: number }> = [];
+
+    for (const measurement of ensureArray<any>(source)) {
+        const value = extractMeasurement({ measurement });
+        if (value === undefined) continue;
+        measurements.push({ tariff: measurement?.tariff || undefined, value });
+    }
+    return measurements;
+}
+
+/**
+ * Find the module behind an appliance or location by matching the meter/service
+ * references of its logs with the services of the modules
+ */
+export function findLinkedModule(source: any, modules: any[]): any | undefined {
+    const logIds = new Set<string>();
+    for (const kind of ['point_log', 'cumulative_log', 'interval_log']) {
+        for (const log of ensureArray<any>(source?.logs?.[kind])) {
+            collectReferenceIds(log, logIds, ['period']);
+        }
+    }
+
+    return modules.find(module => {
+        const serviceIds = new Set<string>();
+        collectReferenceIds(module.services, serviceIds, []);
+        return [...serviceIds].some(id => logIds.has(id));
+    });
+}
+
+/**
+ * Collect the id attributes of the child references of an element
+ */
+function collectReferenceIds(element: any, ids: Set<string>, skip: string[]): void {
+    if (!element || typeof element !== 'object') return;
+
+    for (const [key, value] of Object.entries(element)) {
+        if (skip.includes(key)) continue;
+        for (const child of ensureArray<any>(value)) {
+            if (child && typeof child === 'object' && typeof child.id === 'string') {
+                ids.add(child.id);
+            }
+        }
+    }
+}
+
 /**
  * Extract text value from XML element
  */
@@ -41,6 +115,14 @@ export function getXmlValue(obj: any, path: string): any {
     return current;
 }
 
+/**
+ * Wrap text in a CDATA section
+ * A "]]>" in the text would end the section early, so it is split across two sections.
+ */
+export function cdata(text: string): string {
+    return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
 /**
  * Parse boolean from XML value
  */
@@ -0,0 +1,48 @@
+/**
+ * Actuator Resolution Tests
+ * Writes go to the functionality IDs the gateway reports
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SimulatedHub, startHub, writes } from './helpers/simulator.js';
+
+const LISA = 'ad4838d7d35c4d6ea796ee12ae5aedf8';
+const PLUG = '675416a629f343c495449970e2ca37b5';
+const HEATER = '90986d591dcd426cae3ec3e8111ff730';
+const LIVING_ROOM = '12493538af164a409c6a1c79e38afe1c';
+
+describe('actuator resolution (adam)', () => {
+    let hub: SimulatedHub;
+
+    beforeEach(async () => {
+        hub = await startHub('adam');
+    });
+
+    afterEach(() => hub.stop());
+
+    it('writes a zone thermostat setpoint to the thermostat of its zone', async () => {
+        await hub.client.setTemperature({ location_id: LISA, setpoint: 20 });
+        assert.deepEqual(writes(hub.simulator), [
+            `PUT /core/locations;id=${LIVING_ROOM}/thermostat;id=7d1f4c1a8b5e4d93a6f2b8c9d0e1f2a3`
+        ]);
+    });
+
+    it('rejects a setpoint for an appliance without a thermostat', async () => {
+        await assert.rejects(
+            hub.client.setTemperature({ location_id: PLUG, setpoint: 19 }),
+            /Plug Media has no thermostat actuator/
+        );
+        await assert.rejects(
+            hub.client.setTemperature({ location_id: HEATER, setpoint: 19 }),
+            /has no thermostat actuator/
+        );
+        assert.deepEqual(writes(hub.simulator), []);
+    });
+
+    it('writes a relay through its relay functionality', async () => {
+        await hub.client.setSwitchState({ appliance_id: PLUG, state: 'off' });
+        const [write] = writes(hub.simulator);
+        assert.match(write, new RegExp(`^PUT /core/appliances;id=${PLUG}/relay;id=\\w+$`));
+    });
+});
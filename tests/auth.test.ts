@@ -0,0 +1,181 @@
+/**
+ * Authentication and Access Control Tests
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { ErrorCode, McpError, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { checkAccess, checkAnyHubAccess, HubResolver, TokenAuthenticator } from '../src/mcp/auth.js';
+import { ResourceRegistry } from '../src/mcp/resource-registry.js';
+import { ToolRegistry } from '../src/mcp/tool-registry.js';
+import { registerAddHubTool } from '../src/mcp/tools/add-hub.tool.js';
+import { registerConnectionTool } from '../src/mcp/tools/connection.tool.js';
+import { registerListHubsTool } from '../src/mcp/tools/list-hubs.tool.js';
+import { ConnectionService } from '../src/services/connection.service.js';
+import { DiscoveredHub, HubDiscoveryService } from '../src/services/hub-discovery.service.js';
+
+const authenticator = new TokenAuthenticator([
+    { name: 'dashboard', token: 'read-token', scopes: ['read'], hubs: ['Upstairs'] },
+    { name: 'automation', token: 'climate-token', scopes: ['read', 'climate'] },
+    { name: 'installer', token: 'admin-token', scopes: ['read', 'admin'], hubs: ['upstairs'] },
+    { name: 'owner', token: 'owner-token', scopes: ['read', 'admin'] }
+]);
+
+/** Hubs "upstairs" (alias "Upstairs") and "downstairs", the default */
+const resolveHub: HubResolver = hub => {
+    if (hub === undefined) return 'downstairs';
+    const name = { upstairs: 'upstairs', downstairs: 'downstairs' }[hub.toLowerCase()];
+    return name ?? null;
+};
+
+describe('TokenAuthenticator', () => {
+    it('grants the scopes and hubs of a known bearer token', () => {
+        assert.deepEqual(authenticator.authenticate('Bearer read-token'), {
+            token: 'read-token',
+            clientId: 'dashboard',
+            scopes: ['read'],
+            extra: { hubs: ['Upstairs'] }
+        });
+        assert.equal(authenticator.authenticate('bearer climate-token ')?.clientId, 'automation');
+    });
+
+    it('rejects missing, malformed and unknown tokens', () => {
+        assert.equal(authenticator.authenticate(undefined), null);
+        assert.equal(authenticator.authenticate('read-token'), null);
+        assert.equal(authenticator.authenticate('Basic read-token'), null);
+        assert.equal(authenticator.authenticate('Bearer other-token'), null);
+    });
+
+    it('is only enabled with tokens', () => {
+        assert.equal(authenticator.isEnabled(), true);
+        assert.equal(new TokenAuthenticator([]).isEnabled(), false);
+    });
+});
+
+describe('checkAccess', () => {
+    const dashboard = authenticator.authenticate('Bearer read-token')!;
+    const automation = authenticator.authenticate('Bearer climate-token')!;
+
+    it('allows everything without authentication', () => {
+        assert.equal(checkAccess(undefined, 'admin', 'anything', resolveHub), null);
+    });
+
+    it('denies tool categories outside the token scopes', () => {
+        assert.deepEqual(checkAccess(dashboard, 'climate', 'upstairs', resolveHub), {
+            reason: 'scope',
+            message: 'Token dashboard does not have the climate scope'
+        });
+        assert.equal(checkAccess(automation, 'climate', 'upstairs', resolveHub), null);
+    });
+
+    it('limits a token to its hubs, matching names and aliases case-insensitively', () => {
+        assert.equal(checkAccess(dashboard, 'read', 'upstairs', resolveHub), null);
+        assert.equal(checkAccess(dashboard, 'read', 'UPSTAIRS', resolveHub), null);
+        assert.deepEqual(checkAccess(dashboard, 'read', 'downstairs', resolveHub), {
+            reason: 'hub',
+            message: 'Token dashboard may not use hub downstairs'
+        });
+        assert.equal(checkAccess(dashboard, 'read', null, resolveHub)?.message, 'Token dashboard may not use hub (no default hub)');
+    });
+
+    it('only checks the hub of calls that target one', () => {
+        assert.equal(checkAccess(dashboard, 'read', undefined, resolveHub), null);
+        assert.equal(checkAccess(automation, 'read', 'downstairs', resolveHub), null);
+    });
+});
+
+/** Arguments of a tool call or resource request made with a token */
+function withToken(authInfo: AuthInfo): RequestHandlerExtra<ServerRequest, ServerNotification> {
+    return { authInfo } as RequestHandlerExtra<ServerRequest, ServerNotification>;
+}
+
+describe('checkAnyHubAccess', () => {
+    it('denies tools reaching any hub to tokens limited to hubs', () => {
+        assert.equal(checkAnyHubAccess(undefined, 'connect'), null);
+        assert.equal(checkAnyHubAccess(authenticator.authenticate('Bearer owner-token')!, 'connect'), null);
+        assert.deepEqual(checkAnyHubAccess(authenticator.authenticate('Bearer admin-token')!, 'connect'), {
+            reason: 'hub',
+            message: 'Token installer is limited to hubs upstairs and may not use connect'
+        });
+    });
+});
+
+describe('access to tools and resources', () => {
+    const dashboard = authenticator.authenticate('Bearer read-token')!;
+    const installer = authenticator.authenticate('Bearer admin-token')!;
+    const owner = authenticator.authenticate('Bearer owner-token')!;
+
+    const hubs: DiscoveredHub[] = [
+        { name: 'glmpuuxg', alias: 'Upstairs', ip: '192.168.1.10', password: 'glmpuuxg', discoveredAt: new Date() },
+        { name: 'downstairs', ip: '192.168.1.11', password: 'downstairs', discoveredAt: new Date() }
+    ];
+    const discoveryService = {
+        loadAllHubsFromFiles: async () => undefined,
+        getDiscoveredHubs: () => [...hubs],
+        addHubByName: async () => ({ success: false, error: 'Hub not found on the network' })
+    } as unknown as HubDiscoveryService;
+    const connectionService = {
+        getConnections: () => [],
+        getDefaultHub: () => 'downstairs'
+    } as unknown as ConnectionService;
+
+    function createToolRegistry(): ToolRegistry {
+        const registry = new ToolRegistry(resolveHub);
+        registerAddHubTool(registry, discoveryService);
+        registerListHubsTool(registry, discoveryService, connectionService);
+        registerConnectionTool(registry, connectionService, discoveryService);
+        return registry;
+    }
+
+    it('lists only the hubs of a token', async () => {
+        const registry = createToolRegistry();
+        const call = { method: 'tools/call' as const, params: { name: 'list_hubs', arguments: {} } };
+
+        const limited = (await registry.handleToolCall(call, withToken(dashboard))).structuredContent as Record<string, any>;
+        assert.deepEqual(limited.hubs.map((hub: { name: string }) => hub.name), ['glmpuuxg']);
+        assert.equal(limited.default_hub, null);
+
+        const all = (await registry.handleToolCall(call, withToken(owner))).structuredContent as Record<string, any>;
+        assert.deepEqual(all.hubs.map((hub: { name: string }) => hub.name), ['glmpuuxg', 'downstairs']);
+        assert.equal(all.default_hub, 'downstairs');
+    });
+
+    it('denies adding and connecting hubs to tokens limited to hubs', async () => {
+        const registry = createToolRegistry();
+
+        for (const [name, args] of [['add_hub', { hubName: 'other' }], ['connect', { host: '192.168.1.99', hub: 'upstairs' }]] as const) {
+            const result = await registry.handleToolCall({ method: 'tools/call', params: { name, arguments: args } }, withToken(installer));
+            assert.equal(result.isError, true);
+            assert.equal((result.structuredContent as Record<string, unknown>).code, 'access_denied');
+            assert.equal((result.structuredContent as Record<string, unknown>).reason, 'hub');
+        }
+
+        const allowed = await registry.handleToolCall(
+            { method: 'tools/call', params: { name: 'add_hub', arguments: { hubName: 'other' } } },
+            withToken(owner)
+        );
+        assert.deepEqual(allowed.structuredContent, { success: false, error: 'Hub not found on the network' });
+    });
+
+    it('checks a resource URI like reading it, e.g. before subscribing', () => {
+        const registry = new ResourceRegistry(resolveHub);
+        registry.registerResourceTemplate(
+            'device',
+            { uriTemplate: 'plugwise://hubs/{hub}/devices/{id}', title: 'Device', description: 'A device' },
+            async () => []
+        );
+
+        registry.checkUriAccess('plugwise://hubs/upstairs/devices/lisa', dashboard);
+        registry.checkUriAccess('plugwise://hubs/downstairs/devices/lisa');
+        assert.throws(
+            () => registry.checkUriAccess('plugwise://hubs/downstairs/devices/lisa', dashboard),
+            (error: McpError) => error.code === ErrorCode.InvalidRequest && /Token dashboard may not use hub downstairs/.test(error.message)
+        );
+        assert.throws(
+            () => registry.checkUriAccess('plugwise://elsewhere', dashboard),
+            (error: McpError) => error.code === ErrorCode.InvalidParams
+        );
+    });
+});
@@ -0,0 +1,44 @@
+/**
+ * CIDR Helper Tests
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { expandScanTargets } from '../src/utils/cidr.js';
+
+describe('expandScanTargets', () => {
+    it('lists the hosts of a range without network and broadcast address', () => {
+        assert.deepEqual(expandScanTargets(['192.168.1.0/30']), ['192.168.1.1', '192.168.1.2']);
+
+        const hosts = expandScanTargets(['10.0.0.77/24']);
+        assert.equal(hosts.length, 254);
+        assert.equal(hosts[0], '10.0.0.1');
+        assert.equal(hosts[253], '10.0.0.254');
+    });
+
+    it('lists overlapping ranges once, in order', () => {
+        assert.deepEqual(
+            expandScanTargets(['192.168.1.4/30', '192.168.1.0/29']),
+            ['192.168.1.5', '192.168.1.6', '192.168.1.1', '192.168.1.2', '192.168.1.3', '192.168.1.4']
+        );
+    });
+
+    it('drops excluded addresses and ranges', () => {
+        assert.deepEqual(
+            expandScanTargets(['192.168.1.0/28'], ['192.168.1.5', '192.168.1.8/30']),
+            ['192.168.1.1', '192.168.1.2', '192.168.1.3', '192.168.1.4', '192.168.1.6', '192.168.1.7',
+                '192.168.1.12', '192.168.1.13', '192.168.1.14']
+        );
+    });
+
+    it('rejects ranges outside /16 to /30', () => {
+        assert.throws(() => expandScanTargets(['10.0.0.0/8']), /must have a prefix from \/16 to \/30/);
+        assert.throws(() => expandScanTargets(['10.0.0.1']), /must have a prefix from \/16 to \/30/);
+    });
+
+    it('rejects invalid ranges and addresses', () => {
+        assert.throws(() => expandScanTargets(['192.168.1.0/24/1']), /Invalid CIDR range/);
+        assert.throws(() => expandScanTargets(['192.168.300.0/24']), /Invalid IPv4 address/);
+        assert.throws(() => expandScanTargets(['192.168.1.0/24'], ['nonsense']), /Invalid IPv4 address/);
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * Credential Vault Service Tests
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CredentialVaultService } from '../src/services/credential-vault.service.js';
+
+const KEY = '0123456789abcdef'.repeat(4);
+
+describe('CredentialVaultService', () => {
+    const previousDataDir = process.env.PLUGWISE_DATA_DIR;
+    let dataDir: string;
+
+    before(async () => {
+        dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'plugwise-vault-'));
+        process.env.PLUGWISE_DATA_DIR = dataDir;
+    });
+
+    after(async () => {
+        if (previousDataDir === undefined) delete process.env.PLUGWISE_DATA_DIR;
+        else process.env.PLUGWISE_DATA_DIR = previousDataDir;
+        await fs.rm(dataDir, { recursive: true, force: true });
+    });
+
+    it('stores secrets encrypted and reads them back', async () => {
+        await new CredentialVaultService({ key: KEY }).setSecret('upstairs', 'smile-password');
+
+        const vaultFile = await fs.readFile(path.join(dataDir, 'credentials', 'vault.json'), 'utf-8');
+        assert.ok(vaultFile.includes('upstairs'));
+        assert.ok(!vaultFile.includes('smile-password'));
+
+        const vault = new CredentialVaultService({ key: KEY });
+        assert.equal(await vault.getSecret('upstairs'), 'smile-password');
+        assert.equal(await vault.hasSecret('upstairs'), true);
+        assert.equal(await vault.getSecret('downstairs'), undefined);
+    });
+
+    it('reads a key from a keyfile or a passphrase', async () => {
+        const keyFile = path.join(dataDir, 'vault.keyfile');
+        await fs.writeFile(keyFile, `${KEY}\n`);
+
+        await new CredentialVaultService({ key: 'correct horse battery staple' }).setSecret('passphrase', 'one');
+        await new CredentialVaultService({ keyFile }).setSecret('keyfile', 'two');
+
+        assert.equal(await new CredentialVaultService({ key: 'correct horse battery staple' }).getSecret('passphrase'), 'one');
+        assert.equal(await new CredentialVaultService({ key: KEY }).getSecret('keyfile'), 'two');
+    });
+
+    it('refuses to decrypt with a different key', async () => {
+        await new CredentialVaultService({ key: KEY }).setSecret('upstairs', 'smile-password');
+
+        const vault = new CredentialVaultService({ key: 'another key' });
+        await assert.rejects(vault.getSecret('upstairs'), /Cannot decrypt the credential of upstairs/);
+    });
+
+    it('reports an unreadable keyfile', async () => {
+        const vault = new CredentialVaultService({ keyFile: path.join(dataDir, 'missing.key') });
+        await assert.rejects(vault.setSecret('upstairs', 'smile-password'), /Cannot read vault keyfile/);
+    });
+
+    it('deletes secrets', async () => {
+        await new CredentialVaultService({ key: KEY }).deleteSecret('upstairs');
+        assert.equal(await new CredentialVaultService({ key: KEY }).hasSecret('upstairs'), false);
+    });
+});
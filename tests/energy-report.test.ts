@@ -0,0 +1,151 @@
+/**
+ * Energy Report Service Tests
+ * Meter increases and the figures of each period, on an in-memory history
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EnergyReportService } from '../src/services/energy-report.service.js';
+import { HistoryEntity, HistoryQuery, HistorySeries, HistoryService } from '../src/services/history.service.js';
+
+/** Local time on a day in March 2026 */
+function at(day: number, hour: number): string {
+    return new Date(2026, 2, day, hour).toISOString();
+}
+
+function fakeHistory(entities: Record<string, HistoryEntity>, series: Record<string, [string, number][]>): HistoryService {
+    const history = {
+        getEntities: async (): Promise<Record<string, HistoryEntity>> => entities,
+        query: async (query: HistoryQuery): Promise<HistorySeries[]> =>
+            (query.sensors ?? []).filter(sensor => series[sensor]).map(sensor => ({
+                sensor,
+                resolution: 'raw',
+                points: series[sensor].map(([timestamp, value]) => ({ timestamp, value }))
+            }))
+    };
+    return history as unknown as HistoryService;
+}
+
+const meter = fakeHistory(
+    { meter: { name: 'P1', dev_class: 'smartmeter' } },
+    {
+        electricity_consumed_peak_cumulative: [
+            [at(1, 23), 100], [at(2, 8), 103], [at(2, 20), 105],
+            // The meter was reset
+            [at(3, 10), 1], [at(3, 12), 3]
+        ],
+        electricity_consumed_off_peak_cumulative: [[at(1, 23), 50], [at(2, 6), 51.5], [at(3, 6), 52]],
+        // Produced readings start within the first day
+        electricity_produced_peak_cumulative: [[at(2, 12), 10], [at(2, 14), 12]]
+    }
+);
+
+const report = (service: EnergyReportService) => service.getReport({
+    hub: 'home',
+    entity: 'meter',
+    period: 'day',
+    from: new Date(2026, 2, 2),
+    to: new Date(2026, 2, 4)
+});
+
+describe('EnergyReportService', () => {
+    it('sums the meter increases per period and ignores resets', async () => {
+        const service = new EnergyReportService(meter, () => ({
+            currency: 'EUR',
+            electricity_peak: 0.3,
+            electricity_off_peak: 0.2,
+            feed_in: 0.1
+        }));
+        const { periods, totals } = await report(service);
+
+        assert.equal(periods.length, 2);
+        assert.deepEqual(periods.map(period => period.partial), [true, false]);
+
+        assert.deepEqual(periods[0].consumption, {
+            electricity_kwh: 6.5,
+            electricity_peak_kwh: 5,
+            electricity_off_peak_kwh: 1.5,
+            gas_m3: undefined
+        });
+        assert.deepEqual(periods[0].production, {
+            electricity_kwh: 2,
+            electricity_peak_kwh: 2,
+            electricity_off_peak_kwh: undefined
+        });
+        assert.equal(periods[0].net.electricity_kwh, 4.5);
+        assert.equal(periods[1].consumption.electricity_peak_kwh, 2);
+        assert.equal(periods[1].consumption.electricity_off_peak_kwh, 0.5);
+
+        assert.equal(totals.consumption.electricity_kwh, 9);
+        assert.equal(totals.production.electricity_kwh, 2);
+    });
+
+    it('prices the figures with the tariffs', async () => {
+        const service = new EnergyReportService(meter, () => ({
+            currency: 'EUR',
+            electricity_peak: 0.3,
+            electricity_off_peak: 0.2,
+            feed_in: 0.1
+        }));
+        const { periods, totals, currency } = await report(service);
+
+        assert.equal(currency, 'EUR');
+        assert.deepEqual(periods[0].cost, {
+            electricity_peak: 1.5,
+            electricity_off_peak: 0.3,
+            electricity: undefined,
+            gas: undefined,
+            feed_in: 0.2,
+            total: 1.6,
+            missing_tariffs: undefined
+        });
+        assert.equal(periods[1].cost.total, 0.7);
+        assert.equal(totals.cost.total, 2.3);
+    });
+
+    it('lists the tariffs missing for a cost', async () => {
+        const service = new EnergyReportService(meter, () => ({ currency: 'EUR' }));
+        const { periods } = await service.getReport({
+            hub: 'home',
+            entity: 'meter',
+            period: 'day',
+            from: new Date(2026, 2, 2),
+            to: new Date(2026, 2, 4),
+            tariffs: { electricity_peak: 0.3, electricity_off_peak: 0.2 }
+        });
+
+        assert.deepEqual(periods[0].cost.missing_tariffs, ['feed_in']);
+        assert.equal(periods[0].cost.total, 1.8);
+        // Nothing was produced on the second day, so no price is needed
+        assert.equal(periods[1].cost.missing_tariffs, undefined);
+    });
+
+    it('converts plug readings from Wh and prices them at the peak tariff', async () => {
+        const plug = fakeHistory(
+            { plug: { name: 'Dishwasher', dev_class: 'dishwasher' } },
+            { electricity_consumed_cumulative: [[at(1, 23), 1000], [at(2, 12), 3500]] }
+        );
+        const service = new EnergyReportService(plug, () => ({ currency: 'EUR', electricity_peak: 0.3 }));
+        const { periods } = await service.getReport({
+            hub: 'home',
+            entity: 'plug',
+            period: 'day',
+            from: new Date(2026, 2, 2),
+            to: new Date(2026, 2, 3)
+        });
+
+        assert.equal(periods.length, 1);
+        assert.equal(periods[0].consumption.electricity_kwh, 2.5);
+        assert.equal(periods[0].cost.electricity, 0.75);
+        assert.equal(periods[0].cost.total, 0.75);
+    });
+
+    it('rejects devices without meter readings', async () => {
+        const service = new EnergyReportService(fakeHistory({ meter: { name: 'P1', dev_class: 'smartmeter' } }, {}));
+        await assert.rejects(report(service), /P1 has no recorded energy meter readings/);
+        await assert.rejects(
+            service.getReport({ hub: 'home', entity: 'other', period: 'day' }),
+            /No history for other on hub home/
+        );
+    });
+});
@@ -0,0 +1,65 @@
+/**
+ * Gateway Mode Tests
+ * Gateway, regulation and DHW modes of the Adam scenario
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SimulatedHub, startHub, writes } from './helpers/simulator.js';
+
+const GATEWAY = 'fe799307f1624099878210aa0b9f1475';
+const HEATER = '90986d591dcd426cae3ec3e8111ff730';
+
+describe('gateway modes (adam)', () => {
+    let hub: SimulatedHub;
+
+    beforeEach(async () => {
+        hub = await startHub('adam');
+    });
+
+    afterEach(() => hub.stop());
+
+    it('reports the selected modes with their options', async () => {
+        const status = await hub.client.getGatewayStatus();
+
+        assert.deepEqual(status.gateway_mode, { selected: 'full', options: ['away', 'full', 'vacation'] });
+        assert.deepEqual(status.regulation_mode, { selected: 'heating', options: ['bleeding_cold', 'heating', 'off', 'bleeding_hot'] });
+        assert.deepEqual(status.dhw_mode, { selected: 'auto', options: ['auto', 'boost', 'comfort', 'off'] });
+    });
+
+    it('writes each mode to the appliance that advertises it', async () => {
+        await hub.client.setGatewayMode('away');
+        await hub.client.setRegulationMode('off');
+        await hub.client.setDHWMode('comfort');
+
+        assert.deepEqual(writes(hub.simulator), [
+            `PUT /core/appliances;id=${GATEWAY}/gateway_mode_control`,
+            `PUT /core/appliances;id=${GATEWAY}/regulation_mode_control`,
+            `PUT /core/appliances;id=${HEATER}/domestic_hot_water_mode_control`
+        ]);
+
+        const status = await hub.client.getGatewayStatus();
+        assert.equal(status.gateway_mode?.selected, 'away');
+        assert.equal(status.regulation_mode?.selected, 'off');
+        assert.equal(status.dhw_mode?.selected, 'comfort');
+    });
+
+    it('rejects modes the gateway does not advertise', async () => {
+        await assert.rejects(hub.client.setDHWMode('eco'), /Invalid DHW mode eco. Allowed: auto, boost, comfort, off/);
+        await assert.rejects(hub.client.setRegulationMode('cooling'), /Invalid regulation mode cooling/);
+        assert.deepEqual(writes(hub.simulator), []);
+    });
+
+    it('rejects modes a gateway has no control for', async () => {
+        const anna = await startHub('anna');
+        try {
+            assert.equal((await anna.client.getGatewayStatus()).regulation_mode, undefined);
+            await assert.rejects(
+                anna.client.setRegulationMode('heating'),
+                /This gateway does not support setting the regulation mode/
+            );
+        } finally {
+            await anna.stop();
+        }
+    });
+});
@@ -0,0 +1,105 @@
+/**
+ * Heat Pump Tests
+ * Cooling detection and setpoint ranges of the Anna heat pump scenario
+ */
+
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SimulatorScenario } from '../src/simulator/index.js';
+import { SimulatedHub, startHub, writes } from './helpers/simulator.js';
+
+const ANNA = '3cb70739631c4d17a86b8b12e8a5161c';
+const HEATER = '1cbf783bb11e4a7c8a6843dee3a86927';
+const LIVING_ROOM = 'c784ee9fdab44e1395b8dee7d7a497d6';
+
+/** Elga status code 3: heating, cooling not enabled */
+function heating(scenario: SimulatorScenario): void {
+    for (const appliance of scenario.appliances) {
+        const log = appliance.logs.find(item => item.type === 'elga_status_code');
+        if (log) log.measurements = [{ value: 3 }];
+    }
+}
+
+async function writtenSetpoint(hub: SimulatedHub): Promise<number | undefined> {
+    return (await hub.client.getDevices()).entities[LIVING_ROOM].thermostat?.setpoint;
+}
+
+describe('heat pump (anna-heatpump)', () => {
+    let hub: SimulatedHub;
+
+    afterEach(() => hub.stop());
+
+    describe('while cooling', () => {
+        it('reports cooling and the cooling setpoint as the top of the range', async () => {
+            hub = await startHub('anna-heatpump');
+            const { entities } = await hub.client.getDevices();
+
+            assert.equal(entities[HEATER].binary_sensors?.cooling_enabled, true);
+            assert.equal(entities[HEATER].binary_sensors?.cooling_state, true);
+            assert.equal(entities[ANNA].thermostat?.setpoint_low, 4);
+            assert.equal(entities[ANNA].thermostat?.setpoint_high, 24);
+            assert.equal(entities[ANNA].climate_mode, 'heat_cool');
+        });
+
+        it('writes setpoint_high', async () => {
+            hub = await startHub('anna-heatpump');
+            await hub.client.setTemperature({ location_id: ANNA, setpoint_low: 18, setpoint_high: 25 });
+
+            assert.equal(writes(hub.simulator).length, 1);
+            assert.equal(await writtenSetpoint(hub), 25);
+        });
+
+        it('rejects a range without setpoint_high', async () => {
+            hub = await startHub('anna-heatpump');
+            await assert.rejects(
+                hub.client.setTemperature({ location_id: ANNA, setpoint_low: 18 }),
+                /Cooling is enabled, the heating setpoint cannot be changed. Provide setpoint_high instead./
+            );
+            assert.deepEqual(writes(hub.simulator), []);
+        });
+    });
+
+    describe('while heating', () => {
+        it('reports the heating setpoint as the bottom of the range', async () => {
+            hub = await startHub('anna-heatpump', heating);
+            const { entities } = await hub.client.getDevices();
+
+            assert.equal(entities[HEATER].binary_sensors?.cooling_enabled, false);
+            assert.equal(entities[ANNA].thermostat?.setpoint_low, 24);
+            assert.equal(entities[ANNA].thermostat?.setpoint_high, 30);
+        });
+
+        it('writes setpoint_low', async () => {
+            hub = await startHub('anna-heatpump', heating);
+            await hub.client.setTemperature({ location_id: ANNA, setpoint_low: 19.5, setpoint_high: 25 });
+
+            assert.equal(writes(hub.simulator).length, 1);
+            assert.equal(await writtenSetpoint(hub), 19.5);
+        });
+
+        it('rejects a range without setpoint_low', async () => {
+            hub = await startHub('anna-heatpump', heating);
+            await assert.rejects(
+                hub.client.setTemperature({ location_id: ANNA, setpoint_high: 25 }),
+                /Heating is enabled, the cooling setpoint cannot be changed. Provide setpoint_low instead./
+            );
+            assert.deepEqual(writes(hub.simulator), []);
+        });
+    });
+
+    it('rejects an inverted range', async () => {
+        hub = await startHub('anna-heatpump');
+        await assert.rejects(
+            hub.client.setTemperature({ location_id: ANNA, setpoint_low: 26, setpoint_high: 20 }),
+            /setpoint_low 26 must not be above setpoint_high 20/
+        );
+    });
+
+    it('asks for setpoint_low on a system without cooling', async () => {
+        hub = await startHub('anna');
+        await assert.rejects(
+            hub.client.setTemperature({ location_id: '3cb70739631c4d17a86b8b12e8a5161b', setpoint_high: 25 }),
+            /This system has no cooling, provide setpoint or setpoint_low./
+        );
+    });
+});
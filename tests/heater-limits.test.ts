@@ -0,0 +1,64 @@
+/**
+ * Heater Limit Tests
+ * Maximum boiler and DHW temperatures of the Adam scenario
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SimulatedHub, startHub, writes } from './helpers/simulator.js';
+
+const HEATER = '90986d591dcd426cae3ec3e8111ff730';
+
+describe('heater limits (adam)', () => {
+    let hub: SimulatedHub;
+
+    beforeEach(async () => {
+        hub = await startHub('adam');
+    });
+
+    afterEach(() => hub.stop());
+
+    it('reports the limits with their bounds on the heater', async () => {
+        const heater = (await hub.client.getDevices()).entities[HEATER];
+
+        assert.deepEqual(heater.maximum_boiler_temperature, { setpoint: 60, lower_bound: 25, upper_bound: 95, resolution: 0.01 });
+        assert.deepEqual(heater.max_dhw_temperature, { setpoint: 60, lower_bound: 40, upper_bound: 60, resolution: 0.01 });
+    });
+
+    it('writes the limits to the heater thermostats', async () => {
+        await hub.client.setMaxBoilerTemperature(70);
+        await hub.client.setDHWTemperature(55);
+
+        assert.equal(writes(hub.simulator).length, 2);
+        assert.ok(writes(hub.simulator).every(write => write.startsWith(`PUT /core/appliances;id=${HEATER}/thermostat;id=`)));
+        const heater = (await hub.client.getDevices()).entities[HEATER];
+        assert.equal(heater.maximum_boiler_temperature?.setpoint, 70);
+        assert.equal(heater.max_dhw_temperature?.setpoint, 55);
+    });
+
+    it('rejects temperatures outside the bounds of the heater', async () => {
+        await assert.rejects(
+            hub.client.setMaxBoilerTemperature(96),
+            /The maximum boiler temperature 96 is above the maximum of 95/
+        );
+        await assert.rejects(
+            hub.client.setDHWTemperature(35),
+            /The DHW temperature 35 is below the minimum of 40/
+        );
+        await assert.rejects(
+            hub.client.setDHWTemperature(50.005),
+            /The DHW temperature 50.005 is not a multiple of 0.01/
+        );
+        assert.deepEqual(writes(hub.simulator), []);
+    });
+
+    it('rejects a limit the heater does not have', async () => {
+        const heatPump = await startHub('anna-heatpump');
+        try {
+            await assert.rejects(heatPump.client.setDHWTemperature(50), /DHW temperature/);
+            assert.deepEqual(writes(heatPump.simulator), []);
+        } finally {
+            await heatPump.stop();
+        }
+    });
+});
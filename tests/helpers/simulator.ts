@@ -0,0 +1,58 @@
+/**
+ * Simulator Test Helpers
+ * Start a scenario and connect a client to it
+ */
+
+import { PlugwiseClient } from '../../src/client/plugwise-client.js';
+import { GatewaySimulator, getScenario, SimulatorScenario } from '../../src/simulator/index.js';
+import { GatewayEntity, PlugwiseConfig } from '../../src/types/plugwise-types.js';
+
+export interface SimulatedHub {
+    simulator: GatewaySimulator;
+    /** Connection settings of the simulator, e.g. for the connection pool */
+    config: PlugwiseConfig;
+    client: PlugwiseClient;
+    stop(): Promise<void>;
+}
+
+/**
+ * Start a fresh simulator for a scenario and return a connected client
+ * @param customize Changes a copy of the scenario before the simulator starts
+ */
+export async function startHub(key: string, customize?: (scenario: SimulatorScenario) => void): Promise<SimulatedHub> {
+    const original = getScenario(key);
+    if (!original) {
+        throw new Error(`Unknown scenario ${key}`);
+    }
+    const scenario = structuredClone(original);
+    customize?.(scenario);
+
+    const simulator = new GatewaySimulator({ scenario });
+    const port = await simulator.start();
+    const config: PlugwiseConfig = {
+        host: '127.0.0.1',
+        port,
+        username: scenario.username,
+        password: scenario.password
+    };
+    const client = new PlugwiseClient(config);
+    await client.connect();
+
+    return { simulator, config, client, stop: () => simulator.stop() };
+}
+
+/**
+ * Requests that changed the gateway, as "METHOD path"
+ */
+export function writes(simulator: GatewaySimulator): string[] {
+    return simulator.getRequestLog()
+        .filter(request => request.method !== 'GET')
+        .map(request => `${request.method} ${request.path}`);
+}
+
+export function findEntity(
+    entities: Record<string, GatewayEntity>,
+    matches: (entity: GatewayEntity) => boolean
+): string | undefined {
+    return Object.keys(entities).find(id => matches(entities[id]));
+}
@@ -0,0 +1,99 @@
+/**
+ * History Service Tests
+ * Recording and querying on a temporary data directory
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HistoryService } from '../src/services/history.service.js';
+import { GatewayEntity, PlugwiseData } from '../src/types/plugwise-types.js';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+function snapshot(entities: Record<string, GatewayEntity>): PlugwiseData {
+    return {
+        gateway_id: 'gateway',
+        gateway_info: { legacy: false, model: 'Gateway', name: 'Adam', type: 'thermostat', version: '3.7.8' },
+        entities
+    };
+}
+
+describe('HistoryService', () => {
+    let directory: string;
+    let history: HistoryService;
+
+    before(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'plugwise-history-'));
+        history = new HistoryService({ enabled: true, rawRetentionDays: 7, hourlyRetentionDays: 30 }, directory);
+    });
+
+    after(() => fs.rm(directory, { recursive: true, force: true }));
+
+    it('returns the recorded values of an entity per sensor', async () => {
+        const now = Date.now();
+        for (const [minutes, temperature] of [[30, 20], [20, 20.5], [10, 21]]) {
+            await history.record('home', snapshot({
+                lisa: { name: 'Lisa', sensors: { temperature, battery: 80 }, binary_sensors: { low_battery: false } }
+            }), new Date(now - minutes * MINUTE_MS));
+        }
+
+        const series = await history.query({
+            hub: 'home',
+            entity: 'lisa',
+            sensors: ['temperature'],
+            from: new Date(now - 60 * MINUTE_MS),
+            to: new Date(now)
+        });
+
+        assert.equal(series.length, 1);
+        assert.equal(series[0].resolution, 'raw');
+        assert.deepEqual(series[0].points.map(point => point.value), [20, 20.5, 21]);
+    });
+
+    it('clamps ranges to the retention window', { timeout: 10000 }, async () => {
+        const series = await history.query({
+            hub: 'home',
+            entity: 'lisa',
+            sensors: ['temperature'],
+            from: new Date(Date.now() - 100000 * DAY_MS),
+            to: new Date(Date.now() + 100000 * DAY_MS)
+        });
+
+        assert.deepEqual(series[0].points.map(point => point.value), [20, 20.5, 21]);
+    });
+
+    it('downsamples long series to the requested number of points', async () => {
+        const series = await history.query({
+            hub: 'home',
+            entity: 'lisa',
+            sensors: ['temperature'],
+            from: new Date(Date.now() - 60 * MINUTE_MS),
+            to: new Date(),
+            maxPoints: 1
+        });
+
+        assert.equal(series[0].resolution, 'downsampled');
+        assert.equal(series[0].points.length, 1);
+        assert.equal(series[0].points[0].min, 20);
+        assert.equal(series[0].points[0].max, 21);
+    });
+
+    it('keeps one entity index per hub directory', async () => {
+        await history.record('Living Room', snapshot({ lisa: { name: 'Lisa', sensors: { temperature: 20 } } }));
+        assert.deepEqual(Object.keys(await history.getEntities('Living_Room')), ['lisa']);
+
+        await history.record('Living Room', snapshot({ tom: { name: 'Tom', sensors: { temperature: 18 } } }));
+        assert.deepEqual(Object.keys(await history.getEntities('Living_Room')), ['lisa', 'tom']);
+    });
+
+    it('rejects a range that ends before it starts', async () => {
+        await assert.rejects(
+            history.query({ hub: 'home', entity: 'lisa', from: new Date(), to: new Date(Date.now() - DAY_MS) }),
+            /The start of the range must be before its end/
+        );
+    });
+});
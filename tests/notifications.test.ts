@@ -0,0 +1,58 @@
+/**
+ * Notification Tests
+ * List and dismiss the notifications of the Adam scenario
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SimulatedHub, startHub, writes } from './helpers/simulator.js';
+
+const NOTIFICATION = '97a04c0c263049b29350a660b4cdd01e';
+
+describe('notifications (adam)', () => {
+    let hub: SimulatedHub;
+
+    beforeEach(async () => {
+        hub = await startHub('adam');
+    });
+
+    afterEach(() => hub.stop());
+
+    it('lists the notifications', async () => {
+        assert.deepEqual(await hub.client.getNotifications(), [{
+            id: NOTIFICATION,
+            type: 'warning',
+            message: 'The Zigbee device Tom Bedroom is running low on battery.',
+            timestamp: '2025-11-20T07:12:04.000+01:00'
+        }]);
+    });
+
+    it('reports them on the gateway entity', async () => {
+        const data = await hub.client.getDevices();
+        const gateway = data.entities[data.gateway_id];
+
+        assert.deepEqual(Object.keys(gateway.notifications ?? {}), [NOTIFICATION]);
+        assert.equal(gateway.binary_sensors?.plugwise_notification, true);
+    });
+
+    it('dismisses a single notification', async () => {
+        await hub.client.deleteNotification(NOTIFICATION);
+
+        assert.deepEqual(writes(hub.simulator), [`DELETE /core/notifications;id=${NOTIFICATION}`]);
+        assert.deepEqual(await hub.client.getNotifications(), []);
+        const data = await hub.client.getDevices();
+        assert.equal(data.entities[data.gateway_id].binary_sensors?.plugwise_notification, false);
+    });
+
+    it('rejects an unknown notification ID', async () => {
+        await assert.rejects(hub.client.deleteNotification('unknown'), /No notification found with ID unknown/);
+        assert.deepEqual(writes(hub.simulator), []);
+    });
+
+    it('dismisses all notifications without an ID', async () => {
+        await hub.client.deleteNotification();
+
+        assert.deepEqual(writes(hub.simulator), ['DELETE /core/notifications']);
+        assert.deepEqual(await hub.client.getNotifications(), []);
+    });
+});
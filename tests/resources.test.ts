@@ -0,0 +1,119 @@
+/**
+ * Resource Tests
+ * Device and zone resources of the Adam scenario, with their update notifications
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { ErrorCode, McpError, ReadResourceRequest } from '@modelcontextprotocol/sdk/types.js';
+import { ResourceRegistry } from '../src/mcp/resource-registry.js';
+import { registerAllResources } from '../src/mcp/resources/index.js';
+import { DEVICES_URI } from '../src/mcp/resources/devices.resource.js';
+import { ConnectionService } from '../src/services/connection.service.js';
+import { StatePollerService } from '../src/services/state-poller.service.js';
+import { SimulatedHub, startHub } from './helpers/simulator.js';
+
+const LISA = 'ad4838d7d35c4d6ea796ee12ae5aedf8';
+const LIVING_ROOM = '12493538af164a409c6a1c79e38afe1c';
+const LISA_URI = `plugwise://hubs/home/devices/${LISA}`;
+const LIVING_ROOM_URI = `plugwise://hubs/home/zones/${LIVING_ROOM}`;
+
+function read(uri: string): ReadResourceRequest {
+    return { method: 'resources/read', params: { uri } };
+}
+
+async function readJson(registry: ResourceRegistry, uri: string): Promise<Record<string, any>> {
+    const [contents] = (await registry.handleReadResource(read(uri))).contents;
+    assert.equal(contents.mimeType, 'application/json');
+    return JSON.parse('text' in contents ? contents.text : '');
+}
+
+function token(hubs?: string[]): AuthInfo {
+    return { token: 'token', clientId: 'test', scopes: ['read'], extra: { hubs } };
+}
+
+describe('resources (adam)', () => {
+    let hub: SimulatedHub;
+    let connectionService: ConnectionService;
+    let statePoller: StatePollerService;
+    let registry: ResourceRegistry;
+
+    beforeEach(async () => {
+        hub = await startHub('adam');
+        connectionService = new ConnectionService();
+        await connectionService.connect(hub.config, 'home');
+        statePoller = new StatePollerService(connectionService, 60000);
+        registry = new ResourceRegistry(name => connectionService.resolveHubName(name));
+        registerAllResources(registry, connectionService, statePoller);
+    });
+
+    afterEach(() => hub.stop());
+
+    it('lists devices and zones of polled hubs only', async () => {
+        assert.deepEqual((await registry.getResourceList()).map(resource => resource.uri), [DEVICES_URI]);
+
+        await statePoller.poll('home');
+        const uris = (await registry.getResourceList()).map(resource => resource.uri);
+
+        assert.ok(uris.includes(LISA_URI));
+        assert.ok(uris.includes(LIVING_ROOM_URI));
+        assert.ok(!uris.includes(`plugwise://hubs/home/devices/${LIVING_ROOM}`), 'zones are not devices');
+    });
+
+    it('reads a device and a zone with their freshness', async () => {
+        const lisa = await readJson(registry, LISA_URI);
+        assert.equal(lisa.id, LISA);
+        assert.equal(lisa.location, LIVING_ROOM);
+        assert.equal(lisa.freshness.source, 'live');
+
+        const zone = await readJson(registry, LIVING_ROOM_URI);
+        assert.equal(zone.freshness.source, 'snapshot');
+    });
+
+    it('rejects unknown resources and devices', async () => {
+        await assert.rejects(
+            registry.handleReadResource(read('plugwise://nothing')),
+            (error: McpError) => error.code === ErrorCode.InvalidParams && /Resource plugwise:\/\/nothing not found/.test(error.message)
+        );
+        await assert.rejects(
+            registry.handleReadResource(read(`plugwise://hubs/home/devices/${LIVING_ROOM}`)),
+            (error: McpError) => error.code === ErrorCode.InvalidParams && /Device .* not found on hub home/.test(error.message)
+        );
+    });
+
+    it('lists and reads only the hubs of a token', async () => {
+        await statePoller.poll('home');
+
+        const uris = (await registry.getResourceList(token(['elsewhere']))).map(resource => resource.uri);
+        assert.deepEqual(uris, []);
+        await assert.rejects(
+            registry.handleReadResource(read(LISA_URI), token(['elsewhere'])),
+            (error: McpError) => error.code === ErrorCode.InvalidRequest && /may not use hub home/.test(error.message)
+        );
+
+        assert.ok((await registry.getResourceList(token(['HOME']))).some(resource => resource.uri === LISA_URI));
+        await registry.handleReadResource(read(LISA_URI), token(['HOME']));
+    });
+
+    it('notifies the changed zone and the devices of the default hub', async () => {
+        await statePoller.poll('home');
+        const updated: string[] = [];
+        const removeListener = registry.onUpdated(async uri => {
+            updated.push(uri);
+        });
+
+        await statePoller.poll('home');
+        assert.equal(updated.length, 0, 'nothing changed');
+
+        await hub.client.setTemperature({ location_id: LIVING_ROOM, setpoint: 22.5 });
+        await statePoller.poll('home');
+        assert.ok(updated.includes(LIVING_ROOM_URI));
+        assert.ok(updated.includes(DEVICES_URI));
+
+        removeListener();
+        updated.length = 0;
+        await registry.notifyUpdated(LISA_URI);
+        assert.equal(updated.length, 0);
+    });
+});
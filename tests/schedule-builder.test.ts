@@ -0,0 +1,204 @@
+/**
+ * Schedule Builder Tests
+ * Validation and directives of week programs, and saving them on the Adam scenario
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ScheduleBuilder } from '../src/client/schedule-builder.js';
+import { ScheduleBlock, ScheduleValidationError } from '../src/types/plugwise-types.js';
+import { SimulatedHub, startHub, writes } from './helpers/simulator.js';
+
+function issuesOf(action: () => unknown): string[] {
+    try {
+        action();
+    } catch (error) {
+        assert.ok(error instanceof ScheduleValidationError);
+        return error.issues;
+    }
+    assert.fail('expected a ScheduleValidationError');
+}
+
+describe('ScheduleBuilder.normalize', () => {
+    const builder = new ScheduleBuilder({ lower_bound: 4, upper_bound: 30, resolution: 0.5 });
+
+    it('fills the gaps of every day and sorts the blocks', () => {
+        const program = builder.normalize(
+            [
+                { day: 'tu', start: '17:00', end: '22:00', preset: 'home' },
+                { day: 'mo', start: '07:00', end: '09:00', setpoint: 20.5 }
+            ],
+            { preset: 'away' }
+        );
+
+        assert.deepEqual(program.slice(0, 3), [
+            { day: 'mo', start: '00:00', end: '07:00', preset: 'away' },
+            { day: 'mo', start: '07:00', end: '09:00', setpoint: 20.5 },
+            { day: 'mo', start: '09:00', end: '24:00', preset: 'away' }
+        ]);
+        assert.deepEqual(program.slice(3, 6), [
+            { day: 'tu', start: '00:00', end: '17:00', preset: 'away' },
+            { day: 'tu', start: '17:00', end: '22:00', preset: 'home' },
+            { day: 'tu', start: '22:00', end: '24:00', preset: 'away' }
+        ]);
+        assert.deepEqual(program.slice(6).map(block => block.day), ['we', 'th', 'fr', 'sa', 'su']);
+    });
+
+    it('reports missing days and uncovered periods without a fill', () => {
+        const issues = issuesOf(() => builder.normalize([
+            { day: 'mo', start: '00:00', end: '12:00', preset: 'home' }
+        ]));
+
+        assert.equal(issues[0], 'missing days: tu, we, th, fr, sa, su (add blocks or a fill preset/setpoint)');
+        assert.ok(issues.includes('mo: no block covers 12:00-24:00'));
+    });
+
+    it('reports overlapping blocks', () => {
+        const issues = issuesOf(() => builder.normalize(
+            [
+                { day: 'we', start: '06:00', end: '10:00', preset: 'home' },
+                { day: 'we', start: '09:00', end: '12:00', preset: 'away' }
+            ],
+            { preset: 'asleep' }
+        ));
+
+        assert.deepEqual(issues, ['we: 06:00-10:00 overlaps 09:00-12:00']);
+    });
+
+    it('collects every invalid block and setpoint', () => {
+        const issues = issuesOf(() => builder.normalize(
+            [
+                { day: 'mo', start: '10:00', end: '08:00', preset: 'home' },
+                { day: 'tu', start: '08:00', end: '09:00', setpoint: 31 },
+                { day: 'we', start: '08:00', end: '09:00', setpoint: 20.3 },
+                { day: 'th', start: '08:00', end: '09:00', preset: 'party' },
+                { day: 'fr', start: '08:00', end: '09:00' }
+            ],
+            { setpoint: 2 }
+        ));
+
+        assert.deepEqual(issues, [
+            'block 1 (mo 10:00-08:00): start must be before end',
+            'block 2 (tu 08:00-09:00): setpoint 31 is above the maximum of 30',
+            'block 3 (we 08:00-09:00): setpoint 20.3 is not a multiple of 0.5',
+            'block 4 (th 08:00-09:00): unknown preset party, use one of home, away, asleep, vacation, no_frost',
+            'block 5 (fr 08:00-09:00): specify either a preset or a setpoint',
+            'fill: setpoint 2 is below the minimum of 4'
+        ]);
+    });
+
+    it('requires at least one block', () => {
+        assert.deepEqual(issuesOf(() => builder.normalize([], { preset: 'home' })), ['at least one block is required']);
+    });
+});
+
+describe('ScheduleBuilder.buildDirectives', () => {
+    const builder = new ScheduleBuilder();
+
+    it('merges adjacent blocks with the same target', () => {
+        const blocks: ScheduleBlock[] = [
+            { day: 'mo', start: '00:00', end: '07:00', preset: 'asleep' },
+            { day: 'mo', start: '07:00', end: '12:00', preset: 'home' },
+            { day: 'mo', start: '12:00', end: '18:00', preset: 'home' },
+            { day: 'mo', start: '18:00', end: '20:00', setpoint: 21 }
+        ];
+
+        assert.equal(
+            builder.buildDirectives(blocks),
+            '<directives>'
+                + '<when time="[mo 00:00,mo 07:00)"><then preset="asleep" /></when>'
+                + '<when time="[mo 07:00,mo 18:00)"><then preset="home" /></when>'
+                + '<when time="[mo 18:00,mo 20:00)"><then setpoint="21" /></when>'
+                + '</directives>'
+        );
+    });
+
+    it('ends a block at midnight on the next day', () => {
+        assert.equal(
+            builder.buildDirectives([
+                { day: 'sa', start: '22:00', end: '24:00', preset: 'away' },
+                { day: 'su', start: '22:00', end: '24:00', preset: 'away' }
+            ]),
+            '<directives>'
+                + '<when time="[sa 22:00,su 00:00)"><then preset="away" /></when>'
+                + '<when time="[su 22:00,mo 00:00)"><then preset="away" /></when>'
+                + '</directives>'
+        );
+    });
+
+    it('does not modify the blocks it merges', () => {
+        const blocks: ScheduleBlock[] = [
+            { day: 'tu', start: '00:00', end: '12:00', preset: 'home' },
+            { day: 'tu', start: '12:00', end: '24:00', preset: 'home' }
+        ];
+        builder.buildDirectives(blocks);
+        assert.equal(blocks[0].end, '12:00');
+    });
+});
+
+describe('PlugwiseClient.saveSchedule (adam)', () => {
+    const LIVING_ROOM = '12493538af164a409c6a1c79e38afe1c';
+    const BEDROOM = '82fa13f017d240daa0d0ea1775420f24';
+    let hub: SimulatedHub;
+
+    beforeEach(async () => {
+        hub = await startHub('adam');
+    });
+
+    afterEach(() => hub.stop());
+
+    it('creates a schedule and moves the zone to it', async () => {
+        const schedule = await hub.client.saveSchedule({
+            name: 'Weekend',
+            description: 'Late mornings',
+            blocks: [{ day: 'sa', start: '09:00', end: '23:00', setpoint: 20 }],
+            fill: { preset: 'asleep' },
+            location_ids: [LIVING_ROOM]
+        });
+
+        assert.equal(schedule.active, true);
+        assert.deepEqual(schedule.locations, [LIVING_ROOM]);
+        assert.ok(schedule.blocks.some(block => block.day === 'sa' && block.start === '09:00' && block.setpoint === 20));
+        assert.deepEqual((await hub.client.getSchedule('Weekschema')).locations, []);
+    });
+
+    it('replaces the program of an existing schedule and keeps its zones', async () => {
+        const schedule = await hub.client.saveSchedule({
+            name: 'weekschema',
+            blocks: [{ day: 'mo', start: '00:00', end: '24:00', preset: 'home' }],
+            fill: { preset: 'away' }
+        });
+
+        assert.equal(schedule.name, 'Weekschema');
+        assert.equal(schedule.description, 'Weekdays away during office hours');
+        assert.deepEqual(schedule.locations, [LIVING_ROOM]);
+        assert.equal(schedule.blocks.filter(block => block.day === 'mo').length, 1);
+    });
+
+    it('checks setpoints against the zone limits', async () => {
+        await assert.rejects(
+            hub.client.saveSchedule({
+                name: 'Hot',
+                blocks: [{ day: 'mo', start: '00:00', end: '24:00', setpoint: 99 }],
+                fill: { preset: 'home' },
+                location_ids: [BEDROOM]
+            }),
+            ScheduleValidationError
+        );
+        assert.deepEqual(writes(hub.simulator), []);
+    });
+
+    it('keeps names and descriptions inside their CDATA section', async () => {
+        const name = 'Evil]]><active>true</active><![CDATA[';
+        const schedule = await hub.client.saveSchedule({
+            name,
+            description: 'a ]]> b',
+            blocks: [{ day: 'mo', start: '00:00', end: '24:00', preset: 'home' }],
+            fill: { preset: 'away' }
+        });
+
+        assert.equal(schedule.name, name);
+        assert.equal(schedule.description, 'a ]]> b');
+        assert.equal(schedule.active, false);
+    });
+});
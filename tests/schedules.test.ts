@@ -0,0 +1,82 @@
+/**
+ * Schedule Tests
+ * List, inspect and (de)activate the weekly schedules of the Adam scenario
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SimulatedHub, startHub } from './helpers/simulator.js';
+
+const LIVING_ROOM = '12493538af164a409c6a1c79e38afe1c';
+const BEDROOM = '82fa13f017d240daa0d0ea1775420f24';
+
+describe('schedules (adam)', () => {
+    let hub: SimulatedHub;
+
+    beforeEach(async () => {
+        hub = await startHub('adam');
+    });
+
+    afterEach(() => hub.stop());
+
+    it('lists the schedules with their zones and blocks', async () => {
+        const schedules = await hub.client.getSchedules();
+
+        assert.deepEqual(
+            schedules.map(schedule => [schedule.name, schedule.active, schedule.locations]),
+            [['Weekschema', true, [LIVING_ROOM]], ['Thuiswerken', false, []]]
+        );
+        const blocks = schedules[0].blocks;
+        assert.ok(blocks.length > 0);
+        assert.ok(blocks.every(block => block.start < block.end));
+    });
+
+    it('finds a schedule by name regardless of case', async () => {
+        assert.equal((await hub.client.getSchedule('thuiswerken')).description, 'Home all day');
+        await assert.rejects(hub.client.getSchedule('Holiday'), /No schedule named Holiday. Available: Weekschema, Thuiswerken/);
+    });
+
+    it('reports the schedules available to each zone', async () => {
+        const { entities } = await hub.client.getDevices();
+        assert.deepEqual(entities[LIVING_ROOM].available_schedules, ['Weekschema', 'Thuiswerken', 'off']);
+        assert.equal(entities[LIVING_ROOM].select_schedule, 'Weekschema');
+        assert.equal(entities[BEDROOM].select_schedule, 'off');
+    });
+
+    it('moves a zone to another schedule', async () => {
+        await hub.client.setScheduleState(LIVING_ROOM, 'on', 'Thuiswerken');
+
+        const schedules = await hub.client.getSchedules();
+        assert.deepEqual(schedules.map(schedule => [schedule.active, schedule.locations]), [
+            [false, []],
+            [true, [LIVING_ROOM]]
+        ]);
+    });
+
+    it('turns a schedule off and back on without a name', async () => {
+        await hub.client.setScheduleState(LIVING_ROOM, 'off');
+        assert.equal((await hub.client.getDevices()).entities[LIVING_ROOM].select_schedule, 'off');
+
+        await hub.client.setScheduleState(LIVING_ROOM, 'on');
+        assert.equal((await hub.client.getDevices()).entities[LIVING_ROOM].select_schedule, 'Weekschema');
+    });
+
+    it('asks for a name when a zone could follow several schedules', async () => {
+        await assert.rejects(
+            hub.client.setScheduleState(BEDROOM, 'on'),
+            /Multiple schedules available, specify one of: Weekschema, Thuiswerken/
+        );
+    });
+
+    it('rejects schedules on legacy firmware', async () => {
+        const legacy = await startHub('anna-legacy');
+        try {
+            await assert.rejects(
+                legacy.client.setScheduleState(legacy.client.getGatewayId(), 'on', 'Weekschema'),
+                /not supported on legacy firmware/
+            );
+        } finally {
+            await legacy.stop();
+        }
+    });
+});
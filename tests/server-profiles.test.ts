@@ -0,0 +1,90 @@
+/**
+ * Server Profile Tests
+ * Tools listed and callable per profile, with their annotations
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ServerProfile } from '../src/config/index.js';
+import { ToolRegistry } from '../src/mcp/tool-registry.js';
+import { registerAllTools } from '../src/mcp/tools/index.js';
+import { ConnectionService } from '../src/services/connection.service.js';
+import { DeviceStorageService } from '../src/services/device-storage.service.js';
+import { EnergyReportService } from '../src/services/energy-report.service.js';
+import { HistoryService } from '../src/services/history.service.js';
+import { HubDiscoveryService } from '../src/services/hub-discovery.service.js';
+import { StatePollerService } from '../src/services/state-poller.service.js';
+
+/** Registering the tools does not use the services, calling them is not tested here */
+function createRegistry(profile: ServerProfile): ToolRegistry {
+    const registry = new ToolRegistry(hub => hub ?? null, profile);
+    registerAllTools(
+        registry,
+        {} as ConnectionService,
+        {} as HubDiscoveryService,
+        {} as DeviceStorageService,
+        {} as StatePollerService,
+        {} as HistoryService,
+        {} as EnergyReportService
+    );
+    return registry;
+}
+
+function toolNames(profile: ServerProfile): string[] {
+    return createRegistry(profile).getToolList().map(tool => tool.name);
+}
+
+describe('server profiles', () => {
+    it('lists only read-only tools in the readonly profile', () => {
+        const tools = createRegistry('readonly').getToolList();
+
+        assert.ok(tools.length > 0);
+        assert.ok(tools.every(tool => tool.annotations?.readOnlyHint === true), 'every tool is read-only');
+        assert.ok(tools.some(tool => tool.name === 'get_devices'));
+        assert.ok(!tools.some(tool => tool.name === 'set_temperature'));
+    });
+
+    it('adds the climate tools, not switches or admin tools, in the climate profile', () => {
+        const tools = toolNames('climate');
+
+        assert.ok(tools.includes('get_devices'));
+        assert.ok(tools.includes('set_temperature'));
+        assert.ok(tools.includes('set_preset'));
+        assert.ok(!tools.includes('control_switch'));
+        assert.ok(!tools.includes('reboot_gateway'));
+        assert.ok(!tools.includes('add_hub'));
+    });
+
+    it('lists every tool in the full profile', () => {
+        const tools = toolNames('full');
+
+        assert.ok(tools.includes('control_switch'));
+        assert.ok(tools.includes('reboot_gateway'));
+        assert.ok(toolNames('climate').every(name => tools.includes(name)));
+    });
+
+    it('refuses calls to tools outside the profile before validating them', async () => {
+        const result = await createRegistry('readonly').handleToolCall({
+            method: 'tools/call',
+            params: { name: 'set_temperature', arguments: {} }
+        });
+
+        assert.equal(result.isError, true);
+        assert.deepEqual(result.structuredContent, {
+            success: false,
+            error: 'Tool set_temperature is not available in the readonly profile',
+            code: 'tool_unavailable',
+            tool: 'set_temperature',
+            profile: 'readonly'
+        });
+    });
+
+    it('marks destructive tools', () => {
+        const tools = createRegistry('full').getToolList();
+        const reboot = tools.find(tool => tool.name === 'reboot_gateway')!;
+        const deleteNotification = tools.find(tool => tool.name === 'delete_notification')!;
+
+        assert.equal(reboot.annotations?.destructiveHint, true);
+        assert.equal(deleteNotification.annotations?.destructiveHint, true);
+    });
+});
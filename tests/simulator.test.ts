@@ -0,0 +1,78 @@
+/**
+ * Simulator Tests
+ * Drives every gateway scenario through the client
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { listScenarios } from '../src/simulator/index.js';
+import { findEntity, SimulatedHub, startHub } from './helpers/simulator.js';
+
+const EXPECTED_TYPES: Record<string, string> = {
+    adam: 'thermostat',
+    anna: 'thermostat',
+    'anna-heatpump': 'thermostat',
+    'anna-legacy': 'thermostat',
+    p1: 'power',
+    stretch: 'stretch',
+    'stretch-legacy': 'stretch'
+};
+
+for (const scenario of listScenarios()) {
+    describe(`scenario ${scenario.key}`, () => {
+        let hub: SimulatedHub;
+
+        before(async () => {
+            hub = await startHub(scenario.key);
+        });
+
+        after(() => hub.stop());
+
+        it('detects the gateway', () => {
+            const info = hub.client.getGatewayInfo();
+            assert.equal(info?.type, EXPECTED_TYPES[scenario.key]);
+            assert.equal(info?.legacy, scenario.key.endsWith('-legacy'));
+        });
+
+        it('lists the devices', async () => {
+            const data = await hub.client.getDevices();
+            assert.ok(data.gateway_id);
+            assert.ok(Object.keys(data.entities).length > 0);
+            for (const entity of Object.values(data.entities)) {
+                assert.ok(entity.name);
+            }
+        });
+
+        it('changes a thermostat setpoint', async (t) => {
+            const thermostat = findEntity((await hub.client.getDevices()).entities, entity =>
+                entity.thermostat?.setpoint !== undefined && entity.dev_class !== 'zone'
+            );
+            if (!thermostat) return t.skip('no thermostat');
+
+            // A thermostat in a zone is written through its zone
+            await hub.client.setTemperature({ location_id: thermostat, setpoint: 19.5 });
+            const entities = (await hub.client.getDevices()).entities;
+            const zone = entities[entities[thermostat].location ?? thermostat] ?? entities[thermostat];
+            assert.equal(zone.thermostat?.setpoint, 19.5);
+        });
+
+        it('switches a relay', async (t) => {
+            const entities = (await hub.client.getDevices()).entities;
+            const plug = findEntity(entities, entity =>
+                entity.switches?.relay !== undefined && entity.switches.lock !== true
+            );
+            if (!plug) return t.skip('no unlocked relay');
+
+            const state = entities[plug].switches?.relay ? 'off' : 'on';
+            assert.equal(await hub.client.setSwitchState({ appliance_id: plug, state }), state === 'on');
+            assert.equal((await hub.client.getDevices()).entities[plug].switches?.relay, state === 'on');
+        });
+
+        it('refuses to switch a locked relay', async (t) => {
+            const locked = findEntity((await hub.client.getDevices()).entities, entity => entity.switches?.lock === true);
+            if (!locked) return t.skip('no locked relay');
+
+            await assert.rejects(hub.client.setSwitchState({ appliance_id: locked, state: 'off' }), /is locked/);
+        });
+    });
+}
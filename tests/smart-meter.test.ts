@@ -0,0 +1,50 @@
+/**
+ * Smart Meter Tests
+ * The P1 meter entity with its tariff and net electricity sensors
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GatewayEntity } from '../src/types/plugwise-types.js';
+import { findEntity, SimulatedHub, startHub } from './helpers/simulator.js';
+
+describe('smart meter (p1)', () => {
+    let hub: SimulatedHub;
+    let meter: GatewayEntity;
+
+    before(async () => {
+        hub = await startHub('p1');
+        const { entities } = await hub.client.getDevices();
+        meter = entities[findEntity(entities, entity => entity.dev_class === 'smartmeter')!];
+    });
+
+    after(() => hub.stop());
+
+    it('reports the meter as its own entity', () => {
+        assert.equal(meter.name, 'P1');
+        assert.equal(meter.model, 'KFM5KAIFA-METER');
+        assert.equal(meter.vendor, 'SHENZHEN KAIFA TECHNOLOGY');
+    });
+
+    it('maps peak and off-peak tariffs, with meter readings in kWh', () => {
+        assert.equal(meter.sensors?.electricity_consumed_peak_point, 486);
+        assert.equal(meter.sensors?.electricity_consumed_off_peak_point, 0);
+        assert.equal(meter.sensors?.electricity_consumed_peak_cumulative, 17643.423);
+        assert.equal(meter.sensors?.electricity_consumed_off_peak_cumulative, 25958.285);
+        assert.equal(meter.sensors?.electricity_produced_peak_cumulative, 5418.012);
+        assert.equal(meter.sensors?.electricity_produced_off_peak_cumulative, 2189.34);
+        assert.equal(meter.sensors?.electricity_consumed_peak_interval, 219);
+    });
+
+    it('keeps phase, voltage and gas readings', () => {
+        assert.equal(meter.sensors?.electricity_phase_one_consumed, 198);
+        assert.equal(meter.sensors?.voltage_phase_three, 234.7);
+        assert.equal(meter.sensors?.gas_consumed_cumulative, 3257.98);
+        assert.equal(meter.sensors?.gas_consumed_interval, 0.07);
+    });
+
+    it('reports consumed minus produced as net electricity', () => {
+        assert.equal(meter.sensors?.net_electricity_point, 486);
+        assert.equal(meter.sensors?.net_electricity_cumulative, 35994.356);
+    });
+});
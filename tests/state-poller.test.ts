@@ -0,0 +1,98 @@
+/**
+ * State Poller Tests
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffSnapshots } from '../src/services/state-poller.service.js';
+import { GatewayEntity, PlugwiseData } from '../src/types/plugwise-types.js';
+
+const AT = new Date('2026-03-02T10:00:00.000Z');
+
+function snapshot(entities: Record<string, GatewayEntity>): PlugwiseData {
+    return {
+        gateway_id: 'gateway',
+        gateway_info: { legacy: false, model: 'Gateway', name: 'Adam', type: 'thermostat', version: '3.7.8' },
+        entities
+    };
+}
+
+describe('diffSnapshots', () => {
+    it('reports nothing for an unchanged snapshot', () => {
+        const data = snapshot({
+            zone: { name: 'Living room', thermostat: { setpoint: 20 } },
+            plug: { name: 'Plug', switches: { relay: true } }
+        });
+        assert.deepEqual(diffSnapshots('home', data, structuredClone(data), AT), []);
+    });
+
+    it('reports setpoint changes per field', () => {
+        const events = diffSnapshots(
+            'home',
+            snapshot({ zone: { name: 'Living room', thermostat: { setpoint_low: 18, setpoint_high: 24 } } }),
+            snapshot({ zone: { name: 'Living room', thermostat: { setpoint_low: 19, setpoint_high: 24 } } }),
+            AT
+        );
+
+        assert.deepEqual(events, [{
+            hub: 'home',
+            device_id: 'zone',
+            device_name: 'Living room',
+            timestamp: '2026-03-02T10:00:00.000Z',
+            type: 'setpoint_changed',
+            field: 'setpoint_low',
+            previous: 18,
+            current: 19
+        }]);
+    });
+
+    it('reports toggled relays', () => {
+        const events = diffSnapshots(
+            'home',
+            snapshot({ plug: { name: 'Plug', switches: { relay: true } } }),
+            snapshot({ plug: { name: 'Plug', switches: { relay: false } } }),
+            AT
+        );
+
+        assert.equal(events.length, 1);
+        assert.equal(events[0].type, 'relay_toggled');
+        assert.deepEqual([events[0].previous, events[0].current], [true, false]);
+    });
+
+    it('reports devices that become unavailable or return', () => {
+        const events = diffSnapshots(
+            'home',
+            snapshot({
+                lost: { name: 'Lost', available: true },
+                removed: { name: 'Removed' },
+                back: { name: 'Back', available: false }
+            }),
+            snapshot({
+                lost: { name: 'Lost', available: false },
+                back: { name: 'Back', available: true },
+                added: { name: 'Added' }
+            }),
+            AT
+        );
+
+        assert.deepEqual(
+            events.map(event => [event.device_id, event.type]),
+            [
+                ['lost', 'device_unavailable'],
+                ['removed', 'device_unavailable'],
+                ['back', 'device_available'],
+                ['added', 'device_available']
+            ]
+        );
+    });
+
+    it('does not report changes of an unavailable device', () => {
+        const events = diffSnapshots(
+            'home',
+            snapshot({ plug: { name: 'Plug', available: false, switches: { relay: true } } }),
+            snapshot({ plug: { name: 'Plug', available: false, switches: { relay: false } } }),
+            AT
+        );
+        assert.deepEqual(events, []);
+    });
+});
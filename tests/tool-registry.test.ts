@@ -0,0 +1,124 @@
+/**
+ * Tool Registry Tests
+ * Argument validation, output schemas and structured errors
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { ToolRegistry } from '../src/mcp/tool-registry.js';
+import { registerAddHubTool } from '../src/mcp/tools/add-hub.tool.js';
+import { successOutput, successResponse } from '../src/mcp/tools/tool-helpers.js';
+import { HubDiscoveryService } from '../src/services/hub-discovery.service.js';
+
+function call(name: string, args: Record<string, unknown> = {}): CallToolRequest {
+    return { method: 'tools/call', params: { name, arguments: args } };
+}
+
+function createRegistry(): { registry: ToolRegistry; received: unknown[] } {
+    const registry = new ToolRegistry();
+    const received: unknown[] = [];
+
+    registry.registerTool(
+        'set_temperature',
+        {
+            title: 'Set Temperature',
+            category: 'climate',
+            description: 'Set a setpoint',
+            annotations: { readOnlyHint: false },
+            inputSchema: z.object({
+                location_id: z.string().min(1),
+                setpoint: z.number().min(4).max(30),
+                hub: z.string().optional()
+            }),
+            outputSchema: successOutput(z.object({ setpoint: z.number() }))
+        },
+        async args => {
+            received.push(args);
+            return successResponse({ setpoint: args.setpoint });
+        }
+    );
+    registry.registerTool(
+        'broken',
+        {
+            title: 'Broken',
+            category: 'read',
+            description: 'Always fails',
+            annotations: { readOnlyHint: true },
+            inputSchema: z.object({})
+        },
+        async () => {
+            throw new Error('gateway exploded');
+        }
+    );
+
+    return { registry, received };
+}
+
+describe('ToolRegistry', () => {
+    it('passes validated arguments to the handler, without unknown ones', async () => {
+        const { registry, received } = createRegistry();
+        const result = await registry.handleToolCall(call('set_temperature', { location_id: 'zone', setpoint: 20, extra: true }));
+
+        assert.equal(result.isError, undefined);
+        assert.deepEqual(result.structuredContent, { success: true, data: { setpoint: 20 } });
+        assert.deepEqual(received, [{ location_id: 'zone', setpoint: 20 }]);
+    });
+
+    it('rejects invalid arguments with the problems per argument', async () => {
+        const { registry, received } = createRegistry();
+        const result = await registry.handleToolCall(call('set_temperature', { setpoint: 99 }));
+
+        assert.equal(result.isError, true);
+        assert.deepEqual(result.structuredContent, {
+            success: false,
+            error: 'Invalid arguments for set_temperature: location_id: Required; setpoint: Number must be less than or equal to 30',
+            code: 'invalid_arguments',
+            tool: 'set_temperature',
+            issues: ['location_id: Required', 'setpoint: Number must be less than or equal to 30']
+        });
+        assert.deepEqual(received, []);
+    });
+
+    it('reports unknown tools and handler exceptions with a code', async () => {
+        const { registry } = createRegistry();
+
+        const unknown = await registry.handleToolCall(call('make_coffee'));
+        assert.equal(unknown.isError, true);
+        assert.equal((unknown.structuredContent as Record<string, unknown>).code, 'unknown_tool');
+
+        const broken = await registry.handleToolCall(call('broken'));
+        assert.equal(broken.isError, true);
+        assert.deepEqual(broken.structuredContent, {
+            success: false,
+            error: 'Error in broken: gateway exploded',
+            code: 'internal_error',
+            tool: 'broken'
+        });
+    });
+
+    it('publishes the input schema and a success-or-error output schema', () => {
+        const { registry } = createRegistry();
+        const tool = registry.getToolList().find(item => item.name === 'set_temperature')!;
+
+        assert.equal(tool.inputSchema.type, 'object');
+        assert.deepEqual(tool.inputSchema.required, ['location_id', 'setpoint']);
+
+        const output = tool.outputSchema as { type: string; anyOf: { properties: { success: { const: boolean } } }[] };
+        assert.equal(output.type, 'object');
+        assert.deepEqual(output.anyOf.map(schema => schema.properties.success.const), [true, false]);
+    });
+
+    it('returns the failures of add_hub as error results', async () => {
+        const registry = new ToolRegistry();
+        const discovery = {
+            addHubByName: async () => ({ success: false, error: 'Hub glmpuuxg not found on the network' })
+        } as unknown as HubDiscoveryService;
+        registerAddHubTool(registry, discovery);
+
+        const result = await registry.handleToolCall(call('add_hub', { hubName: 'glmpuuxg' }));
+        assert.equal(result.isError, true);
+        assert.deepEqual(result.structuredContent, { success: false, error: 'Hub glmpuuxg not found on the network' });
+    });
+});
@@ -0,0 +1,76 @@
+/**
+ * Zone Tests
+ * Zone members and primary/secondary thermostats of the Adam scenario
+ */
+
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LocationParser } from '../src/client/parsers/location-parser.js';
+import { SimulatorScenario } from '../src/simulator/index.js';
+import { SimulatedHub, startHub } from './helpers/simulator.js';
+
+const LISA = 'ad4838d7d35c4d6ea796ee12ae5aedf8';
+const TOM = 'e2f4322d57924fa090fbbc48b3a140dc';
+const PLUG = '675416a629f343c495449970e2ca37b5';
+const LIVING_ROOM = '12493538af164a409c6a1c79e38afe1c';
+const BEDROOM = '82fa13f017d240daa0d0ea1775420f24';
+
+/** Move the radiator valve from the bedroom to the living room */
+function valveInLivingRoom(scenario: SimulatorScenario): void {
+    for (const location of scenario.locations) {
+        location.appliances = location.appliances.filter(id => id !== TOM);
+        if (location.id === LIVING_ROOM) location.appliances.push(TOM);
+    }
+    scenario.appliances.find(appliance => appliance.id === TOM)!.location = LIVING_ROOM;
+}
+
+describe('zones (adam)', () => {
+    let hub: SimulatedHub;
+
+    afterEach(() => hub.stop());
+
+    it('links zones and their devices in both directions', async () => {
+        hub = await startHub('adam');
+        const { entities } = await hub.client.getDevices();
+
+        assert.deepEqual(entities[LIVING_ROOM].members, [LISA, PLUG]);
+        assert.deepEqual(entities[BEDROOM].members, [TOM]);
+        assert.equal(entities[LISA].location, LIVING_ROOM);
+        assert.equal(entities[TOM].location, BEDROOM);
+    });
+
+    it('makes the only thermostat of a zone its primary thermostat', async () => {
+        hub = await startHub('adam');
+        const { entities } = await hub.client.getDevices();
+
+        assert.deepEqual(entities[LIVING_ROOM].thermostats, { primary: [LISA], secondary: [] });
+        assert.deepEqual(entities[BEDROOM].thermostats, { primary: [TOM], secondary: [] });
+    });
+
+    it('ranks a radiator valve below a zone thermostat', async () => {
+        hub = await startHub('adam', valveInLivingRoom);
+        const { entities } = await hub.client.getDevices();
+
+        assert.deepEqual(entities[LIVING_ROOM].thermostats, { primary: [LISA], secondary: [TOM] });
+        assert.equal(entities[BEDROOM].thermostats, undefined);
+    });
+});
+
+describe('LocationParser.rankThermostats', () => {
+    const parser = new LocationParser();
+
+    it('keeps devices of the highest rank as primary, whatever their order', () => {
+        const entities = {
+            valve: { name: 'Valve', dev_class: 'thermostatic_radiator_valve' },
+            lisa: { name: 'Lisa', dev_class: 'zone_thermostat' },
+            jip: { name: 'Jip', dev_class: 'zone_thermometer' },
+            plug: { name: 'Plug', dev_class: 'zz_misc' }
+        };
+
+        assert.deepEqual(parser.rankThermostats(['valve', 'plug', 'lisa', 'jip'], entities), {
+            primary: ['lisa', 'jip'],
+            secondary: ['valve']
+        });
+        assert.deepEqual(parser.rankThermostats(['plug'], entities), { primary: [], secondary: [] });
+    });
+});